@@ -1,11 +1,46 @@
 
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { Card, MindMapState } from './types';
-import { generateMindMap, expandNode, analyzeMap } from './services/geminiService';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { flushSync } from 'react-dom';
+import { Card, MindMapState, LayoutDirection, DocumentMeta, MindMapDocument, ChatMessage, ChatThread, ExpansionStatus, MapAction, NodeActionKind, SourceDocument, CollabPeer, CollabSettings, CollabStatus, CrdtState } from './types';
+import { streamMindMap, deepenMindMap, expandNode, runNodeAction, streamAssistantReply, generateFromSource, BranchProgress } from './services/geminiService';
+import { createExpansionQueue } from './services/expansionQueue';
 import MindMapCanvas from './components/MindMapCanvas';
 import AndroidCodeView from './components/AndroidCodeView';
-
-const STORAGE_KEY = 'gemini_mind_map_data_v4';
+import DocumentLibrary from './components/DocumentLibrary';
+import ImportExportMenu from './components/ImportExportMenu';
+import AISettingsPanel from './components/AISettingsPanel';
+import GenerationOptionsMenu from './components/GenerationOptionsMenu';
+import NodeInspector from './components/NodeInspector';
+import SelectionToolbar from './components/SelectionToolbar';
+import AssistantPanel from './components/AssistantPanel';
+import AIErrorBanner from './components/AIErrorBanner';
+import SourceImportDialog, { SourceImportRequest } from './components/SourceImportDialog';
+import CollabMenu from './components/CollabMenu';
+import { EditContinuation } from './components/InlineEditor';
+import { getAISettings, saveAISettings, getGenerationOptions, saveGenerationOptions } from './services/aiSettings';
+import { PROVIDER_INFO } from './services/providers';
+import { CollabSession, connectCollab, createClientId, getCollabSettings, readShareLink, saveCollabSettings } from './services/collabService';
+import { AIError, AI_ERROR_INFO, describeAIError, toAIError } from './services/aiErrors';
+import {
+  initWorkspace, listDocuments, loadDocument, saveDocument, deleteDocument, renameDocument,
+  duplicateDocument, createDocument, setActiveDocumentId
+} from './services/storageService';
+import { DocumentSchemaError } from './utils/documentSchema';
+import { collapseToLevel, countDescendants, expandAll, findNode, findParent, moveNode, revealNode, setCollapsed } from './utils/tree';
+import { NodeFields, applyNodeFields, normalizeTags } from './utils/nodeFields';
+import {
+  getTopLevelSelection, moveNodes, nodesToJson, nodesToMarkdown, parseClipboardNodes, pasteNodes, removeNodes, updateNodes
+} from './utils/selection';
+import { applyActions, describeAction, splitReply } from './utils/mapActions';
+import { NODE_ACTIONS } from './utils/nodeActions';
+import { mergeTrees, splitPassages, upsertSource } from './utils/sources';
+import { DEFAULT_THREAD_TITLE, appendNote, createThread, replyToNote, threadToMarkdown, titleFromQuery } from './utils/chatThreads';
+import { downloadFile, safeFilename } from './utils/download';
+import { CHANGE_COLORS } from './utils/mapRenderer';
+import { DEFAULT_LAYOUT, getLayoutEngine } from './utils/layout';
+import { recordHistory, undoHistory, redoHistory, rebaseHistory } from './utils/history';
+import { Replica, createReplica, isEmptyState } from './utils/crdt';
+import { applyTreeChanges, diffTrees } from './utils/treeDiff';
 
 const DEFAULT_MIND_MAP: Card = {
   id: 'root-001',
@@ -30,24 +65,90 @@ const DEFAULT_MIND_MAP: Card = {
   ]
 };
 
+// 同时进行的 AI 扩展请求数，其余排队
+const EXPAND_CONCURRENCY = 3;
+
+const createBlankRoot = (): Card => ({ id: `root-${Date.now()}`, message: '中心主题', children: [] });
+
 const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'visual' | 'android' | 'json'>('visual');
-  const [state, setState] = useState<MindMapState>(() => {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    return {
-      root: saved ? JSON.parse(saved) : DEFAULT_MIND_MAP,
-      loading: false,
-      error: null,
-    };
+  const [state, setState] = useState<MindMapState>({
+    root: null,
+    loading: true,
+    error: null,
+    past: [],
+    future: [],
   });
-  
+  const [layout, setLayout] = useState<LayoutDirection>(DEFAULT_LAYOUT);
+  // 选中的节点，最后一个为当前节点（检查器与键盘导航作用于它）
+  const [selection, setSelection] = useState<string[]>([]);
+  const selectedId = selection.length ? selection[selection.length - 1] : null;
+  const setSelectedId = useCallback((id: string | null) => setSelection(id ? [id] : []), []);
+  // 批量移动时等待用户点击目标节点
+  const [isPickingTarget, setIsPickingTarget] = useState(false);
+  // 最近一次复制的子树，粘贴内容与之相同时直接使用，保留全部字段
+  const clipboardRef = useRef<{ text: string; nodes: Card[] } | null>(null);
+  // 画布上正在就地编辑的节点
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  // 文档库
+  const [documents, setDocuments] = useState<DocumentMeta[]>([]);
+  const [activeDoc, setActiveDoc] = useState<DocumentMeta | null>(null);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // 载入时自动修复/迁移的说明
+  const [notices, setNotices] = useState<string[]>([]);
+  // 进行中的流式生成，切换文档或点击停止时中止
+  const generationRef = useRef<{ docId: string; controller: AbortController } | null>(null);
+  const [generatedCount, setGeneratedCount] = useState<number | null>(null);
+  const [branchProgress, setBranchProgress] = useState<BranchProgress[]>([]);
+  const [generationOptions, setGenerationOptions] = useState(getGenerationOptions);
+  // 最近一次失败的 AI 请求，retry 重新发起同一请求
+  const [aiFailure, setAIFailure] = useState<{ error: AIError; context: string; retry?: () => void } | null>(null);
+  const activeDocIdRef = useRef<string | null>(null);
+  // AI 扩展队列：每个节点排队中或进行中的请求，节点被删除或切换文档时取消
+  const [expansions, setExpansions] = useState<Map<string, ExpansionStatus>>(() => new Map());
+  const runExpansionRef = useRef<(id: string, signal: AbortSignal) => Promise<void>>(async () => {});
+  const [expansionQueue] = useState(() => createExpansionQueue({
+    concurrency: EXPAND_CONCURRENCY,
+    run: (id, signal) => runExpansionRef.current(id, signal),
+    onChange: setExpansions,
+  }));
+  // 进行中或等待确认的节点 AI 操作；actions 为 null 时表示请求进行中
+  const [nodeAction, setNodeAction] = useState<{ kind: NodeActionKind; nodeId: string; message: string; actions: MapAction[] | null } | null>(null);
+  const nodeActionAbortRef = useRef<AbortController | null>(null);
+  // 扩展请求开始时读取最新的导图，而不是点击时的快照
+  const rootRef = useRef<Card | null>(null);
+  rootRef.current = state.root;
+  // 从文档生成导图：当前导图导入过的原文，以及进行中的请求（done/total 为已完成的批数）
+  const [sources, setSources] = useState<SourceDocument[]>([]);
+  const [isSourceDialogOpen, setIsSourceDialogOpen] = useState(false);
+  const [sourceImport, setSourceImport] = useState<{ title: string; done: number; total: number } | null>(null);
+  const sourceAbortRef = useRef<AbortController | null>(null);
+  // 实时协作：replica 为当前文档的 CRDT 副本，syncedRoot 为已写入副本的树，与它的差异即尚未写入的本地修改
+  const [clientId] = useState(createClientId);
+  const replicaRef = useRef<Replica | null>(null);
+  const collabSessionRef = useRef<CollabSession | null>(null);
+  const syncedRootRef = useRef<Card | null>(null);
+  // 副本合并了远端修改后置位，由同步副作用生成新的导图
+  const remoteDirtyRef = useRef(false);
+  const [remoteVersion, setRemoteVersion] = useState(0);
+  const [collabStatus, setCollabStatus] = useState<CollabStatus | null>(null);
+  const [peers, setPeers] = useState<CollabPeer[]>([]);
+  const [collabSettings, setCollabSettings] = useState(getCollabSettings);
+  // 最近一次载入或保存的内容，用于跳过未改动时的写入
+  const savedSnapshotRef = useRef<{ root: Card | null; layout: LayoutDirection; past: unknown; future: unknown; threads: ChatThread[]; sources: SourceDocument[]; collab: CrdtState | null } | null>(null);
+
   const [input, setInput] = useState('');
   const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const [chatInput, setChatInput] = useState('');
-  const [chatHistory, setChatHistory] = useState<{ role: 'user' | 'ai', text: string }[]>([
-    { role: 'ai', text: '您好！我可以帮您分析当前的思维导图结构，或提供扩展建议。' }
-  ]);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  // 当前文档的 AI 助手对话
+  const [threads, setThreads] = useState<ChatThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+  // 进行中的助手回复，点击停止时中止
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const [isChatStreaming, setIsChatStreaming] = useState(false);
+  const [previewMessageId, setPreviewMessageId] = useState<string | null>(null);
+  const [aiSettings, setAISettings] = useState(getAISettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
   
   // 新增节点模态框状态
   const [addNodeModal, setAddNodeModal] = useState<{ isOpen: boolean; parentId: string; parentMsg: string; tempMsg: string }>({
@@ -57,15 +158,231 @@ const App: React.FC = () => {
     tempMsg: '新节点'
   });
 
-  const chatEndRef = useRef<HTMLDivElement>(null);
+  const stopCollab = useCallback(() => {
+    collabSessionRef.current?.close();
+    collabSessionRef.current = null;
+    replicaRef.current = null;
+    remoteDirtyRef.current = false;
+    setCollabStatus(null);
+    setPeers([]);
+  }, []);
+
+  // 连接副本所在的房间，已有连接时先关闭（例如修改了中继地址或名字）
+  const connectReplica = useCallback((room: string) => {
+    const replica = replicaRef.current;
+    if (!replica) return;
+    collabSessionRef.current?.close();
+    const { relayUrl, name, color } = getCollabSettings();
+    collabSessionRef.current = connectCollab({
+      relayUrl,
+      room,
+      clientId,
+      name,
+      color,
+      getState: () => replica.state,
+      onRemote: (delta) => {
+        if (replicaRef.current !== replica || isEmptyState(replica.merge(delta))) return;
+        remoteDirtyRef.current = true;
+        setRemoteVersion(v => v + 1);
+      },
+      onPeers: setPeers,
+      onStatus: setCollabStatus,
+    });
+  }, [clientId]);
+
+  // 开启协作：导图与已有 CRDT 状态（上次协作保存的）之间的差异作为本地修改写入
+  const startCollab = useCallback((room: string, crdt: CrdtState, root: Card | null) => {
+    stopCollab();
+    const replica = createReplica(clientId, crdt);
+    replica.applyLocal(diffTrees(replica.toTree().root, root));
+    replicaRef.current = replica;
+    syncedRootRef.current = root;
+    connectReplica(room);
+  }, [clientId, stopCollab, connectReplica]);
+
+  const applyDocument = useCallback((doc: MindMapDocument) => {
+    const docLayout = getLayoutEngine(doc.layout).id;
+    const past = doc.past || [];
+    const future = doc.future || [];
+    const docThreads = doc.threads || [];
+    const docSources = doc.sources || [];
+    if (generationRef.current && generationRef.current.docId !== doc.id) generationRef.current.controller.abort();
+    chatAbortRef.current?.abort();
+    expansionQueue.cancelAll();
+    nodeActionAbortRef.current?.abort();
+    setNodeAction(null);
+    if (doc.collab) startCollab(doc.id, doc.collab, doc.root);
+    else stopCollab();
+    savedSnapshotRef.current = { root: doc.root, layout: docLayout, past, future, threads: docThreads, sources: docSources, collab: replicaRef.current?.state ?? null };
+    setState({ root: doc.root, loading: false, error: null, past, future });
+    setLayout(docLayout);
+    setSelectedId(null);
+    setEditingId(null);
+    setThreads(docThreads);
+    setSources(docSources);
+    // 打开最近使用的对话
+    setActiveThreadId(docThreads.reduce<ChatThread | null>((latest, t) => (!latest || t.updatedAt > latest.updatedAt ? t : latest), null)?.id ?? null);
+    setPreviewMessageId(null);
+    setActiveDoc({ id: doc.id, title: doc.title, createdAt: doc.createdAt, updatedAt: doc.updatedAt });
+    setActiveDocumentId(doc.id);
+    activeDocIdRef.current = doc.id;
+    setAIFailure(null);
+  }, []);
+
+  const refreshDocuments = useCallback(async () => {
+    setDocuments(await listDocuments());
+  }, []);
+
+  // 打开邀请链接：加入对应房间，本地没有这份文档时新建空文档，内容从中继同步
+  const joinCollab = useCallback(async (room: string, relayUrl: string) => {
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+    if (relayUrl !== getCollabSettings().relayUrl) {
+      const settings = { ...getCollabSettings(), relayUrl };
+      saveCollabSettings(settings);
+      setCollabSettings(settings);
+    }
+    try {
+      const loaded = await loadDocument(room);
+      const doc = loaded ? { ...loaded.value, collab: loaded.value.collab ?? {} } : { ...createDocument('协作导图', null, DEFAULT_LAYOUT), id: room, collab: {} };
+      if (!loaded) await saveDocument(doc);
+      applyDocument(doc);
+      setNotices(loaded?.issues ?? []);
+      await refreshDocuments();
+    } catch (err) {
+      setState(prev => ({ ...prev, error: err instanceof DocumentSchemaError ? `文档无法打开：${err.message}` : '无法加入协作。' }));
+    }
+  }, [applyDocument, refreshDocuments]);
 
   useEffect(() => {
-    if (state.root) localStorage.setItem(STORAGE_KEY, JSON.stringify(state.root));
-  }, [state.root]);
+    initWorkspace(() => createDocument('示例导图', DEFAULT_MIND_MAP, DEFAULT_LAYOUT))
+      .then(({ documents, active, issues }) => {
+        setDocuments(documents);
+        applyDocument(active);
+        setNotices(issues);
+        const link = readShareLink();
+        if (link) joinCollab(link.room, link.relayUrl);
+      })
+      .catch(() => setState(prev => ({ ...prev, loading: false, error: "无法打开本地文档库。" })));
+  }, [applyDocument, joinCollab]);
 
+  useEffect(() => () => collabSessionRef.current?.close(), []);
+
+  // 载入文档并提示修复结果；无法修复的文档保持当前导图不变
+  const loadAndApply = useCallback(async (id: string) => {
+    try {
+      const loaded = await loadDocument(id);
+      if (!loaded) return false;
+      applyDocument(loaded.value);
+      setNotices(loaded.issues);
+      return true;
+    } catch (err) {
+      if (!(err instanceof DocumentSchemaError)) throw err;
+      setState(prev => ({ ...prev, error: `文档无法打开：${err.message}` }));
+      return false;
+    }
+  }, [applyDocument]);
+
+  // 协作：本地修改写入副本并发出；副本合并了远端修改时，把它生成的树以差异的形式套用到导图与撤销历史，
+  // 撤销因此只回退自己的修改。必须在保存之前执行，保存的 CRDT 状态才包含这次修改
+  useEffect(() => {
+    const replica = replicaRef.current;
+    if (!replica) return;
+    const session = collabSessionRef.current;
+    session?.send(replica.applyLocal(diffTrees(syncedRootRef.current, state.root)));
+    syncedRootRef.current = state.root;
+    if (!remoteDirtyRef.current) return;
+    remoteDirtyRef.current = false;
+    const { root: merged, repairs } = replica.toTree();
+    session?.send(repairs);
+    const remote = diffTrees(state.root, merged);
+    if (remote.length === 0) return;
+    const root = applyTreeChanges(state.root, remote);
+    syncedRootRef.current = root;
+    // 期间又有本地修改时套用到最新的树上，差异在下一轮写入副本
+    setState(prev => rebaseHistory(prev, prev.root === state.root ? root : applyTreeChanges(prev.root, remote), remote));
+  }, [state.root, remoteVersion]);
+
+  // 选中的节点与布局随光标一起发给协作者
+  useEffect(() => {
+    collabSessionRef.current?.setPresence({ selection, layout });
+  }, [selection, layout, collabStatus]);
+
+  const handlePointerMove = useCallback((cursor: { x: number; y: number } | null) => {
+    collabSessionRef.current?.setPresence({ cursor });
+  }, []);
+
+  const handleStartCollab = useCallback(() => {
+    if (activeDoc) startCollab(activeDoc.id, {}, rootRef.current);
+  }, [activeDoc, startCollab]);
+
+  const handleCollabSettings = useCallback((settings: CollabSettings) => {
+    saveCollabSettings(settings);
+    setCollabSettings(settings);
+    if (activeDoc && replicaRef.current) connectReplica(activeDoc.id);
+  }, [activeDoc, connectReplica]);
+
+  // 当前文档有改动时写回 IndexedDB 并刷新修改时间
   useEffect(() => {
-    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [chatHistory]);
+    if (!activeDoc) return;
+    // 流式回复结束后再保存，避免每收到一段就写一次
+    if (threads.some(t => t.messages.some(m => m.status === 'streaming'))) return;
+    const snapshot = savedSnapshotRef.current;
+    const collab = replicaRef.current?.state ?? null;
+    if (snapshot && snapshot.root === state.root && snapshot.layout === layout && snapshot.past === state.past && snapshot.future === state.future && snapshot.threads === threads && snapshot.sources === sources && snapshot.collab === collab) return;
+    savedSnapshotRef.current = { root: state.root, layout, past: state.past, future: state.future, threads, sources, collab };
+
+    const doc: MindMapDocument = {
+      ...activeDoc,
+      updatedAt: Date.now(),
+      root: state.root,
+      layout,
+      past: state.past,
+      future: state.future,
+      threads,
+      sources,
+      collab,
+    };
+    setActiveDoc(prev => (prev && prev.id === doc.id ? { ...prev, updatedAt: doc.updatedAt } : prev));
+    saveDocument(doc)
+      .then(refreshDocuments)
+      .catch(() => setState(prev => ({ ...prev, error: "保存文档失败。" })));
+  }, [activeDoc, state.root, state.past, state.future, layout, threads, sources, collabStatus, refreshDocuments]);
+
+  const openDocument = useCallback(async (id: string) => {
+    if (id === activeDoc?.id) return;
+    await loadAndApply(id);
+  }, [activeDoc, loadAndApply]);
+
+  const handleCreateDocument = useCallback(async (title = '未命名导图', root: Card = createBlankRoot(), docSources: SourceDocument[] = []) => {
+    const doc = { ...createDocument(title, root, layout), sources: docSources };
+    await saveDocument(doc);
+    applyDocument(doc);
+    await refreshDocuments();
+    return doc;
+  }, [layout, applyDocument, refreshDocuments]);
+
+  const handleRenameDocument = useCallback(async (id: string, title: string) => {
+    await renameDocument(id, title);
+    setActiveDoc(prev => (prev && prev.id === id ? { ...prev, title } : prev));
+    await refreshDocuments();
+  }, [refreshDocuments]);
+
+  const handleDuplicateDocument = useCallback(async (id: string) => {
+    const copy = await duplicateDocument(id);
+    if (copy) applyDocument(copy);
+    await refreshDocuments();
+  }, [applyDocument, refreshDocuments]);
+
+  const handleDeleteDocument = useCallback(async (id: string) => {
+    await deleteDocument(id);
+    const remaining = await listDocuments();
+    setDocuments(remaining);
+    if (id !== activeDoc?.id) return;
+    for (const next of remaining) {
+      if (await loadAndApply(next.id)) return;
+    }
+    await handleCreateDocument();
+  }, [activeDoc, loadAndApply, handleCreateDocument]);
 
   const findAndModifyNode = useCallback((node: Card | null, id: string, modifier: (node: Card) => Card | null): Card | null => {
     if (!node) return null;
@@ -78,45 +395,182 @@ const App: React.FC = () => {
     return { ...node, children: newChildren };
   }, []);
 
+  // 所有可撤销的树变更都走这里，label 显示在撤销/重做按钮提示中
+  const commitRoot = useCallback((label: string, modifier: (root: Card | null) => Card | null) => {
+    setState(prev => {
+      const nextRoot = modifier(prev.root);
+      if (nextRoot === prev.root) return prev;
+      return { ...prev, root: nextRoot, ...recordHistory(prev, label) };
+    });
+  }, []);
+
+  const handleUndo = useCallback(() => setState(prev => undoHistory(prev)), []);
+  const handleRedo = useCallback(() => setState(prev => redoHistory(prev)), []);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const handleImport = useCallback(async (root: Card, issues: string[]) => {
+    await handleCreateDocument(root.message, root);
+    setNotices(issues);
+    setActiveTab('visual');
+  }, [handleCreateDocument]);
+
   const performGeneration = async (topic: string) => {
-    if (!topic.trim()) return;
-    setState(prev => ({ ...prev, loading: true, error: null }));
+    const title = topic.trim();
+    if (!title || generationRef.current) return;
     setActiveTab('visual');
+    // 生成结果存为新文档，不覆盖当前导图；节点随流式响应逐步出现
+    const root: Card = { id: `root-${Date.now()}`, message: title, children: [] };
+    const doc = await handleCreateDocument(title, root);
+    await runGeneration(doc.id, root);
+  };
+
+  // 重试时如果生成用的文档仍然打开，就在其中重新生成，否则另建新文档
+  const retryGeneration = (docId: string, title: string) => {
+    if (generationRef.current) return;
+    if (activeDocIdRef.current !== docId) {
+      performGeneration(title);
+      return;
+    }
+    // 替换当前导图记入历史，撤销可以找回之前的结果和生成期间所做的修改
+    const root: Card = { id: `root-${Date.now()}`, message: title, children: [] };
+    commitRoot('重新生成', () => root);
+    runGeneration(docId, root);
+  };
+
+  // 生成期间用户仍可编辑：每次只把生成结果相对上一次的变化套用到当前导图上，
+  // 用户改过、删掉或新加的节点不会被后续的快照覆盖，撤销也只回退用户自己的编辑
+  const runGeneration = async (docId: string, start: Card) => {
+    const title = start.message;
+    const controller = new AbortController();
+    generationRef.current = { docId, controller };
+    setGeneratedCount(1);
+    setAIFailure(null);
+    setState(prev => ({ ...prev, loading: true, error: null }));
+    const options = generationOptions;
+    let generated = start;
+    const onUpdate = (root: Card) => {
+      if (controller.signal.aborted) return;
+      // 生成结果的根节点 id 与文档不同，换成文档的根节点
+      const next = { ...root, id: start.id };
+      const changes = diffTrees(generated, next);
+      generated = next;
+      setState(prev => rebaseHistory(prev, applyTreeChanges(prev.root, changes), changes));
+      setGeneratedCount(countDescendants(root) + 1);
+    };
     try {
-      const mindMap = await generateMindMap(topic);
-      setState({ root: mindMap, loading: false, error: null });
+      const result = await streamMindMap(title, options, onUpdate, controller.signal);
+      // 首轮之后逐层补全到目标深度
+      if (result && !controller.signal.aborted) {
+        const { skipped } = await deepenMindMap(result, options, onUpdate, setBranchProgress, controller.signal);
+        // 部分叶子未能展开时告知用户，导图比目标深度浅
+        if (skipped.length && !controller.signal.aborted) {
+          setAIFailure({ error: skipped[skipped.length - 1], context: `补全 ${skipped.length} 个深层节点` });
+        }
+      }
     } catch (err) {
-      setState(prev => ({ ...prev, loading: false, error: "AI 生成失败。" }));
+      const error = toAIError(err, controller.signal);
+      if (error.kind !== 'aborted') setAIFailure({ error, context: '生成导图', retry: () => retryGeneration(docId, title) });
+    } finally {
+      generationRef.current = null;
+      setGeneratedCount(null);
+      setBranchProgress([]);
+      setState(prev => ({ ...prev, loading: false }));
     }
   };
 
-  const handleExpand = useCallback(async (id: string, message: string) => {
-    setState(prev => ({
-      ...prev,
-      root: findAndModifyNode(prev.root, id, (node) => ({ ...node, isExpanding: true }))
-    }));
+  // 停止生成，保留已经收到的节点
+  const cancelGeneration = () => generationRef.current?.controller.abort();
 
+  // 从文档生成：新建导图时结果存为新文档；合并时追加到发起请求时打开的导图，
+  // 整次合并是一步撤销，原文同名时替换为新版本
+  const handleSourceImport = async (request: SourceImportRequest) => {
+    if (sourceAbortRef.current) return;
+    const { title, text, target } = request;
+    const passages = splitPassages(text);
+    if (passages.length === 0) return;
+    setIsSourceDialogOpen(false);
+    setActiveTab('visual');
+    const docId = activeDocIdRef.current;
+    const previous = target === 'merge' ? sources.find(s => s.name === title) : undefined;
+    const source: SourceDocument = { id: previous?.id ?? `src-${Date.now().toString(36)}`, name: title, passages, importedAt: Date.now() };
+    const controller = new AbortController();
+    sourceAbortRef.current = controller;
+    setSourceImport({ title, done: 0, total: 1 });
+    setAIFailure(null);
     try {
-      if (!state.root) return;
-      const fullTreeText = JSON.stringify(state.root);
-      const newChildren = await expandNode(message, state.root.message, fullTreeText);
-      
-      setState(next => ({
-        ...next,
-        root: findAndModifyNode(next.root, id, (node) => ({
-          ...node,
-          isExpanding: false,
-          children: [...node.children, ...newChildren]
-        }))
+      const incoming = await generateFromSource(title, passages, generationOptions, (done, total) => setSourceImport({ title, done, total }), controller.signal);
+      if (controller.signal.aborted) return;
+      if (target === 'new') {
+        await handleCreateDocument(title, incoming, [source]);
+        return;
+      }
+      if (activeDocIdRef.current !== docId) {
+        setState(prev => ({ ...prev, error: `「${title}」生成完成时已切换到其它导图，结果没有合并。` }));
+        return;
+      }
+      // 同步提交，提示中的数量取自实际合并进导图的结果
+      let added = 0;
+      flushSync(() => commitRoot(`从「${title}」合并`, root => {
+        const merged = root ? mergeTrees(root, incoming) : { root: incoming, added: countDescendants(incoming) + 1 };
+        added = merged.added;
+        return merged.root;
       }));
+      setSources(prev => upsertSource(prev, source));
+      setNotices([added > 0 ? `已从「${title}」合并 ${added} 个新节点。` : `「${title}」没有新的内容，原文已更新。`]);
     } catch (err) {
-      setState(next => ({
-        ...next,
-        root: findAndModifyNode(next.root, id, (node) => ({ ...node, isExpanding: false })),
-        error: "扩展节点失败。"
-      }));
+      const error = toAIError(err, controller.signal);
+      if (error.kind !== 'aborted') setAIFailure({ error, context: `从「${title}」生成导图`, retry: () => handleSourceImport(request) });
+    } finally {
+      sourceAbortRef.current = null;
+      setSourceImport(null);
     }
-  }, [findAndModifyNode, state.root]);
+  };
+
+  runExpansionRef.current = async (id, signal) => {
+    const root = rootRef.current;
+    const node = root && findNode(root, id);
+    if (!root || !node) return;
+    try {
+      const newChildren = await expandNode(root, id, undefined, signal);
+      if (signal.aborted) return;
+      setAIFailure(null);
+      // 整个 AI 扩展只记录为一步；节点在请求期间被删除时 commitRoot 不做任何改动
+      commitRoot('AI 扩展节点', root => findAndModifyNode(root, id, (node) => ({
+        ...setCollapsed(node, false),
+        children: [...node.children, ...newChildren]
+      })));
+    } catch (err) {
+      const error = toAIError(err, signal);
+      if (error.kind !== 'aborted') setAIFailure({ error, context: `扩展「${node.message}」`, retry: () => expansionQueue.enqueue(id) });
+    }
+  };
+
+  // 再次点击排队中或进行中的节点时取消
+  const handleExpand = useCallback((id: string) => {
+    if (!expansionQueue.cancel(id)) expansionQueue.enqueue(id);
+  }, [expansionQueue]);
+
+  // 节点被删除（包括撤销掉它的创建）后取消它的扩展请求
+  useEffect(() => {
+    if (expansionQueue.size() > 0) expansionQueue.cancelWhere(id => !state.root || !findNode(state.root, id));
+  }, [state.root, expansionQueue]);
 
   const openAddModal = (id: string) => {
     // 找到父节点的名称
@@ -140,73 +594,439 @@ const App: React.FC = () => {
       children: []
     };
 
-    setState(prev => ({
-      ...prev,
-      root: findAndModifyNode(prev.root, parentId, (node) => ({
-        ...node,
-        children: [...node.children, newNode]
-      }))
-    }));
+    commitRoot('添加节点', root => findAndModifyNode(root, parentId, (node) => ({
+      ...setCollapsed(node, false),
+      children: [...node.children, newNode]
+    })));
     setAddNodeModal(prev => ({ ...prev, isOpen: false }));
   };
 
-  const handleDelete = useCallback((id: string) => {
-    setState(prev => {
-      if (!prev.root) return prev;
-      if (prev.root.id === id) return { ...prev, root: null };
-      return { ...prev, root: findAndModifyNode(prev.root, id, () => null) };
+  // 只删除一个节点时允许删除根节点（清空导图）；批量删除时忽略根节点
+  const handleDelete = useCallback((ids: string[]) => {
+    commitRoot(ids.length > 1 ? `删除 ${ids.length} 个节点` : '删除节点', root => {
+      if (!root) return root;
+      if (ids.length === 1 && root.id === ids[0]) return null;
+      return removeNodes(root, new Set(ids));
     });
-  }, [findAndModifyNode]);
+  }, [commitRoot]);
 
   const handleEdit = useCallback((id: string, msg: string) => {
-    setState(prev => ({
-      ...prev,
-      root: findAndModifyNode(prev.root, id, (node) => ({ ...node, message: msg }))
-    }));
-  }, [findAndModifyNode]);
+    commitRoot('修改文本', root => findAndModifyNode(root, id, (node) => ({ ...node, message: msg })));
+  }, [findAndModifyNode, commitRoot]);
+
+  const handleEditStart = useCallback((id: string) => {
+    setSelectedId(id);
+    setEditingId(id);
+  }, []);
+
+  // 在锚点节点下（child）或其后（sibling）新建节点并立即进入编辑
+  const handleCreateNode = useCallback((anchorId: string, relation: EditContinuation) => {
+    if (!state.root) return;
+    const newNode: Card = { id: `m-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`, message: '新节点', children: [] };
+    const parent = relation === 'sibling' ? findParent(state.root, anchorId) : null;
+    if (parent) {
+      commitRoot('添加节点', root => findAndModifyNode(root, parent.id, (p) => {
+        const index = p.children.findIndex(c => c.id === anchorId) + 1;
+        return { ...p, children: [...p.children.slice(0, index), newNode, ...p.children.slice(index)] };
+      }));
+    } else {
+      // 根节点没有同级，新建为子节点
+      commitRoot('添加节点', root => findAndModifyNode(root, anchorId, (p) => ({
+        ...setCollapsed(p, false),
+        children: [...p.children, newNode]
+      })));
+    }
+    setSelectedId(newNode.id);
+    setEditingId(newNode.id);
+  }, [state.root, commitRoot, findAndModifyNode]);
+
+  // 提交就地编辑；next 为 child / sibling 时紧接着新建节点并继续编辑
+  const handleEditCommit = useCallback((id: string, text: string, next?: EditContinuation) => {
+    const node = state.root && findNode(state.root, id);
+    if (node && text.trim() && text !== node.message) handleEdit(id, text);
+    if (next) handleCreateNode(id, next);
+    else setEditingId(null);
+  }, [state.root, handleEdit, handleCreateNode]);
+
+  const handleMove = useCallback((id: string, parentId: string, index: number) => {
+    commitRoot('移动节点', root => root && moveNode(root, id, parentId, index));
+  }, [commitRoot]);
+
+  const handleNodeFields = useCallback((id: string, patch: Partial<NodeFields> & { message?: string }) => {
+    const { message, ...fields } = patch;
+    commitRoot(message !== undefined ? '修改文本' : '修改节点详情', root => findAndModifyNode(root, id, (node) =>
+      applyNodeFields(message !== undefined ? { ...node, message } : node, fields)
+    ));
+  }, [findAndModifyNode, commitRoot]);
+
+  // 节点被删除或撤销后不存在时，检查器自动关闭
+  const selectedNode = state.root && selectedId ? findNode(state.root, selectedId) : null;
+
+  // ---------- 多选与批量操作 ----------
+
+  // 删除、撤销等操作后去掉已不存在的选中节点
+  const liveSelection = state.root ? selection.filter(id => findNode(state.root!, id)) : [];
+  const selectedNodes = state.root ? liveSelection.map(id => findNode(state.root!, id)!) : [];
+  const selectionTags = normalizeTags(selectedNodes.flatMap(n => n.tags || []));
+
+  const handleMoveSelection = useCallback((parentId: string) => {
+    setIsPickingTarget(false);
+    commitRoot(`移动 ${selection.length} 个节点`, root => root && moveNodes(root, selection, parentId));
+  }, [commitRoot, selection]);
+
+  const handleSelectionFields = useCallback((label: string, modifier: (node: Card) => Card) => {
+    commitRoot(label, root => root && updateNodes(root, selection, modifier));
+  }, [commitRoot, selection]);
 
-  const handleChat = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (!chatInput.trim() || !state.root || isAnalyzing) return;
+  const handleExpandSelection = useCallback(() => {
+    selectedNodes.forEach(node => expansionQueue.enqueue(node.id));
+  }, [selectedNodes, expansionQueue]);
 
-    const userQuery = chatInput;
-    setChatInput('');
-    setChatHistory(prev => [...prev, { role: 'user', text: userQuery }]);
-    setIsAnalyzing(true);
+  const copySelection = useCallback((format: 'json' | 'markdown' = 'markdown') => {
+    if (!state.root) return null;
+    const nodes = getTopLevelSelection(state.root, selection);
+    if (nodes.length === 0) return null;
+    const text = format === 'json' ? nodesToJson(nodes) : nodesToMarkdown(nodes);
+    clipboardRef.current = { text, nodes };
+    return { text, json: nodesToJson(nodes) };
+  }, [state.root, selection]);
 
+  const handleCopyAs = useCallback((format: 'json' | 'markdown') => {
+    const copied = copySelection(format);
+    if (copied) navigator.clipboard.writeText(copied.text);
+  }, [copySelection]);
+
+  const handleCut = useCallback(() => {
+    const copied = copySelection();
+    if (!copied) return;
+    navigator.clipboard.writeText(copied.text);
+    handleDelete(selection);
+    setSelection([]);
+  }, [copySelection, handleDelete, selection]);
+
+  // 粘贴到当前节点下；没有选中节点时粘贴到根节点
+  const handlePaste = useCallback((text: string) => {
+    const nodes = clipboardRef.current?.text === text ? clipboardRef.current.nodes : parseClipboardNodes(text);
+    if (!state.root || nodes.length === 0) return;
+    const parentId = selectedId && findNode(state.root, selectedId) ? selectedId : state.root.id;
+    commitRoot(nodes.length > 1 ? `粘贴 ${nodes.length} 个节点` : '粘贴节点', root => root && pasteNodes(root, parentId, nodes));
+  }, [state.root, selectedId, commitRoot]);
+
+  // 系统剪贴板事件：纯文本为 Markdown 大纲，application/json 保留全部字段；输入框内保持默认行为
+  useEffect(() => {
+    const isEditable = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null;
+      return !!el && (el.tagName === 'INPUT' || el.tagName === 'TEXTAREA' || el.isContentEditable);
+    };
+    const onCopy = (e: ClipboardEvent) => {
+      if (activeTab !== 'visual' || isEditable(e.target) || window.getSelection()?.toString()) return;
+      const copied = copySelection();
+      if (!copied || !e.clipboardData) return;
+      e.preventDefault();
+      e.clipboardData.setData('text/plain', copied.text);
+      e.clipboardData.setData('application/json', copied.json);
+      if (e.type === 'cut') {
+        handleDelete(selection);
+        setSelection([]);
+      }
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (activeTab !== 'visual' || isEditable(e.target) || !e.clipboardData) return;
+      const text = e.clipboardData.getData('application/json') || e.clipboardData.getData('text/plain');
+      if (!text) return;
+      e.preventDefault();
+      handlePaste(text);
+    };
+    window.addEventListener('copy', onCopy);
+    window.addEventListener('cut', onCopy);
+    window.addEventListener('paste', onPaste);
+    return () => {
+      window.removeEventListener('copy', onCopy);
+      window.removeEventListener('cut', onCopy);
+      window.removeEventListener('paste', onPaste);
+    };
+  }, [activeTab, copySelection, handleDelete, handlePaste, selection]);
+
+  const handleToggleCollapse = useCallback((id: string) => {
+    commitRoot('折叠/展开节点', root => findAndModifyNode(root, id, (node) => setCollapsed(node, !node.collapsed)));
+  }, [findAndModifyNode, commitRoot]);
+
+  // 跳转到折叠分支内的节点时展开其祖先；这只是浏览，不记入撤销历史，逐个查看搜索结果也不会挤掉真正的编辑
+  const handleReveal = useCallback((id: string) => {
+    setState(prev => {
+      const root = prev.root && revealNode(prev.root, id);
+      return root === prev.root ? prev : { ...prev, root };
+    });
+  }, []);
+
+  const handleCollapseToLevel = useCallback((level: number) => {
+    commitRoot(`折叠到第 ${level} 层`, root => root && collapseToLevel(root, level));
+  }, [commitRoot]);
+
+  const handleExpandAll = useCallback(() => {
+    commitRoot('全部展开', root => root && expandAll(root));
+  }, [commitRoot]);
+
+  const chatMessages = threads.find(t => t.id === activeThreadId)?.messages ?? [];
+
+  const updateThread = useCallback((id: string, modifier: (thread: ChatThread) => ChatThread) => {
+    setThreads(prev => prev.map(t => (t.id === id ? modifier(t) : t)));
+  }, []);
+
+  const updateChatMessage = useCallback((threadId: string, id: string, patch: Partial<ChatMessage>) => {
+    updateThread(threadId, t => ({ ...t, messages: t.messages.map(m => (m.id === id ? { ...m, ...patch } : m)) }));
+  }, [updateThread]);
+
+  const handleChatSend = async (query: string) => {
+    if (!state.root || chatAbortRef.current) return;
+    const thread = threads.find(t => t.id === activeThreadId) ?? createThread();
+    const userMessage: ChatMessage = { id: `u-${Date.now()}`, role: 'user', text: query };
+    const replyId = `a-${Date.now()}`;
+    const history = [...thread.messages, userMessage];
+    const next: ChatThread = {
+      ...thread,
+      title: thread.messages.length === 0 && thread.title === DEFAULT_THREAD_TITLE ? titleFromQuery(query) : thread.title,
+      messages: [...history, { id: replyId, role: 'ai', text: '', status: 'streaming' }],
+      updatedAt: Date.now(),
+    };
+    setThreads(prev => (prev.some(t => t.id === next.id) ? prev.map(t => (t.id === next.id ? next : t)) : [...prev, next]));
+    setActiveThreadId(next.id);
+    await streamReply(next.id, replyId, history);
+  };
+
+  // 根据 history 流式获取回复，写入对话中 id 为 replyId 的消息；失败时改为错误说明
+  const streamReply = async (threadId: string, replyId: string, history: ChatMessage[]) => {
+    if (!state.root) return;
+    const controller = new AbortController();
+    chatAbortRef.current = controller;
+    setIsChatStreaming(true);
+
+    try {
+      const text = await streamAssistantReply(state.root, history, text => updateChatMessage(threadId, replyId, { text }), controller.signal);
+      updateChatMessage(threadId, replyId, { text, status: undefined });
+    } catch (err) {
+      const error = toAIError(err);
+      updateChatMessage(threadId, replyId, { text: `**${describeAIError(error)}**\n\n${AI_ERROR_INFO[error.kind].hint}`, status: 'error' });
+    } finally {
+      chatAbortRef.current = null;
+      setIsChatStreaming(false);
+    }
+  };
+
+  // 重新回答最后一条出错的回复
+  const handleChatRetry = (messageId: string) => {
+    const thread = threads.find(t => t.id === activeThreadId);
+    if (!thread || !state.root || chatAbortRef.current) return;
+    const index = thread.messages.findIndex(m => m.id === messageId);
+    if (index < 1 || index !== thread.messages.length - 1) return;
+    const history = thread.messages.slice(0, index);
+    const replyId = `a-${Date.now()}`;
+    updateThread(thread.id, t => ({ ...t, messages: [...history, { id: replyId, role: 'ai', text: '', status: 'streaming' }], updatedAt: Date.now() }));
+    streamReply(thread.id, replyId, history);
+  };
+
+  // 当前对话为空时直接沿用，不重复创建空对话
+  const handleCreateThread = useCallback(() => {
+    if (chatMessages.length === 0 && activeThreadId) return;
+    const thread = createThread();
+    setThreads(prev => [...prev, thread]);
+    setActiveThreadId(thread.id);
+    setPreviewMessageId(null);
+  }, [chatMessages, activeThreadId]);
+
+  const handleDeleteThread = useCallback((id: string) => {
+    const remaining = threads.filter(t => t.id !== id);
+    setThreads(remaining);
+    if (id === activeThreadId) setActiveThreadId(remaining[remaining.length - 1]?.id ?? null);
+    setPreviewMessageId(null);
+  }, [threads, activeThreadId]);
+
+  const handleExportThread = useCallback((id: string) => {
+    const thread = threads.find(t => t.id === id);
+    if (!thread) return;
+    downloadFile(`${safeFilename(activeDoc?.title ?? '')}-${safeFilename(thread.title)}.md`, threadToMarkdown(thread, state.root), 'text/markdown');
+  }, [threads, activeDoc, state.root]);
+
+  // 把回答追加到选中节点（未选中时为根节点）的备注，并选中该节点以便在详情面板查看
+  const pinTarget = selectedNode ?? state.root;
+  const handlePinReply = useCallback((messageId: string) => {
+    const message = chatMessages.find(m => m.id === messageId);
+    if (!message || !pinTarget) return;
+    const note = replyToNote(message.text);
+    commitRoot('钉选 AI 回答到备注', root => findAndModifyNode(root, pinTarget.id, node => applyNodeFields(node, { notes: appendNote(node.notes, note) })));
+    setSelectedId(pinTarget.id);
+  }, [chatMessages, pinTarget, commitRoot, findAndModifyNode, setSelectedId]);
+
+  // 回答中的节点链接：展开折叠的祖先后选中节点，画布会把它平移到视口内
+  const handleJumpToNode = useCallback((id: string) => {
+    if (!state.root || !findNode(state.root, id)) {
+      setNotices(['该节点已不存在。']);
+      return;
+    }
+    handleReveal(id);
+    setSelectedId(id);
+    setActiveTab('visual');
+  }, [state.root, handleReveal, setSelectedId]);
+
+  // 预览基于当前导图实时计算，预览期间对导图的编辑也会反映出来。节点 AI 操作的结果优先于助手消息
+  const previewActions = useMemo(() => {
+    if (nodeAction?.actions) return nodeAction.actions;
+    const message = previewMessageId ? chatMessages.find(m => m.id === previewMessageId) : undefined;
+    return message ? splitReply(message.text).actions : [];
+  }, [nodeAction, previewMessageId, chatMessages]);
+  const preview = useMemo(() => (
+    state.root && previewActions.length ? applyActions(state.root, previewActions, { preview: true, newId: i => `preview-${i}` }) : null
+  ), [state.root, previewActions]);
+
+  const cancelNodeAction = useCallback(() => {
+    nodeActionAbortRef.current?.abort();
+    nodeActionAbortRef.current = null;
+    setNodeAction(null);
+  }, []);
+
+  const handlePreviewMessage = useCallback((id: string | null) => {
+    cancelNodeAction();
+    setPreviewMessageId(id);
+  }, [cancelNodeAction]);
+
+  // 同一时间只有一个节点操作；新操作会取代尚未应用的上一个
+  const handleNodeAction = async (id: string, kind: NodeActionKind) => {
+    const root = rootRef.current;
+    const node = root && findNode(root, id);
+    if (!root || !node) return;
+    cancelNodeAction();
+    setPreviewMessageId(null);
+    const controller = new AbortController();
+    nodeActionAbortRef.current = controller;
+    setNodeAction({ kind, nodeId: id, message: node.message, actions: null });
     try {
-      const response = await analyzeMap(state.root, userQuery);
-      setChatHistory(prev => [...prev, { role: 'ai', text: response }]);
+      const actions = await runNodeAction(root, id, kind, controller.signal);
+      if (controller.signal.aborted) return;
+      setAIFailure(null);
+      if (actions.length === 0) {
+        setNodeAction(null);
+        setNotices([NODE_ACTIONS[kind].empty]);
+      } else {
+        setNodeAction({ kind, nodeId: id, message: node.message, actions });
+      }
     } catch (err) {
-      setChatHistory(prev => [...prev, { role: 'ai', text: "分析时出错。" }]);
+      const error = toAIError(err, controller.signal);
+      if (error.kind === 'aborted') return;
+      setNodeAction(null);
+      setAIFailure({ error, context: `${NODE_ACTIONS[kind].label}「${node.message}」`, retry: () => handleNodeAction(id, kind) });
     } finally {
-      setIsAnalyzing(false);
+      if (nodeActionAbortRef.current === controller) nodeActionAbortRef.current = null;
     }
   };
 
+  const handleApplyNodeAction = useCallback(() => {
+    if (!nodeAction?.actions) return;
+    const { actions, kind, message } = nodeAction;
+    const stamp = Date.now();
+    commitRoot(`AI ${NODE_ACTIONS[kind].label}「${message}」`, root => root && applyActions(root, actions, { newId: i => `ai-${stamp}-${i}` }).root);
+    setNodeAction(null);
+  }, [nodeAction, commitRoot]);
+
+  const handleApplyActions = useCallback((messageId: string) => {
+    const actions = splitReply(chatMessages.find(m => m.id === messageId)?.text ?? '').actions;
+    if (actions.length === 0 || !activeThreadId) return;
+    const stamp = Date.now();
+    commitRoot(`AI 助手：${actions.length} 项修改`, root => root && applyActions(root, actions, { newId: i => `ai-${stamp}-${i}` }).root);
+    updateChatMessage(activeThreadId, messageId, { applied: true });
+    setPreviewMessageId(null);
+  }, [chatMessages, activeThreadId, commitRoot, updateChatMessage]);
+
   return (
     <div className="flex h-screen w-full bg-[#fdfdff] text-slate-900 overflow-hidden font-inter relative">
       <div className="flex flex-col flex-1 h-full min-w-0">
         <header className="h-16 border-b border-slate-100 bg-white flex items-center justify-between px-6 z-30 shrink-0">
           <div className="flex items-center gap-3">
+            <button
+              onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+              title="文档库"
+              className={`p-2 rounded-xl transition-all ${isLibraryOpen ? 'bg-indigo-50 text-indigo-600' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h16" /></svg>
+            </button>
             <div className="w-9 h-9 bg-indigo-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-indigo-100">
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2.5} d="M13 10V3L4 14h7v7l9-11h-7z" /></svg>
             </div>
             <h1 className="text-lg font-black tracking-tight text-slate-800">MindSpark<span className="text-indigo-600">.</span></h1>
+            {activeDoc && <span className="text-xs font-bold text-slate-400 truncate max-w-[180px]" title={activeDoc.title}>/ {activeDoc.title}</span>}
           </div>
 
-          <form onSubmit={(e) => { e.preventDefault(); performGeneration(input); }} className="flex-1 max-w-lg mx-6 relative">
-            <input
-              type="text"
-              value={input}
-              onChange={(e) => setInput(e.target.value)}
-              placeholder="输入主题生成导图..."
-              className="w-full pl-5 pr-28 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:bg-white transition-all outline-none font-medium text-sm"
+          <form onSubmit={(e) => { e.preventDefault(); performGeneration(input); }} className="flex-1 max-w-xl mx-6 flex items-stretch gap-2">
+            <div className="flex-1 relative">
+              <input
+                type="text"
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                placeholder="输入主题生成导图..."
+                className="w-full pl-5 pr-28 py-2.5 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:bg-white transition-all outline-none font-medium text-sm"
+              />
+              {generatedCount !== null ? (
+                <button type="button" onClick={cancelGeneration} className="absolute right-1 top-1 bottom-1 px-4 bg-rose-600 text-white font-bold text-xs rounded-lg hover:bg-rose-700 transition-all">STOP</button>
+              ) : (
+                <button type="submit" className="absolute right-1 top-1 bottom-1 px-4 bg-slate-900 text-white font-bold text-xs rounded-lg hover:bg-black transition-all">GENERATE</button>
+              )}
+            </div>
+            <button
+              type="button"
+              onClick={() => setIsSourceDialogOpen(true)}
+              disabled={sourceImport !== null}
+              title="从文本、文件或网址生成导图"
+              className="px-3 rounded-xl bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 font-bold text-xs whitespace-nowrap disabled:opacity-40 transition-all"
+            >
+              从文档
+            </button>
+            <GenerationOptionsMenu
+              options={generationOptions}
+              disabled={generatedCount !== null}
+              onChange={(options) => { setGenerationOptions(options); saveGenerationOptions(options); }}
             />
-            <button type="submit" className="absolute right-1 top-1 bottom-1 px-4 bg-slate-900 text-white font-bold text-xs rounded-lg hover:bg-black transition-all">GENERATE</button>
           </form>
 
           <div className="flex items-center gap-2">
+             <CollabMenu
+                room={activeDoc?.id ?? null}
+                status={collabStatus}
+                peers={peers}
+                settings={collabSettings}
+                onSettingsChange={handleCollabSettings}
+                onStart={handleStartCollab}
+                onStop={stopCollab}
+             />
+             <ImportExportMenu
+                root={state.root}
+                title={activeDoc?.title || 'mindmap'}
+                layout={layout}
+                onImport={handleImport}
+                onError={(message) => setState(prev => ({ ...prev, error: message }))}
+             />
+             <button
+                onClick={handleUndo}
+                disabled={state.past.length === 0}
+                title={state.past.length ? `撤销: ${state.past[state.past.length - 1].label} (Ctrl+Z)` : '没有可撤销的操作'}
+                className="p-2 rounded-xl bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition-all"
+             >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" /></svg>
+             </button>
+             <button
+                onClick={handleRedo}
+                disabled={state.future.length === 0}
+                title={state.future.length ? `重做: ${state.future[state.future.length - 1].label} (Ctrl+Shift+Z)` : '没有可重做的操作'}
+                className="p-2 rounded-xl bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 disabled:opacity-40 disabled:hover:bg-white transition-all"
+             >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 10H11a8 8 0 00-8 8v2m18-10l-6 6m6-6l-6-6" /></svg>
+             </button>
+             <button
+                onClick={() => setIsSettingsOpen(true)}
+                title={`AI 服务：${PROVIDER_INFO[aiSettings.provider].label} / ${aiSettings.providers[aiSettings.provider].model}`}
+                className="px-3 py-2 rounded-xl bg-white border border-slate-200 text-slate-600 hover:bg-slate-50 font-bold text-xs transition-all flex items-center gap-2"
+             >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" /><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" /></svg>
+                {PROVIDER_INFO[aiSettings.provider].label}
+             </button>
              <button onClick={() => setIsPanelOpen(!isPanelOpen)} className={`px-4 py-2 rounded-xl font-bold text-xs transition-all flex items-center gap-2 ${isPanelOpen ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'}`}>
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" /></svg>
                 AI 助手
@@ -236,6 +1056,33 @@ const App: React.FC = () => {
         </nav>
 
         <main className="flex-1 relative overflow-hidden bg-slate-50">
+          {(state.error || aiFailure || notices.length > 0) && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 z-50 w-full max-w-lg space-y-2 px-4">
+              {state.error && (
+                <div className="flex items-start gap-3 bg-rose-50 border border-rose-200 text-rose-700 px-4 py-3 rounded-2xl shadow-lg text-xs font-medium">
+                  <span className="flex-1">{state.error}</span>
+                  <button onClick={() => setState(prev => ({ ...prev, error: null }))} className="text-rose-400 hover:text-rose-600">✕</button>
+                </div>
+              )}
+              {aiFailure && (
+                <AIErrorBanner
+                  error={aiFailure.error}
+                  context={aiFailure.context}
+                  onRetry={aiFailure.retry}
+                  onOpenSettings={() => setIsSettingsOpen(true)}
+                  onDismiss={() => setAIFailure(null)}
+                />
+              )}
+              {notices.length > 0 && (
+                <div className="flex items-start gap-3 bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-2xl shadow-lg text-xs font-medium">
+                  <ul className="flex-1 space-y-1 max-h-32 overflow-y-auto">
+                    {notices.map((notice, i) => <li key={i}>• {notice}</li>)}
+                  </ul>
+                  <button onClick={() => setNotices([])} className="text-amber-400 hover:text-amber-600">✕</button>
+                </div>
+              )}
+            </div>
+          )}
           {state.loading && !state.root && (
             <div className="absolute inset-0 z-40 flex flex-col items-center justify-center bg-white/70 backdrop-blur-md">
               <div className="w-12 h-12 bg-indigo-600 rounded-2xl animate-spin shadow-xl flex items-center justify-center">
@@ -245,14 +1092,137 @@ const App: React.FC = () => {
             </div>
           )}
           
-          <div className={`h-full w-full ${activeTab === 'visual' ? 'block' : 'hidden'}`}>
+          {generatedCount !== null && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 flex flex-col items-center gap-2">
+              {branchProgress.length > 0 && (
+                <div className="bg-white/90 backdrop-blur-md border border-slate-200 shadow-lg rounded-2xl px-4 py-3 w-72 space-y-1.5">
+                  {branchProgress.map(branch => (
+                    <div key={branch.id} className="text-[10px] font-bold text-slate-500">
+                      <div className="flex justify-between gap-2">
+                        <span className="truncate">{branch.message}</span>
+                        <span className="font-mono text-slate-400">{branch.done}/{branch.total}</span>
+                      </div>
+                      <div className="h-1 bg-slate-100 rounded-full overflow-hidden">
+                        <div className="h-full bg-indigo-500 transition-all" style={{ width: `${branch.total ? (branch.done / branch.total) * 100 : 100}%` }}></div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center gap-3 bg-white/90 backdrop-blur-md border border-slate-200 shadow-lg rounded-full pl-4 pr-1.5 py-1.5">
+                <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+                <span className="text-[11px] font-bold text-slate-600">
+                  {branchProgress.length > 0 ? '正在逐层扩展' : '正在构建思路'}... 已接收 {generatedCount} 个节点
+                </span>
+                <button onClick={cancelGeneration} className="px-3 py-1 bg-slate-900 text-white text-[10px] font-bold rounded-full hover:bg-black transition-all">停止</button>
+              </div>
+            </div>
+          )}
+
+          {sourceImport && (
+            <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-3 bg-white/90 backdrop-blur-md border border-slate-200 shadow-lg rounded-full pl-4 pr-1.5 py-1.5">
+              <div className="w-3 h-3 border-2 border-indigo-200 border-t-indigo-600 rounded-full animate-spin"></div>
+              <span className="text-[11px] font-bold text-slate-600 max-w-[320px] truncate">
+                正在根据「{sourceImport.title}」生成导图{sourceImport.total > 1 ? `... 第 ${Math.min(sourceImport.done + 1, sourceImport.total)}/${sourceImport.total} 部分` : '...'}
+              </span>
+              <button onClick={() => sourceAbortRef.current?.abort()} className="px-3 py-1 bg-slate-900 text-white text-[10px] font-bold rounded-full hover:bg-black transition-all">停止</button>
+            </div>
+          )}
+
+          <div className={`h-full w-full relative ${activeTab === 'visual' ? 'block' : 'hidden'}`}>
             {state.root && (
               <MindMapCanvas 
-                data={state.root} 
+                data={preview?.root ?? state.root} 
+                layout={layout}
+                expansions={expansions}
+                peers={peers}
+                onPointerMove={collabStatus ? handlePointerMove : undefined}
+                selectedId={selectedNode?.id ?? null}
+                selectedIds={liveSelection}
+                onSelect={setSelectedId}
+                onSelectionChange={setSelection}
+                pickMode={isPickingTarget && liveSelection.length > 1}
+                onPick={(id) => (id ? handleMoveSelection(id) : setIsPickingTarget(false))}
+                editingId={editingId}
+                onEditStart={handleEditStart}
+                onEditCommit={handleEditCommit}
+                onEditCancel={() => setEditingId(null)}
+                onCreateNode={handleCreateNode}
+                onLayoutChange={setLayout}
                 onExpand={handleExpand}
                 onDelete={handleDelete}
-                onEdit={handleEdit}
+                onMove={handleMove}
                 onAddManual={openAddModal}
+                onToggleCollapse={handleToggleCollapse}
+                onReveal={handleReveal}
+                onCollapseToLevel={handleCollapseToLevel}
+                onExpandAll={handleExpandAll}
+                changes={preview?.changes}
+                onNodeAction={handleNodeAction}
+              />
+            )}
+            {nodeAction && !nodeAction.actions && (
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-white/95 backdrop-blur-md border border-slate-200 rounded-2xl shadow-xl pl-4 pr-1.5 py-1.5">
+                <span className="w-2 h-2 rounded-full bg-amber-400 animate-pulse" />
+                <span className="text-[11px] font-bold text-slate-600 whitespace-nowrap max-w-[320px] truncate">AI 正在{NODE_ACTIONS[nodeAction.kind].label}「{nodeAction.message}」…</span>
+                <button onClick={cancelNodeAction} className="px-3 py-1 rounded-lg text-[11px] font-semibold text-slate-600 hover:bg-slate-100">取消</button>
+              </div>
+            )}
+            {preview && (previewMessageId || nodeAction?.actions) && (
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex flex-col gap-1.5 bg-white/95 backdrop-blur-md border border-slate-200 rounded-2xl shadow-xl pl-4 pr-1.5 py-1.5 max-w-[90%]">
+                {nodeAction?.actions && state.root && (
+                  <ul className="pr-3 pt-1 max-h-28 overflow-y-auto text-[11px] text-slate-600 space-y-0.5">
+                    {nodeAction.actions.map((action, i) => <li key={i}>· {describeAction(action, state.root!, nodeAction.actions!)}</li>)}
+                  </ul>
+                )}
+                <div className="flex items-center gap-3">
+                  <span className="text-[11px] font-black text-indigo-600 whitespace-nowrap">
+                    {nodeAction?.actions ? `预览：${NODE_ACTIONS[nodeAction.kind].label}` : '预览 AI 修改'}
+                  </span>
+                  <div className="flex items-center gap-2.5 text-[10px] font-semibold text-slate-500">
+                    {([['added', '新增'], ['renamed', '改名'], ['moved', '移动'], ['deleted', '删除'], ['noted', '备注']] as const).map(([change, label]) => (
+                      <span key={change} className="flex items-center gap-1">
+                        <span className="w-2.5 h-2.5 rounded-sm border-2 border-dashed" style={{ borderColor: CHANGE_COLORS[change] }} />
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                  {preview.skipped > 0 && <span className="text-[10px] font-bold text-amber-600 whitespace-nowrap">{preview.skipped} 项无法应用</span>}
+                  <button onClick={() => { cancelNodeAction(); setPreviewMessageId(null); }} className="px-3 py-1 rounded-lg text-[11px] font-semibold text-slate-600 hover:bg-slate-100">取消</button>
+                  <button
+                    onClick={() => (nodeAction?.actions ? handleApplyNodeAction() : previewMessageId && handleApplyActions(previewMessageId))}
+                    className="px-3 py-1 rounded-lg text-[11px] font-bold bg-indigo-600 text-white hover:bg-indigo-700"
+                  >
+                    应用
+                  </button>
+                </div>
+              </div>
+            )}
+            {liveSelection.length > 1 && !preview && (
+              <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20">
+                <SelectionToolbar
+                  count={liveSelection.length}
+                  tags={selectionTags}
+                  isPickingTarget={isPickingTarget}
+                  onExpand={handleExpandSelection}
+                  onPickTarget={() => setIsPickingTarget(!isPickingTarget)}
+                  onColor={(color) => handleSelectionFields('修改颜色', node => applyNodeFields(node, { color }))}
+                  onAddTags={(tags) => handleSelectionFields('添加标签', node => applyNodeFields(node, { tags: normalizeTags([...(node.tags || []), ...tags]) }))}
+                  onRemoveTag={(tag) => handleSelectionFields('移除标签', node => applyNodeFields(node, { tags: (node.tags || []).filter(t => t !== tag) }))}
+                  onCopy={handleCopyAs}
+                  onCut={handleCut}
+                  onDelete={() => { handleDelete(liveSelection); setSelection([]); }}
+                  onClear={() => setSelection([])}
+                />
+              </div>
+            )}
+            {selectedNode && liveSelection.length <= 1 && (
+              <NodeInspector
+                key={selectedNode.id}
+                node={selectedNode}
+                sources={sources}
+                onChange={(patch) => handleNodeFields(selectedNode.id, patch)}
+                onClose={() => setSelectedId(null)}
               />
             )}
           </div>
@@ -280,39 +1250,63 @@ const App: React.FC = () => {
         </main>
       </div>
 
+      <DocumentLibrary
+        isOpen={isLibraryOpen}
+        documents={documents}
+        activeId={activeDoc?.id ?? null}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpen={openDocument}
+        onCreate={() => handleCreateDocument()}
+        onRename={handleRenameDocument}
+        onDuplicate={handleDuplicateDocument}
+        onDelete={handleDeleteDocument}
+      />
+
+      {isSourceDialogOpen && (
+        <SourceImportDialog
+          sources={sources}
+          hasMap={!!state.root}
+          onSubmit={handleSourceImport}
+          onClose={() => setIsSourceDialogOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <AISettingsPanel
+          settings={aiSettings}
+          onClose={() => setIsSettingsOpen(false)}
+          onSave={(next) => {
+            saveAISettings(next);
+            setAISettings(next);
+            setIsSettingsOpen(false);
+          }}
+        />
+      )}
+
       {/* 侧边栏 AI 助手 */}
-      <aside className={`fixed top-0 right-0 h-full bg-white border-l border-slate-200 shadow-2xl z-40 transition-all duration-300 flex flex-col ${isPanelOpen ? 'w-[360px]' : 'w-0 overflow-hidden'}`}>
-        <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0 bg-slate-50/50">
-           <h2 className="font-black text-slate-700 tracking-tighter uppercase text-xs">AI 深度分析</h2>
-           <button onClick={() => setIsPanelOpen(false)} className="text-slate-400 hover:text-slate-600">✕</button>
-        </div>
-        <div className="flex-1 overflow-y-auto p-5 space-y-4">
-          {chatHistory.map((chat, i) => (
-            <div key={i} className={`flex ${chat.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-              <div className={`max-w-[90%] p-3.5 rounded-2xl text-[13px] leading-relaxed shadow-sm ${chat.role === 'user' ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-700 border border-slate-200'}`}>
-                {chat.text}
-              </div>
-            </div>
-          ))}
-          {isAnalyzing && (
-            <div className="flex justify-start">
-              <div className="bg-slate-100 p-3 rounded-2xl shadow-sm border border-slate-200 flex gap-1.5">
-                 <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-bounce"></div>
-                 <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-bounce [animation-delay:0.2s]"></div>
-              </div>
-            </div>
-          )}
-          <div ref={chatEndRef} />
-        </div>
-        <form onSubmit={handleChat} className="p-5 border-t border-slate-100 bg-white">
-           <div className="relative">
-              <input type="text" value={chatInput} onChange={(e) => setChatInput(e.target.value)} placeholder="针对当前导图提问..." className="w-full pl-4 pr-12 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:bg-white outline-none text-xs font-medium" />
-              <button type="submit" className="absolute right-2 top-2 bottom-2 px-3 bg-indigo-600 text-white rounded-lg">
-                <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
-              </button>
-           </div>
-        </form>
-      </aside>
+      <AssistantPanel
+        isOpen={isPanelOpen}
+        threads={threads}
+        activeThreadId={activeThreadId}
+        root={state.root}
+        isStreaming={isChatStreaming}
+        previewId={preview && !nodeAction?.actions ? previewMessageId : null}
+        pinTarget={pinTarget?.message ?? null}
+        onSend={handleChatSend}
+        onStop={() => chatAbortRef.current?.abort()}
+        onRetry={handleChatRetry}
+        onPreview={handlePreviewMessage}
+        onApply={handleApplyActions}
+        onPin={handlePinReply}
+        onNodeLink={handleJumpToNode}
+        onSelectThread={(id) => { setActiveThreadId(id); setPreviewMessageId(null); }}
+        onCreateThread={handleCreateThread}
+        onRenameThread={(id, title) => updateThread(id, t => ({ ...t, title }))}
+        onClearThread={(id) => { updateThread(id, t => ({ ...t, messages: [], updatedAt: Date.now() })); setPreviewMessageId(null); }}
+        onDeleteThread={handleDeleteThread}
+        onExportThread={handleExportThread}
+        onClose={() => setIsPanelOpen(false)}
+      />
 
       {/* 新增节点模态框 (包含对比数据) */}
       {addNodeModal.isOpen && (
@@ -0,0 +1,172 @@
+import { Card } from '../types';
+import { LAYOUT_ENGINES, LayoutEngine, RenderNode, flattenNodes } from '../utils/layout';
+import { MAP_BACKGROUND, drawCard, drawConnectors, drawScene, getMapBounds } from '../utils/mapRenderer';
+import { createSpatialIndex } from '../utils/spatialIndex';
+import { updateNode } from '../utils/tree';
+import { ViewTransform, centerTransform, getViewportBounds } from '../utils/viewport';
+
+// 画布渲染性能基准：npm run bench 打开 /bench/ 页面即开始运行。
+// 合成不同规模的导图，测量布局（首次与单节点修改后）、空间索引构建，以及在不同缩放比例下逐帧平移时的绘制耗时。
+// 没有 DOM 时（打包后直接用 Node 执行）跳过绘制，只测量布局与视口查询。
+
+const SIZES = [1000, 10000, 50000];
+const SCALES = [1, 0.5, 0.2];
+const VIEW_W = 1280;
+const VIEW_H = 800;
+const FRAMES = 120;
+const PAN_STEP = 14; // 每帧平移的屏幕像素
+const CULL_MARGIN = 16;
+const FRAME_BUDGET = 1000 / 60;
+
+const WORDS = ['市场', '用户', '增长', '研发', '架构', '测试', '发布', '数据', 'roadmap', 'metrics', 'onboarding', 'retention', '设计评审', '竞品分析', 'API', '性能优化'];
+
+// 可复现的伪随机数（mulberry32）
+const createRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+// 广度优先生成，每个节点 2–6 个子节点，文字长度不一以覆盖多行卡片
+const createSyntheticTree = (count: number, seed = 1): Card => {
+  const random = createRandom(seed);
+  const label = () => Array.from({ length: 1 + Math.floor(random() * 5) }, () => WORDS[Math.floor(random() * WORDS.length)]).join(' ');
+  const root: Card = { id: 'n0', message: `合成导图 ${count} 节点`, children: [] };
+  const queue: Card[] = [root];
+  let created = 1;
+  for (let head = 0; created < count; head++) {
+    const parent = queue[head];
+    const breadth = 2 + Math.floor(random() * 5);
+    for (let i = 0; i < breadth && created < count; i++) {
+      const child: Card = { id: `n${created++}`, message: label(), children: [] };
+      if (random() < 0.1) child.tags = [WORDS[Math.floor(random() * WORDS.length)]];
+      if (random() < 0.05) child.status = 'doing';
+      parent.children.push(child);
+      queue.push(child);
+    }
+  }
+  return root;
+};
+
+const measure = <T>(fn: () => T): [T, number] => {
+  const start = performance.now();
+  const result = fn();
+  return [result, performance.now() - start];
+};
+
+const summarize = (samples: number[]) => {
+  const sorted = [...samples].sort((a, b) => a - b);
+  return {
+    avg: samples.reduce((sum, v) => sum + v, 0) / samples.length,
+    p95: sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.95))],
+  };
+};
+
+const ms = (value: number) => `${value.toFixed(2)}ms`;
+
+const output = typeof document !== 'undefined' ? document.getElementById('log') : null;
+const log = (line: string) => {
+  console.log(line);
+  if (output) output.textContent += `${line}\n`;
+};
+
+const stage = typeof document !== 'undefined' ? (document.getElementById('stage') as HTMLCanvasElement | null) : null;
+const ctx = stage?.getContext('2d') ?? null;
+
+const drawFrame = (t: ViewTransform, draw: () => void) => {
+  if (!ctx) return;
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = MAP_BACKGROUND;
+  ctx.fillRect(0, 0, VIEW_W, VIEW_H);
+  ctx.translate(t.x, t.y);
+  ctx.scale(t.k, t.k);
+  draw();
+};
+
+// 以地图中心为起点沿对角线平移，每帧：视口查询 + 裁剪后的绘制
+const runPan = (engine: LayoutEngine, nodes: RenderNode[], scale: number) => {
+  const spatial = createSpatialIndex(nodes);
+  const bounds = getMapBounds(nodes);
+  const start = centerTransform((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2, scale, VIEW_W, VIEW_H);
+  const times: number[] = [];
+  let visibleTotal = 0;
+  for (let frame = 0; frame < FRAMES; frame++) {
+    const t = { x: start.x - frame * PAN_STEP, y: start.y - frame * PAN_STEP * 0.6, k: scale };
+    const [, elapsed] = measure(() => {
+      const view = getViewportBounds(t, VIEW_W, VIEW_H);
+      const visible = spatial.query(view, CULL_MARGIN);
+      visibleTotal += visible.length;
+      drawFrame(t, () => drawScene(ctx!, { engine, nodes, visible, view, scale }));
+    });
+    times.push(elapsed);
+  }
+  return { ...summarize(times), visible: Math.round(visibleTotal / FRAMES) };
+};
+
+// 改动前的做法：每帧绘制全部连线与带阴影的卡片，作为对照
+const runNaive = (engine: LayoutEngine, nodes: RenderNode[], scale: number, frames: number) => {
+  const bounds = getMapBounds(nodes);
+  const t = centerTransform((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2, scale, VIEW_W, VIEW_H);
+  const times: number[] = [];
+  for (let frame = 0; frame < frames; frame++) {
+    times.push(measure(() => drawFrame(t, () => {
+      drawConnectors(ctx!, nodes, engine);
+      nodes.forEach(node => drawCard(ctx!, node, true));
+    }))[1]);
+  }
+  return summarize(times);
+};
+
+// 真实帧率：按 requestAnimationFrame 连续平移，统计相邻帧间隔
+const runAnimated = (engine: LayoutEngine, nodes: RenderNode[], scale: number): Promise<number> => new Promise(resolve => {
+  const spatial = createSpatialIndex(nodes);
+  const bounds = getMapBounds(nodes);
+  const start = centerTransform((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2, scale, VIEW_W, VIEW_H);
+  const stamps: number[] = [];
+  const step = (now: number) => {
+    const frame = stamps.length;
+    stamps.push(now);
+    const t = { x: start.x - frame * PAN_STEP, y: start.y, k: scale };
+    const view = getViewportBounds(t, VIEW_W, VIEW_H);
+    drawFrame(t, () => drawScene(ctx!, { engine, nodes, visible: spatial.query(view, CULL_MARGIN), view, scale }));
+    if (frame < FRAMES) requestAnimationFrame(step);
+    else resolve(1000 / ((stamps[stamps.length - 1] - stamps[1]) / (stamps.length - 2)));
+  };
+  requestAnimationFrame(step);
+});
+
+const run = async () => {
+  log(`视口 ${VIEW_W}×${VIEW_H}，每组 ${FRAMES} 帧，帧预算 ${ms(FRAME_BUDGET)}${ctx ? '' : '（无 canvas，跳过绘制）'}`);
+  for (const size of SIZES) {
+    log(`\n== ${size} 个节点 ==`);
+    for (const engine of Object.values(LAYOUT_ENGINES)) {
+      // 每个布局使用新生成的树，保证首次布局不命中子树尺寸缓存
+      const root = createSyntheticTree(size);
+      const [nodes, cold] = measure(() => flattenNodes(engine.layout(root)));
+      const edited = updateNode(root, `n${size - 1}`, n => ({ ...n, message: `${n.message} 已修改` }));
+      const [, warm] = measure(() => flattenNodes(engine.layout(edited)));
+      const [, indexTime] = measure(() => createSpatialIndex(nodes));
+      log(`${engine.id.padEnd(8)} 布局 ${ms(cold)}，修改一个节点后 ${ms(warm)}，建索引 ${ms(indexTime)}`);
+    }
+
+    const engine = LAYOUT_ENGINES.MIXED;
+    const nodes = flattenNodes(engine.layout(createSyntheticTree(size)));
+    SCALES.forEach(scale => {
+      const result = runPan(engine, nodes, scale);
+      const verdict = result.p95 <= FRAME_BUDGET ? '✓' : '✗';
+      log(`平移 ×${scale}: 平均 ${ms(result.avg)}，p95 ${ms(result.p95)} ${verdict}，平均可见 ${result.visible} 张卡片`);
+    });
+    if (ctx && size <= 10000) {
+      const naive = runNaive(engine, nodes, 0.2, 5);
+      log(`对照（全部绘制，×0.2）: 平均 ${ms(naive.avg)}，p95 ${ms(naive.p95)}`);
+    }
+    if (ctx && typeof requestAnimationFrame !== 'undefined') {
+      const fps = await runAnimated(engine, nodes, 0.5);
+      log(`实际帧率（×0.5 连续平移）: ${fps.toFixed(1)} fps`);
+    }
+  }
+  log('\n完成。');
+};
+
+run();
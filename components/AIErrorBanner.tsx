@@ -0,0 +1,46 @@
+import React from 'react';
+import { AIError, AIErrorKind, AI_ERROR_INFO, describeAIError } from '../services/aiErrors';
+
+interface AIErrorBannerProps {
+  error: AIError;
+  context?: string; // 失败的操作，如"生成导图"
+  onRetry?: () => void;
+  onOpenSettings: () => void;
+  onDismiss: () => void;
+}
+
+const KIND_STYLES: Record<AIErrorKind, { icon: string; className: string }> = {
+  auth: { icon: '🔑', className: 'bg-rose-50 border-rose-200 text-rose-700' },
+  quota: { icon: '⏳', className: 'bg-amber-50 border-amber-200 text-amber-800' },
+  safety: { icon: '🛡', className: 'bg-violet-50 border-violet-200 text-violet-700' },
+  malformed: { icon: '🧩', className: 'bg-orange-50 border-orange-200 text-orange-800' },
+  network: { icon: '📡', className: 'bg-slate-50 border-slate-300 text-slate-700' },
+  aborted: { icon: '⏹', className: 'bg-slate-50 border-slate-200 text-slate-600' },
+};
+
+// AI 请求失败的提示：按错误类型区分样式，可重试的错误给出重试按钮，配置类错误直达设置
+const AIErrorBanner: React.FC<AIErrorBannerProps> = ({ error, context, onRetry, onOpenSettings, onDismiss }) => {
+  const info = AI_ERROR_INFO[error.kind];
+  const style = KIND_STYLES[error.kind];
+
+  return (
+    <div role="alert" className={`flex items-start gap-3 border px-4 py-3 rounded-2xl shadow-lg text-xs font-medium ${style.className}`}>
+      <span aria-hidden>{style.icon}</span>
+      <div className="flex-1 min-w-0 space-y-1">
+        <p className="font-bold break-words">{context ? `${context}失败：` : ''}{describeAIError(error)}</p>
+        {info.hint && <p className="opacity-80">{info.hint}</p>}
+        <div className="flex gap-2 pt-1">
+          {info.retryable && onRetry && (
+            <button onClick={onRetry} className="px-2.5 py-1 rounded-lg bg-white/80 border border-current/20 font-bold hover:bg-white">重试</button>
+          )}
+          {error.kind === 'auth' && (
+            <button onClick={onOpenSettings} className="px-2.5 py-1 rounded-lg bg-white/80 border border-current/20 font-bold hover:bg-white">打开 AI 服务设置</button>
+          )}
+        </div>
+      </div>
+      <button onClick={onDismiss} aria-label="关闭" className="opacity-50 hover:opacity-100">✕</button>
+    </div>
+  );
+};
+
+export default AIErrorBanner;
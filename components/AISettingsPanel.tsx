@@ -0,0 +1,102 @@
+import React, { useState } from 'react';
+import { AIProviderConfig, AIProviderId, AISettings } from '../types';
+import { PROVIDER_INFO } from '../services/providers';
+
+interface AISettingsPanelProps {
+  settings: AISettings;
+  onSave: (settings: AISettings) => void;
+  onClose: () => void;
+}
+
+const PROVIDER_IDS = Object.keys(PROVIDER_INFO) as AIProviderId[];
+
+const AISettingsPanel: React.FC<AISettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AISettings>(settings);
+  const info = PROVIDER_INFO[draft.provider];
+  const config = draft.providers[draft.provider];
+
+  const updateConfig = (patch: Partial<AIProviderConfig>) => {
+    setDraft(prev => ({
+      ...prev,
+      providers: { ...prev.providers, [prev.provider]: { ...prev.providers[prev.provider], ...patch } },
+    }));
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-lg rounded-3xl shadow-2xl overflow-hidden flex flex-col">
+        <div className="px-8 py-6 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-black text-slate-800 tracking-tight">AI 服务设置</h3>
+            <p className="text-xs text-slate-400 font-medium">设置仅保存在当前浏览器中</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-3 gap-2">
+            {PROVIDER_IDS.map(id => (
+              <button
+                key={id}
+                onClick={() => setDraft(prev => ({ ...prev, provider: id }))}
+                className={`px-3 py-3 rounded-xl text-xs font-bold border-2 transition-all ${draft.provider === id ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-100 text-slate-500 hover:bg-slate-50'}`}
+              >
+                {PROVIDER_INFO[id].label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[11px] text-slate-500">{info.description}</p>
+
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">模型 (Model)</label>
+            <input
+              type="text"
+              value={config.model}
+              onChange={(e) => updateConfig({ model: e.target.value })}
+              className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none font-mono text-xs text-slate-700"
+            />
+          </div>
+
+          {info.needsBaseUrl && (
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">接口地址 (Base URL)</label>
+              <input
+                type="text"
+                value={config.baseUrl}
+                onChange={(e) => updateConfig({ baseUrl: e.target.value })}
+                placeholder="http://localhost:8080/v1"
+                className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none font-mono text-xs text-slate-700"
+              />
+            </div>
+          )}
+
+          {draft.provider !== 'mock' && (
+            <div>
+              <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">
+                API Key {info.needsKey ? '' : '(可选)'}
+              </label>
+              <input
+                type="password"
+                value={config.apiKey}
+                onChange={(e) => updateConfig({ apiKey: e.target.value })}
+                placeholder={draft.provider === 'gemini' ? '仅保存在本浏览器中' : ''}
+                className="w-full px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none font-mono text-xs text-slate-700"
+              />
+            </div>
+          )}
+
+          <div className="flex gap-3 pt-2">
+            <button onClick={onClose} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-bold text-xs hover:bg-slate-200 transition-all">
+              取消
+            </button>
+            <button onClick={() => onSave(draft)} className="flex-1 py-3 bg-indigo-600 text-white rounded-2xl font-black text-xs shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all">
+              保存
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AISettingsPanel;
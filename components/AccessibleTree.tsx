@@ -0,0 +1,95 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card } from '../types';
+import { NODE_STATUS_INFO, PRIORITY_INFO } from '../utils/nodeFields';
+import { countDescendants } from '../utils/tree';
+
+// 画布内容对读屏软件不可见，这里渲染一棵视觉上隐藏、与 Card 层级同步的 ARIA 树。
+// 焦点始终停留在 role="tree" 容器上，通过 aria-activedescendant 指向当前节点。
+
+export const treeItemId = (id: string) => `mm-node-${id}`;
+
+export const describeNode = (node: Card): string => {
+  const parts = [node.icon ? `${node.icon} ${node.message}` : node.message];
+  if (node.priority) parts.push(PRIORITY_INFO[node.priority].label);
+  if (node.status) parts.push(NODE_STATUS_INFO[node.status].label);
+  if (node.tags?.length) parts.push(`标签 ${node.tags.join('、')}`);
+  if (node.url) parts.push('含链接');
+  if (node.notes) parts.push('含备注');
+  if (node.collapsed && node.children.length > 0) parts.push(`已折叠 ${countDescendants(node)} 个节点`);
+  return parts.join('，');
+};
+
+interface TreeItemProps {
+  node: Card;
+  level: number;
+  posinset: number;
+  setsize: number;
+  activeId: string | null;
+  selected: Set<string>; // 多选时的全部选中节点
+}
+
+const TreeItem: React.FC<TreeItemProps> = ({ node, level, posinset, setsize, activeId, selected }) => {
+  const hasChildren = node.children.length > 0;
+  return (
+    <div
+      id={treeItemId(node.id)}
+      role="treeitem"
+      aria-level={level}
+      aria-posinset={posinset}
+      aria-setsize={setsize}
+      aria-selected={node.id === activeId || selected.has(node.id)}
+      aria-expanded={hasChildren ? !node.collapsed : undefined}
+      aria-label={describeNode(node)}
+    >
+      {hasChildren && !node.collapsed && (
+        <div role="group">
+          {node.children.map((child, i) => (
+            <TreeItem key={child.id} node={child} level={level + 1} posinset={i + 1} setsize={node.children.length} activeId={activeId} selected={selected} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export const AccessibleTreeItems: React.FC<{ root: Card; activeId: string | null; selected: Set<string> }> = React.memo(({ root, activeId, selected }) => (
+  <div className="sr-only">
+    <TreeItem node={root} level={1} posinset={1} setsize={1} activeId={activeId} selected={selected} />
+  </div>
+));
+
+const flattenText = (node: Card, map = new Map<string, string>()) => {
+  map.set(node.id, node.message);
+  node.children.forEach(c => flattenText(c, map));
+  return map;
+};
+
+// 对比前后两棵树，生成供 aria-live 朗读的变更摘要
+export const useTreeAnnouncer = (root: Card): string => {
+  const [message, setMessage] = useState('');
+  const prevRef = useRef<Map<string, string> | null>(null);
+
+  useEffect(() => {
+    const next = flattenText(root);
+    const prev = prevRef.current;
+    prevRef.current = next;
+    if (!prev) return;
+
+    let added = 0;
+    let edited = 0;
+    next.forEach((text, id) => {
+      if (!prev.has(id)) added++;
+      else if (prev.get(id) !== text) edited++;
+    });
+    let removed = 0;
+    prev.forEach((_, id) => { if (!next.has(id)) removed++; });
+
+    const parts: string[] = [];
+    if (added) parts.push(`新增 ${added} 个节点`);
+    if (removed) parts.push(`移除 ${removed} 个节点`);
+    if (edited) parts.push(`修改 ${edited} 个节点的文本`);
+    if (parts.length) setMessage(`导图已更新：${parts.join('，')}。`);
+  }, [root]);
+
+  return message;
+};
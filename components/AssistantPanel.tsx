@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, ChatMessage, ChatThread } from '../types';
+import { renderMarkdown } from '../utils/markdown';
+import { describeAction, splitReply } from '../utils/mapActions';
+
+interface AssistantPanelProps {
+  isOpen: boolean;
+  threads: ChatThread[];
+  activeThreadId: string | null;
+  root: Card | null;
+  isStreaming: boolean;
+  previewId: string | null; // 正在画布上预览修改的消息
+  pinTarget: string | null; // 钉选回答时写入备注的节点文本
+  onSend: (text: string) => void;
+  onStop: () => void;
+  onRetry: (id: string) => void; // 重新回答出错的最后一条回复
+  onPreview: (id: string | null) => void;
+  onApply: (id: string) => void;
+  onPin: (id: string) => void;
+  onNodeLink: (nodeId: string) => void;
+  onSelectThread: (id: string) => void;
+  onCreateThread: () => void;
+  onRenameThread: (id: string, title: string) => void;
+  onClearThread: (id: string) => void;
+  onDeleteThread: (id: string) => void;
+  onExportThread: (id: string) => void;
+  onClose: () => void;
+}
+
+const WELCOME = '您好！我可以帮您分析当前的思维导图结构、提供扩展建议，也可以直接提出修改（添加、改名、移动、删除节点），预览后一键应用。回答中提到的节点可以点击定位。';
+
+const toolClass = 'px-2 py-1 rounded-md text-[10px] font-bold text-slate-400 hover:text-indigo-600 hover:bg-white disabled:opacity-30 disabled:pointer-events-none';
+
+const AssistantMessage: React.FC<{
+  message: ChatMessage;
+  root: Card | null;
+  isPreviewing: boolean;
+  pinTarget: string | null;
+  onPreview: (id: string | null) => void;
+  onApply: (id: string) => void;
+  onPin: (id: string) => void;
+  onNodeLink: (nodeId: string) => void;
+  onRetry?: () => void;
+}> = ({ message, root, isPreviewing, pinTarget, onPreview, onApply, onPin, onNodeLink, onRetry }) => {
+  const reply = useMemo(() => splitReply(message.text), [message.text]);
+  const streaming = message.status === 'streaming';
+
+  return (
+    <div className="max-w-[90%] space-y-2">
+      <div className={`p-3.5 rounded-2xl text-[13px] leading-relaxed shadow-sm border space-y-1.5 ${message.status === 'error' ? 'bg-rose-50 text-rose-700 border-rose-200' : 'bg-slate-100 text-slate-700 border-slate-200'}`}>
+        {reply.text ? renderMarkdown(reply.text, { onNodeLink }) : !streaming && <p className="text-slate-400">（无回复）</p>}
+        {streaming && !reply.pending && <span className="inline-block w-1.5 h-3.5 bg-indigo-400 animate-pulse align-middle" />}
+        {reply.pending && <p className="text-[11px] text-slate-400">正在生成修改建议…</p>}
+      </div>
+      {message.status === 'error' && onRetry && (
+        <button onClick={onRetry} className="text-[10px] font-bold text-rose-500 hover:text-rose-700 px-1">↻ 重试</button>
+      )}
+      {!streaming && !message.status && reply.text && pinTarget && (
+        <button onClick={() => onPin(message.id)} title={`把这条回答追加到「${pinTarget}」的备注`} className="text-[10px] font-bold text-slate-400 hover:text-indigo-600 px-1">
+          📌 钉到「{pinTarget.length > 12 ? `${pinTarget.slice(0, 12)}…` : pinTarget}」的备注
+        </button>
+      )}
+      {reply.actions.length > 0 && root && (
+        <div className={`rounded-2xl border p-3 space-y-2 ${isPreviewing ? 'border-indigo-300 bg-indigo-50/60' : 'border-slate-200 bg-white'}`}>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-wider">建议修改 {reply.actions.length} 项</p>
+          <ul className="space-y-1 text-[11px] text-slate-600">
+            {reply.actions.map((action, i) => <li key={i}>· {describeAction(action, root, reply.actions)}</li>)}
+          </ul>
+          {message.applied ? (
+            <p className="text-[11px] font-bold text-emerald-600">✓ 已应用</p>
+          ) : (
+            <div className="flex gap-2">
+              <button
+                onClick={() => onPreview(isPreviewing ? null : message.id)}
+                aria-pressed={isPreviewing}
+                className="flex-1 px-3 py-1.5 rounded-lg text-[11px] font-bold border border-slate-200 text-slate-600 hover:bg-slate-50"
+              >
+                {isPreviewing ? '关闭预览' : '在导图上预览'}
+              </button>
+              <button onClick={() => onApply(message.id)} className="flex-1 px-3 py-1.5 rounded-lg text-[11px] font-bold bg-indigo-600 text-white hover:bg-indigo-700">应用</button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 侧边栏 AI 助手：多轮对话、流式回复，回复中的修改建议可预览后一键应用
+const AssistantPanel: React.FC<AssistantPanelProps> = ({
+  isOpen, threads, activeThreadId, root, isStreaming, previewId, pinTarget, onSend, onStop, onRetry, onPreview, onApply, onPin, onNodeLink,
+  onSelectThread, onCreateThread, onRenameThread, onClearThread, onDeleteThread, onExportThread, onClose
+}) => {
+  const [input, setInput] = useState('');
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const endRef = useRef<HTMLDivElement>(null);
+  const thread = threads.find(t => t.id === activeThreadId) ?? null;
+  const messages = thread?.messages ?? [];
+  const last = messages[messages.length - 1];
+
+  const commitRename = () => {
+    if (thread && renaming?.trim()) onRenameThread(thread.id, renaming.trim());
+    setRenaming(null);
+  };
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, last?.text]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isStreaming) {
+      onStop();
+      return;
+    }
+    if (!input.trim() || !root) return;
+    onSend(input.trim());
+    setInput('');
+  };
+
+  return (
+    <aside className={`fixed top-0 right-0 h-full bg-white border-l border-slate-200 shadow-2xl z-40 transition-all duration-300 flex flex-col ${isOpen ? 'w-[360px]' : 'w-0 overflow-hidden'}`}>
+      <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0 bg-slate-50/50">
+        <h2 className="font-black text-slate-700 tracking-tighter uppercase text-xs">AI 深度分析</h2>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+      </div>
+      <div className="px-5 py-2.5 border-b border-slate-100 bg-slate-50/50 space-y-1.5 shrink-0">
+        <div className="flex items-center gap-2">
+          {renaming !== null && thread ? (
+            <input
+              autoFocus
+              value={renaming}
+              onChange={(e) => setRenaming(e.target.value)}
+              onBlur={commitRename}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitRename();
+                if (e.key === 'Escape') setRenaming(null);
+              }}
+              aria-label="对话名称"
+              className="flex-1 min-w-0 px-2 py-1 bg-white border border-indigo-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+            />
+          ) : (
+            <select
+              value={activeThreadId ?? ''}
+              onChange={(e) => onSelectThread(e.target.value)}
+              disabled={threads.length === 0 || isStreaming}
+              aria-label="切换对话"
+              className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+            >
+              {threads.length === 0 && <option value="">新对话</option>}
+              {threads.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+            </select>
+          )}
+          <button onClick={onCreateThread} disabled={isStreaming} className="text-[10px] bg-indigo-600 text-white px-2.5 py-1 rounded-md font-bold hover:bg-indigo-700 disabled:opacity-40">新对话</button>
+        </div>
+        <div className="flex items-center gap-0.5 -ml-2">
+          <button onClick={() => thread && setRenaming(thread.title)} disabled={!thread} className={toolClass}>重命名</button>
+          <button onClick={() => thread && onExportThread(thread.id)} disabled={!messages.length} title="导出为 Markdown" className={toolClass}>导出</button>
+          <button
+            onClick={() => { if (thread && confirm(`清空「${thread.title}」中的全部消息吗？`)) onClearThread(thread.id); }}
+            disabled={!messages.length || isStreaming}
+            className={toolClass}
+          >
+            清空
+          </button>
+          <button
+            onClick={() => { if (thread && confirm(`确定删除对话「${thread.title}」吗？此操作无法撤销。`)) onDeleteThread(thread.id); }}
+            disabled={!thread || isStreaming}
+            className={`${toolClass} hover:text-rose-600`}
+          >
+            删除
+          </button>
+        </div>
+      </div>
+      <div className="flex-1 overflow-y-auto p-5 space-y-4" aria-live="polite">
+        {messages.length === 0 && (
+          <div className="flex justify-start">
+            <div className="max-w-[90%] p-3.5 rounded-2xl text-[13px] leading-relaxed shadow-sm bg-slate-100 text-slate-700 border border-slate-200">{WELCOME}</div>
+          </div>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            {message.role === 'user' ? (
+              <div className="max-w-[90%] p-3.5 rounded-2xl text-[13px] leading-relaxed shadow-sm bg-indigo-600 text-white whitespace-pre-wrap">{message.text}</div>
+            ) : (
+              <AssistantMessage
+                message={message}
+                root={root}
+                isPreviewing={previewId === message.id}
+                pinTarget={pinTarget}
+                onPreview={onPreview}
+                onApply={onApply}
+                onPin={onPin}
+                onNodeLink={onNodeLink}
+                onRetry={message === last && !isStreaming ? () => onRetry(message.id) : undefined}
+              />
+            )}
+          </div>
+        ))}
+        {isStreaming && last?.status === 'streaming' && !last.text && (
+          <div className="flex justify-start">
+            <div className="bg-slate-100 p-3 rounded-2xl shadow-sm border border-slate-200 flex gap-1.5">
+              <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-bounce"></div>
+              <div className="w-1.5 h-1.5 rounded-full bg-indigo-400 animate-bounce [animation-delay:0.2s]"></div>
+            </div>
+          </div>
+        )}
+        <div ref={endRef} />
+      </div>
+      <form onSubmit={handleSubmit} className="p-5 border-t border-slate-100 bg-white">
+        <div className="relative">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            placeholder="针对当前导图提问，或让 AI 修改导图..."
+            className="w-full pl-4 pr-12 py-3 bg-slate-50 border border-slate-200 rounded-xl focus:ring-4 focus:ring-indigo-500/10 focus:bg-white outline-none text-xs font-medium"
+          />
+          {isStreaming ? (
+            <button type="submit" title="停止生成" className="absolute right-2 top-2 bottom-2 px-3 bg-slate-900 text-white rounded-lg text-[10px] font-bold">停止</button>
+          ) : (
+            <button type="submit" title="发送" className="absolute right-2 top-2 bottom-2 px-3 bg-indigo-600 text-white rounded-lg">
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path stroke-linecap="round" stroke-linejoin="round" stroke-width={2} d="M14 5l7 7m0 0l-7 7m7-7H3" /></svg>
+            </button>
+          )}
+        </div>
+      </form>
+    </aside>
+  );
+};
+
+export default AssistantPanel;
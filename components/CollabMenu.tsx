@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { CollabPeer, CollabSettings, CollabStatus } from '../types';
+import { buildShareLink } from '../services/collabService';
+
+interface CollabMenuProps {
+  room: string | null; // 当前文档 id
+  status: CollabStatus | null; // null 表示当前文档未开启协作
+  peers: CollabPeer[];
+  settings: CollabSettings;
+  onSettingsChange: (settings: CollabSettings) => void;
+  onStart: () => void;
+  onStop: () => void;
+}
+
+const STATUS_INFO: Record<CollabStatus, { label: string; dot: string }> = {
+  connecting: { label: '连接中', dot: 'bg-amber-400 animate-pulse' },
+  online: { label: '已连接', dot: 'bg-emerald-500' },
+  offline: { label: '离线，修改会在重连后同步', dot: 'bg-rose-500' },
+};
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border border-slate-200 rounded-lg outline-none focus:border-indigo-500 text-slate-700';
+
+// 实时协作：开关、分享链接、中继地址与显示名称，以及在线的协作者
+const CollabMenu: React.FC<CollabMenuProps> = ({ room, status, peers, settings, onSettingsChange, onStart, onStop }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [draft, setDraft] = useState(settings);
+  const [copied, setCopied] = useState(false);
+  const dirty = draft.relayUrl !== settings.relayUrl || draft.name !== settings.name || draft.color !== settings.color;
+
+  const open = () => {
+    setDraft(settings);
+    setIsOpen(!isOpen);
+  };
+
+  const copyLink = async () => {
+    if (!room) return;
+    await navigator.clipboard.writeText(buildShareLink(room, settings.relayUrl));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={open}
+        className={`px-4 py-2 rounded-xl font-bold text-xs flex items-center gap-2 transition-all ${isOpen ? 'bg-slate-900 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+      >
+        {status && <span className={`w-2 h-2 rounded-full ${STATUS_INFO[status].dot}`} />}
+        协作{status && peers.length > 0 ? ` · ${peers.length + 1}` : ''}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-72 bg-white border border-slate-200 rounded-2xl shadow-2xl p-4 z-50 text-xs space-y-3">
+          {status ? (
+            <>
+              <p className="flex items-center gap-2 font-bold text-slate-600">
+                <span className={`w-2 h-2 rounded-full ${STATUS_INFO[status].dot}`} />
+                {STATUS_INFO[status].label}
+              </p>
+              <div>
+                <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">在线</p>
+                <ul className="space-y-1">
+                  <li className="flex items-center gap-2 text-slate-600">
+                    <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: settings.color }} />
+                    {settings.name}（我）
+                  </li>
+                  {peers.map(peer => (
+                    <li key={peer.clientId} className="flex items-center gap-2 text-slate-600">
+                      <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: peer.color }} />
+                      {peer.name}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+              <div className="flex gap-2">
+                <button onClick={copyLink} className="flex-1 py-2 rounded-lg bg-indigo-600 text-white font-bold hover:bg-indigo-700">
+                  {copied ? '已复制' : '复制邀请链接'}
+                </button>
+                <button onClick={onStop} className="px-3 py-2 rounded-lg bg-slate-100 text-slate-600 font-bold hover:bg-slate-200">
+                  停止协作
+                </button>
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-slate-500 leading-relaxed">开启后通过协作中继与他人实时编辑当前导图，对方打开邀请链接即可加入。</p>
+              <button onClick={onStart} disabled={!room} className="w-full py-2 rounded-lg bg-indigo-600 text-white font-bold hover:bg-indigo-700 disabled:opacity-40">
+                开启协作
+              </button>
+            </>
+          )}
+
+          <div className="pt-3 border-t border-slate-100 space-y-2">
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">中继地址</span>
+              <input value={draft.relayUrl} onChange={(e) => setDraft({ ...draft, relayUrl: e.target.value })} placeholder="ws://localhost:1234" className={`${inputClass} font-mono`} />
+            </label>
+            <div className="flex gap-2 items-end">
+              <label className="block flex-1">
+                <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">显示名称</span>
+                <input value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} maxLength={40} className={inputClass} />
+              </label>
+              <input type="color" value={draft.color} onChange={(e) => setDraft({ ...draft, color: e.target.value })} title="光标颜色" className="w-9 h-9 rounded-lg border border-slate-200 cursor-pointer" />
+            </div>
+            {dirty && (
+              <button
+                onClick={() => onSettingsChange({ relayUrl: draft.relayUrl.trim(), name: draft.name.trim() || settings.name, color: draft.color })}
+                disabled={!/^wss?:\/\/\S+$/.test(draft.relayUrl.trim())}
+                className="w-full py-2 rounded-lg bg-slate-900 text-white font-bold hover:bg-slate-700 disabled:opacity-40"
+              >
+                保存{status ? '并重新连接' : ''}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollabMenu;
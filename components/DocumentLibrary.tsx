@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { DocumentMeta } from '../types';
+
+interface DocumentLibraryProps {
+  isOpen: boolean;
+  documents: DocumentMeta[];
+  activeId: string | null;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatTime = (ts: number) => {
+  const d = new Date(ts);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+const DocumentLibrary: React.FC<DocumentLibraryProps> = ({ isOpen, documents, activeId, onClose, onOpen, onCreate, onRename, onDuplicate, onDelete }) => {
+  const [editing, setEditing] = useState<{ id: string; title: string } | null>(null);
+
+  const commitRename = () => {
+    if (editing && editing.title.trim()) onRename(editing.id, editing.title.trim());
+    setEditing(null);
+  };
+
+  return (
+    <aside className={`fixed top-0 left-0 h-full bg-white border-r border-slate-200 shadow-2xl z-50 transition-all duration-300 flex flex-col ${isOpen ? 'w-[320px]' : 'w-0 overflow-hidden'}`}>
+      <div className="p-5 border-b border-slate-100 flex items-center justify-between shrink-0 bg-slate-50/50">
+        <h2 className="font-black text-slate-700 tracking-tighter uppercase text-xs">文档库 ({documents.length})</h2>
+        <div className="flex items-center gap-3">
+          <button onClick={onCreate} className="text-[10px] bg-indigo-600 text-white px-3 py-1 rounded-md font-bold hover:bg-indigo-700 transition-colors">新建</button>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+      </div>
+      <ul className="flex-1 overflow-y-auto p-3 space-y-1">
+        {documents.map(doc => (
+          <li
+            key={doc.id}
+            className={`group p-3 rounded-xl border transition-all ${doc.id === activeId ? 'bg-indigo-50 border-indigo-100' : 'border-transparent hover:bg-slate-50'}`}
+          >
+            {editing?.id === doc.id ? (
+              <input
+                autoFocus
+                value={editing.title}
+                onChange={(e) => setEditing({ id: doc.id, title: e.target.value })}
+                onBlur={commitRename}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename();
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                className="w-full px-2 py-1 bg-white border border-indigo-200 rounded-md text-xs font-bold text-slate-700 outline-none"
+              />
+            ) : (
+              <button onClick={() => onOpen(doc.id)} className="w-full text-left">
+                <p className={`text-xs font-bold truncate ${doc.id === activeId ? 'text-indigo-600' : 'text-slate-700'}`}>{doc.title}</p>
+                <p className="text-[10px] text-slate-400 font-mono mt-0.5">{formatTime(doc.updatedAt)}</p>
+              </button>
+            )}
+            <div className="flex gap-3 mt-2 text-[10px] font-bold text-slate-400 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button onClick={() => setEditing({ id: doc.id, title: doc.title })} className="hover:text-indigo-600">重命名</button>
+              <button onClick={() => onDuplicate(doc.id)} className="hover:text-indigo-600">复制</button>
+              <button
+                onClick={() => { if (confirm(`确定删除「${doc.title}」吗？此操作无法撤销。`)) onDelete(doc.id); }}
+                className="hover:text-rose-600"
+              >
+                删除
+              </button>
+            </div>
+          </li>
+        ))}
+      </ul>
+    </aside>
+  );
+};
+
+export default DocumentLibrary;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { GenerationOptions, GenerationStyle } from '../types';
+import { GENERATION_LIMITS } from '../services/aiSettings';
+
+interface GenerationOptionsMenuProps {
+  options: GenerationOptions;
+  onChange: (options: GenerationOptions) => void;
+  disabled?: boolean;
+}
+
+const STYLE_LABELS: Record<GenerationStyle, { label: string; description: string }> = {
+  brainstorm: { label: '头脑风暴', description: '发散联想，标签简短' },
+  study: { label: '学习提纲', description: '概念、定义与示例' },
+  project: { label: '项目拆解', description: '阶段、交付物与任务' },
+};
+
+const range = ({ min, max }: { min: number; max: number }) => Array.from({ length: max - min + 1 }, (_, i) => min + i);
+
+const GenerationOptionsMenu: React.FC<GenerationOptionsMenuProps> = ({ options, onChange, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        type="button"
+        disabled={disabled}
+        onClick={() => setIsOpen(!isOpen)}
+        title="生成选项"
+        className={`h-full px-3 py-2.5 rounded-xl font-bold text-[11px] whitespace-nowrap transition-all disabled:opacity-40 ${isOpen ? 'bg-slate-900 text-white' : 'bg-slate-50 border border-slate-200 text-slate-500 hover:bg-white'}`}
+      >
+        {STYLE_LABELS[options.style].label} · {options.depth} 层
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-64 bg-white border border-slate-200 rounded-2xl shadow-2xl p-4 z-50 text-xs space-y-4">
+          <div>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">风格</p>
+            <div className="space-y-1">
+              {(Object.keys(STYLE_LABELS) as GenerationStyle[]).map(style => (
+                <button
+                  key={style}
+                  type="button"
+                  onClick={() => onChange({ ...options, style })}
+                  className={`w-full text-left px-3 py-2 rounded-lg border transition-all ${options.style === style ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-transparent text-slate-600 hover:bg-slate-50'}`}
+                >
+                  <span className="font-bold">{STYLE_LABELS[style].label}</span>
+                  <span className="ml-2 text-[10px] text-slate-400">{STYLE_LABELS[style].description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">深度</span>
+              <select
+                value={options.depth}
+                onChange={(e) => onChange({ ...options, depth: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 outline-none"
+              >
+                {range(GENERATION_LIMITS.depth).map(n => <option key={n} value={n}>{n} 层</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">每层分支</span>
+              <select
+                value={options.breadth}
+                onChange={(e) => onChange({ ...options, breadth: Number(e.target.value) })}
+                className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded-lg font-bold text-slate-600 outline-none"
+              >
+                {range(GENERATION_LIMITS.breadth).map(n => <option key={n} value={n}>{n} 个</option>)}
+              </select>
+            </label>
+          </div>
+          <p className="text-[10px] text-slate-400 leading-relaxed">前两层一次生成，更深的层级会逐个分支继续扩展。</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationOptionsMenu;
@@ -0,0 +1,174 @@
+import React, { useRef, useState } from 'react';
+import { Card, LayoutDirection } from '../types';
+import { FORMAT_INFO, MapFormat, detectFormat, exportMap, importMap } from '../utils/formats';
+import { DocumentSchemaError } from '../utils/documentSchema';
+import { downloadFile, safeFilename } from '../utils/download';
+import { exportPdf, exportPng, exportSvg } from '../utils/mapExport';
+
+interface ImportExportMenuProps {
+  root: Card | null;
+  title: string;
+  layout: LayoutDirection;
+  onImport: (root: Card, issues: string[]) => void;
+  onError: (message: string) => void;
+}
+
+const FORMATS = Object.keys(FORMAT_INFO) as MapFormat[];
+const IMAGE_SCALES = [1, 2, 3, 4, 8];
+
+const ImportExportMenu: React.FC<ImportExportMenuProps> = ({ root, title, layout, onImport, onError }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [imageScale, setImageScale] = useState(2);
+  const [isRendering, setIsRendering] = useState(false);
+  const [paste, setPaste] = useState<{ isOpen: boolean; text: string; format: MapFormat | 'auto' }>({ isOpen: false, text: '', format: 'auto' });
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const runImport = (content: string, format: MapFormat) => {
+    try {
+      const { value, issues } = importMap(content, format);
+      onImport(value, issues);
+      return true;
+    } catch (err) {
+      onError(err instanceof DocumentSchemaError ? `导入失败：${err.message}` : '导入失败：无法解析内容。');
+      return false;
+    }
+  };
+
+  const handleExport = (format: MapFormat) => {
+    if (!root) return;
+    const info = FORMAT_INFO[format];
+    downloadFile(`${safeFilename(title)}.${info.extension}`, exportMap(root, format, title), info.mime);
+    setIsOpen(false);
+  };
+
+  const handleCopy = (format: MapFormat) => {
+    if (!root) return;
+    navigator.clipboard.writeText(exportMap(root, format, title));
+    setIsOpen(false);
+  };
+
+  const handleImageExport = async (kind: 'png' | 'svg' | 'pdf') => {
+    if (!root || isRendering) return;
+    const name = safeFilename(title);
+    setIsRendering(true);
+    try {
+      if (kind === 'svg') {
+        downloadFile(`${name}.svg`, exportSvg(root, layout), 'image/svg+xml');
+      } else if (kind === 'png') {
+        const { blob, scale } = await exportPng(root, layout, imageScale);
+        downloadFile(`${name}@${Math.round(scale * 100) / 100}x.png`, blob);
+        if (scale < imageScale) onError(`导图过大，PNG 已自动降为 ${scale.toFixed(2)}x。`);
+      } else {
+        downloadFile(`${name}.pdf`, await exportPdf(root, layout, imageScale));
+      }
+      setIsOpen(false);
+    } catch (err) {
+      onError('导出图片失败。');
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const content = await file.text();
+    runImport(content, detectFormat(content, file.name));
+  };
+
+  const handlePasteImport = () => {
+    const format = paste.format === 'auto' ? detectFormat(paste.text) : paste.format;
+    if (runImport(paste.text, format)) setPaste({ isOpen: false, text: '', format: 'auto' });
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`px-4 py-2 rounded-xl font-bold text-xs transition-all ${isOpen ? 'bg-slate-900 text-white' : 'bg-white border border-slate-200 text-slate-600 hover:bg-slate-50'}`}
+      >
+        导入 / 导出
+      </button>
+      <input ref={fileInputRef} type="file" accept=".json,.md,.markdown,.txt,.opml,.xml,.mm" className="hidden" onChange={handleFile} />
+
+      {isOpen && (
+        <div className="absolute right-0 top-12 w-60 bg-white border border-slate-200 rounded-2xl shadow-2xl p-2 z-50 text-xs">
+          <p className="px-3 pt-2 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">导出文件</p>
+          {FORMATS.map(format => (
+            <button key={format} disabled={!root} onClick={() => handleExport(format)} className="w-full text-left px-3 py-2 rounded-lg font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-40">
+              {FORMAT_INFO[format].label} <span className="text-slate-400 font-mono">.{FORMAT_INFO[format].extension}</span>
+            </button>
+          ))}
+          <div className="px-3 pt-3 pb-1 flex items-center justify-between">
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">导出图片</p>
+            <select
+              value={imageScale}
+              onChange={(e) => setImageScale(Number(e.target.value))}
+              title="PNG / PDF 分辨率倍率"
+              className="px-2 py-0.5 bg-slate-50 border border-slate-200 rounded-md text-[10px] font-bold text-slate-600 outline-none"
+            >
+              {IMAGE_SCALES.map(scale => <option key={scale} value={scale}>{scale}x</option>)}
+            </select>
+          </div>
+          <div className="grid grid-cols-3 gap-1 px-1">
+            {(['png', 'svg', 'pdf'] as const).map(kind => (
+              <button key={kind} disabled={!root || isRendering} onClick={() => handleImageExport(kind)} className="py-2 rounded-lg font-bold text-slate-600 uppercase hover:bg-slate-50 disabled:opacity-40">
+                {kind}
+              </button>
+            ))}
+          </div>
+          <p className="px-3 pt-3 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">复制到剪贴板</p>
+          {FORMATS.map(format => (
+            <button key={format} disabled={!root} onClick={() => handleCopy(format)} className="w-full text-left px-3 py-2 rounded-lg font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-40">
+              {FORMAT_INFO[format].label}
+            </button>
+          ))}
+          <p className="px-3 pt-3 pb-1 text-[10px] font-black text-slate-400 uppercase tracking-widest">导入为新文档</p>
+          <button onClick={() => { fileInputRef.current?.click(); setIsOpen(false); }} className="w-full text-left px-3 py-2 rounded-lg font-semibold text-slate-600 hover:bg-slate-50">
+            上传文件...
+          </button>
+          <button onClick={() => { setPaste(prev => ({ ...prev, isOpen: true })); setIsOpen(false); }} className="w-full text-left px-3 py-2 rounded-lg font-semibold text-slate-600 hover:bg-slate-50">
+            粘贴文本...
+          </button>
+        </div>
+      )}
+
+      {paste.isOpen && (
+        <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/40 backdrop-blur-sm">
+          <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col">
+            <div className="px-8 py-6 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+              <div>
+                <h3 className="text-xl font-black text-slate-800 tracking-tight">粘贴导入</h3>
+                <p className="text-xs text-slate-400 font-medium">支持 JSON、Markdown 列表、OPML 与 FreeMind XML</p>
+              </div>
+              <button onClick={() => setPaste(prev => ({ ...prev, isOpen: false }))} className="text-slate-400 hover:text-slate-600">✕</button>
+            </div>
+            <div className="p-8 space-y-4">
+              <select
+                value={paste.format}
+                onChange={(e) => setPaste(prev => ({ ...prev, format: e.target.value as MapFormat | 'auto' }))}
+                className="px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl text-xs font-bold text-slate-600 outline-none"
+              >
+                <option value="auto">自动识别格式</option>
+                {FORMATS.map(format => <option key={format} value={format}>{FORMAT_INFO[format].label}</option>)}
+              </select>
+              <textarea
+                autoFocus
+                value={paste.text}
+                onChange={(e) => setPaste(prev => ({ ...prev, text: e.target.value }))}
+                placeholder={'# 主题\n\n- 分支 A\n  - 子项\n- 分支 B'}
+                className="w-full h-64 px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none font-mono text-xs text-slate-700"
+              />
+              <button onClick={handlePasteImport} disabled={!paste.text.trim()} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-sm shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all">
+                导入
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImportExportMenu;
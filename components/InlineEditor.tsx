@@ -0,0 +1,94 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { CARD_W, RenderNode } from '../utils/layout';
+import { CARD_RADIUS, getCardStyle } from '../utils/mapRenderer';
+import { CARD_FONT_FAMILY, CARD_FONT_SIZE, CARD_PAD_Y, LINE_HEIGHT } from '../utils/textLayout';
+
+export type EditContinuation = 'child' | 'sibling';
+
+interface InlineEditorProps {
+  node: RenderNode;
+  transform: { x: number; y: number; k: number };
+  onCommit: (text: string, next?: EditContinuation) => void;
+  onCancel: () => void;
+}
+
+// 覆盖在卡片上的文本框，位置与字号随缩放变换同步
+const InlineEditor: React.FC<InlineEditorProps> = ({ node, transform, onCommit, onCancel }) => {
+  const [text, setText] = useState(node.message);
+  const ref = useRef<HTMLTextAreaElement>(null);
+  // Tab 等快捷键提交后还会触发 blur，避免重复提交
+  const doneRef = useRef(false);
+  const style = getCardStyle(node.depth, node.color);
+  const { k } = transform;
+
+  useEffect(() => {
+    ref.current?.focus();
+    ref.current?.select();
+  }, []);
+
+  // 随内容自动增高
+  useLayoutEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    el.style.height = '0px';
+    el.style.height = `${Math.max(el.scrollHeight, node.height * k)}px`;
+  }, [text, node.height, k]);
+
+  const finish = (next?: EditContinuation) => {
+    if (doneRef.current) return;
+    doneRef.current = true;
+    onCommit(text, next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // 输入法组字过程中的回车用于选词
+    if (e.nativeEvent.isComposing) return;
+    e.stopPropagation();
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      doneRef.current = true;
+      onCancel();
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      finish('child');
+    } else if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      finish('sibling');
+    } else if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      finish();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-20"
+      style={{ left: transform.x + node.x * k, top: transform.y + node.y * k, width: CARD_W * k }}
+    >
+      <textarea
+        ref={ref}
+        value={text}
+        rows={1}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={() => finish()}
+        className="block w-full resize-none outline-none ring-2 ring-indigo-500 shadow-xl text-center overflow-hidden"
+        style={{
+          background: style.fill,
+          color: style.text,
+          fontFamily: CARD_FONT_FAMILY,
+          fontWeight: style.fontWeight,
+          fontSize: CARD_FONT_SIZE * k,
+          lineHeight: `${LINE_HEIGHT * k}px`,
+          padding: `${(CARD_PAD_Y - 2) * k}px ${12 * k}px`,
+          borderRadius: CARD_RADIUS * k,
+        }}
+      />
+      <p className="mt-1.5 whitespace-nowrap text-[10px] font-medium text-slate-500 bg-white/90 border border-slate-200 rounded-md px-2 py-0.5 w-max shadow-sm">
+        Enter 保存 · Shift+Enter 换行 · Tab 新建子节点 · Ctrl+Enter 新建同级 · Esc 取消
+      </p>
+    </div>
+  );
+};
+
+export default InlineEditor;
@@ -1,92 +1,169 @@
 
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useMemo, useRef, useState, useCallback } from 'react';
 import * as d3 from 'd3';
-import { Card } from '../types';
+import { Card, CollabPeer, ExpansionStatus, LayoutDirection, MapChange, NodeActionKind } from '../types';
+import { CARD_W, RenderNode, LAYOUT_ENGINES, getLayoutEngine, getNodeButtons, flattenNodes, hasToggle } from '../utils/layout';
+import { DIMMED_ALPHA, drawCard, drawChangeMarker, drawDropIndicator, drawMarquee, drawPeerSelection, drawScene, drawSearchHighlight, drawSelection, getDetailLevel, getMapBounds } from '../utils/mapRenderer';
+import { DropTarget, getDropTarget, getParentMap } from '../utils/dragDrop';
+import { SpatialIndex, createSpatialIndex } from '../utils/spatialIndex';
+import InlineEditor, { EditContinuation } from './InlineEditor';
+import NodeAIMenu from './NodeAIMenu';
+import { AccessibleTreeItems, treeItemId, useTreeAnnouncer } from './AccessibleTree';
+import SearchBar from './SearchBar';
+import Minimap from './Minimap';
+import { getContrastText } from '../utils/nodeFields';
+import { findNode, getAncestors } from '../utils/tree';
+import { SearchMode, filterTree, searchTree } from '../utils/search';
+import { SCALE_EXTENT, ViewTransform, ZOOM_STEP, centerTransform, clampScale, fitTransform, getViewportBounds } from '../utils/viewport';
+import { getFocusAfterDelete, isNavigationKey, navigate } from '../utils/treeNavigation';
 
 interface MindMapCanvasProps {
   data: Card;
+  layout: LayoutDirection;
+  selectedId: string | null;
+  selectedIds: string[]; // 多选时的全部选中节点，包含 selectedId
+  onSelect: (id: string | null) => void;
+  onSelectionChange: (ids: string[]) => void;
+  pickMode: boolean; // 等待点击目标节点（批量移动）
+  onPick: (id: string | null) => void; // null 表示取消
+  editingId: string | null;
+  onEditStart: (id: string) => void;
+  onEditCommit: (id: string, text: string, next?: EditContinuation) => void;
+  onEditCancel: () => void;
+  onCreateNode: (anchorId: string, relation: EditContinuation) => void;
+  onLayoutChange: (layout: LayoutDirection) => void;
   onExpand: (id: string, message: string) => void;
-  onDelete: (id: string) => void;
-  onEdit: (id: string, newMessage: string) => void;
+  onNodeAction: (id: string, kind: NodeActionKind) => void;
+  onDelete: (ids: string[]) => void;
+  onMove: (id: string, parentId: string, index: number) => void;
   onAddManual: (id: string) => void;
+  onToggleCollapse: (id: string) => void;
+  onReveal: (id: string) => void;
+  onCollapseToLevel: (level: number) => void;
+  onExpandAll: () => void;
+  changes?: Map<string, MapChange> | null; // AI 助手修改预览，data 为预览后的树
+  expansions?: Map<string, ExpansionStatus>; // 排队中或进行中的 AI 扩展
+  peers?: CollabPeer[]; // 实时协作中的其他人，显示他们的光标与选中的节点
+  onPointerMove?: (point: { x: number; y: number } | null) => void; // 指针的地图坐标，离开画布时为 null
 }
 
-const CARD_W = 160;
-const CARD_H = 46;
-const L1_H_GAP = 50; 
-const VERTICAL_STEP = 32; 
-const CHILD_V_GAP = 12; 
-
-interface RenderNode extends Card {
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  depth: number;
-  children: RenderNode[];
-}
-
-const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ data, onExpand, onDelete, onEdit, onAddManual }) => {
+const COLLAPSE_LEVELS = [1, 2, 3, 4];
+// 屏幕像素，小于该距离的按下-抬起视为点击
+const DRAG_THRESHOLD = 4;
+// 卡片外侧按钮、折叠徽标与选中框超出卡片的范围，裁剪与点击检测时一并计入
+const CONTROL_MARGIN = 16;
+// 跳转到搜索结果或选中节点时至少放大到该比例，保证文字可读
+const FOCUS_MIN_SCALE = 1;
+
+const SHORTCUTS: [string, string][] = [
+  ['↑ / ↓', '上一个 / 下一个可见节点'],
+  ['← / →', '折叠或回到父节点 / 展开或进入子节点'],
+  ['Home / End', '第一个 / 最后一个节点'],
+  ['Tab', '新建子节点'],
+  ['Enter', '新建同级节点'],
+  ['F2', '编辑文本'],
+  ['Delete', '删除节点'],
+  ['空格', '折叠 / 展开'],
+  ['E', 'AI 扩展（排队或进行中时取消）'],
+  ['Shift+E', 'AI 操作菜单：改写、拆分、合并、总结、分组'],
+  ['Esc', '取消选中（之后 Tab 可离开画布）'],
+  ['Shift / Ctrl+点击', '加入或移出多选'],
+  ['Shift+拖动空白处', '框选（按住 Ctrl 追加）'],
+  ['Shift+↑ / ↓', '扩展多选'],
+  ['Ctrl+A', '全选可见节点'],
+  ['Ctrl+C / X / V', '复制 / 剪切 / 粘贴子树'],
+  ['Ctrl+F', '搜索节点（Enter / Shift+Enter 切换结果）'],
+  ['+ / -', '放大 / 缩小'],
+  ['0', '适应窗口'],
+  ['.', '定位到选中节点'],
+  ['F', '聚焦 / 退出聚焦选中节点的分支'],
+];
+
+const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ data, layout, selectedId, selectedIds, onSelect, onSelectionChange, pickMode, onPick, editingId, onEditStart, onEditCommit, onEditCancel, onCreateNode, onLayoutChange, onExpand, onDelete, onMove, onAddManual, onToggleCollapse, onReveal, onCollapseToLevel, onExpandAll, changes, expansions, onNodeAction, peers, onPointerMove }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const treeRef = useRef<HTMLDivElement>(null);
+  const zoomRef = useRef<d3.ZoomBehavior<HTMLCanvasElement, unknown> | null>(null);
+  const searchInputRef = useRef<HTMLInputElement>(null);
+  const [isHelpOpen, setIsHelpOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchMode, setSearchMode] = useState<SearchMode>('highlight');
+  const [activeMatch, setActiveMatch] = useState(0);
+  const [viewport, setViewport] = useState({ width: 0, height: 0 });
+  // 打开了 AI 操作菜单的节点
+  const [aiMenuId, setAiMenuId] = useState<string | null>(null);
+  const closeAiMenu = useCallback(() => setAiMenuId(null), []);
+  // 聚焦模式：只显示该节点及其子树
+  const [focusRootId, setFocusRootId] = useState<string | null>(null);
+  const announcement = useTreeAnnouncer(data);
   const [transform, setTransform] = useState(d3.zoomIdentity);
   const renderNodesRef = useRef<RenderNode[]>([]);
+  const indexRef = useRef<{ spatial: SpatialIndex; parents: Map<string, RenderNode> } | null>(null);
+  // 拖动中的卡片：移动超过阈值才进入拖放，否则仍按点击处理
+  const dragRef = useRef<{
+    node: RenderNode;
+    ids: Set<string>; // 被拖动的整棵子树
+    startX: number;
+    startY: number;
+    offsetX: number;
+    offsetY: number;
+    pointer: { x: number; y: number };
+    active: boolean;
+    target: DropTarget | null;
+  } | null>(null);
+  const suppressClickRef = useRef(false);
+  // 框选：起点与当前点为地图坐标，additive 时与已有选择合并
+  const marqueeRef = useRef<{ start: { x: number; y: number }; current: { x: number; y: number }; additive: boolean } | null>(null);
+  const selectedSet = useMemo(() => new Set(selectedIds), [selectedIds]);
+  // 节点 → 选中它的协作者
+  const peerSelections = useMemo(() => {
+    const map = new Map<string, CollabPeer[]>();
+    peers?.forEach(peer => peer.selection.forEach(id => map.set(id, [...(map.get(id) ?? []), peer])));
+    return map;
+  }, [peers]);
   
   // 处理高清缩放
   const getDpr = () => (typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1);
 
-  // 计算子树总高度
-  const getSubTreeHeight = useCallback((node: RenderNode): number => {
-    if (!node.children || node.children.length === 0) return CARD_H;
-    let h = CARD_H + CHILD_V_GAP;
-    node.children.forEach(c => {
-      h += getSubTreeHeight(c) + CHILD_V_GAP;
-    });
-    return h;
-  }, []);
+  const engine = getLayoutEngine(layout);
 
-  // 核心布局逻辑：L1横向，L2+右下阶梯
-  const calculateLayout = useCallback((node: Card, depth: number, xOffset: number, yOffset: number): RenderNode => {
-    const rNode: RenderNode = { 
-      ...node, 
-      depth, 
-      x: xOffset, 
-      y: yOffset, 
-      width: CARD_W, 
-      height: CARD_H,
-      children: [] 
+  // 聚焦的节点被删除（或撤销后不存在）时自动退出聚焦模式
+  const focusRoot = focusRootId ? findNode(data, focusRootId) : null;
+  const baseData = focusRoot ?? data;
+  useEffect(() => {
+    if (focusRootId && !focusRoot) setFocusRootId(null);
+  }, [focusRootId, focusRoot]);
+
+  // ---------- 搜索与筛选（聚焦时只在子树内进行） ----------
+
+  const search = useMemo(() => searchTree(baseData, searchQuery), [baseData, searchQuery]);
+  const activeMatchId = search.matches.length ? search.matches[Math.min(activeMatch, search.matches.length - 1)] : null;
+
+  // 筛选模式下布局、键盘导航与辅助功能树都基于裁剪后的视图树；选中与编辑中的节点始终保留
+  const viewData = useMemo(() => {
+    if (searchMode !== 'hide' || search.matches.length === 0) return baseData;
+    const keep = new Set([...search.matches, ...search.ancestors]);
+    [selectedId, editingId].forEach(id => {
+      if (!id || !findNode(baseData, id)) return;
+      keep.add(id);
+      getAncestors(baseData, id).forEach(a => keep.add(a.id));
+    });
+    return filterTree(baseData, keep);
+  }, [baseData, search, searchMode, selectedId, editingId]);
+
+  // 淡化模式下与结果无关的节点，以及预览中将被删除的节点
+  const dimmed = useMemo(() => {
+    const searchDim = searchMode === 'dim' && search.matches.length > 0;
+    if (!searchDim && !changes?.size) return null;
+    const set = new Set<string>();
+    const visit = (node: Card) => {
+      if (searchDim && !search.matchSet.has(node.id) && !search.ancestors.has(node.id)) set.add(node.id);
+      if (changes?.get(node.id) === 'deleted') set.add(node.id);
+      node.children.forEach(visit);
     };
-
-    if (!node.children || node.children.length === 0) return rNode;
-
-    if (depth === 0) {
-      // Root -> Level 1 (横向)
-      let currentX = xOffset;
-      rNode.children = node.children.map((child) => {
-        const childNode = calculateLayout(child, depth + 1, currentX, yOffset + 140);
-        currentX += CARD_W + L1_H_GAP;
-        return childNode;
-      });
-      // 根节点居中于其子节点
-      const firstChild = rNode.children[0];
-      const lastChild = rNode.children[rNode.children.length - 1];
-      rNode.x = (firstChild.x + lastChild.x) / 2;
-    } else {
-      // Level 1+ -> Level 2+ (阶梯纵向)
-      let currentY = yOffset + CARD_H + CHILD_V_GAP;
-      rNode.children = node.children.map((child) => {
-        const childNode = calculateLayout(child, depth + 1, xOffset + VERTICAL_STEP, currentY);
-        currentY += getSubTreeHeight(childNode) + CHILD_V_GAP;
-        return childNode;
-      });
-    }
-    return rNode;
-  }, [getSubTreeHeight]);
-
-  const flatten = (node: RenderNode, list: RenderNode[]) => {
-    list.push(node);
-    if (node.children) node.children.forEach(c => flatten(c, list));
-  };
+    visit(baseData);
+    return set.size ? set : null;
+  }, [baseData, search, searchMode, changes]);
 
   const render = useCallback(() => {
     const canvas = canvasRef.current;
@@ -96,6 +173,7 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ data, onExpand, onDelete,
 
     const dpr = getDpr();
     ctx.clearRect(0, 0, canvas.width / dpr, canvas.height / dpr);
+    if (!indexRef.current) return;
     ctx.save();
     
     // 应用 Zoom 变换
@@ -103,110 +181,74 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ data, onExpand, onDelete,
     ctx.scale(transform.k, transform.k);
 
     const nodes = renderNodesRef.current;
+    // 只绘制视口内的卡片
+    const view = getViewportBounds(transform, canvas.width / dpr, canvas.height / dpr);
+    const visible = indexRef.current.spatial.query(view, CONTROL_MARGIN);
+
+    // 1-2. 连线与卡片（拖动中的子树半透明，搜索淡化的节点更淡）
+    const drag = dragRef.current?.active ? dragRef.current : null;
+    drawScene(ctx, {
+      engine,
+      nodes,
+      visible,
+      view,
+      scale: transform.k,
+      dimmed: dimmed ?? undefined,
+      alphaOf: node => (dimmed?.has(node.id) ? DIMMED_ALPHA : drag && drag.ids.has(node.id) ? 0.35 : 1),
+      expansions,
+    });
 
-    // 1. 连线绘制
-    ctx.beginPath();
-    ctx.strokeStyle = '#94a3b8';
-    ctx.lineWidth = 1.2;
-    nodes.forEach(node => {
-      node.children.forEach(child => {
-        if (node.depth === 0) {
-          // L1 曲线
-          ctx.moveTo(node.x + CARD_W / 2, node.y + CARD_H);
-          ctx.bezierCurveTo(
-            node.x + CARD_W / 2, node.y + 100,
-            child.x + CARD_W / 2, child.y - 40,
-            child.x + CARD_W / 2, child.y
-          );
-        } else {
-          // L2+ 阶梯线
-          const startX = node.x + 20; 
-          const startY = node.y + CARD_H;
-          const endX = child.x;
-          const endY = child.y + CARD_H / 2;
-          ctx.moveTo(startX, startY);
-          ctx.lineTo(startX, endY);
-          ctx.lineTo(endX, endY);
-        }
-      });
+    // 搜索结果外框
+    visible.forEach(node => {
+      if (search.matchSet.has(node.id)) drawSearchHighlight(ctx, node, node.id === activeMatchId);
     });
-    ctx.stroke();
 
-    // 2. 卡片绘制
-    nodes.forEach(node => {
-      const { x, y, message, depth, isExpanding } = node;
-      
-      ctx.save();
-      
-      // 卡片阴影
-      ctx.shadowColor = 'rgba(0,0,0,0.06)';
-      ctx.shadowBlur = 10;
-      ctx.shadowOffsetY = 4;
-
-      // 卡片圆角矩形
-      ctx.beginPath();
-      ctx.roundRect(x, y, CARD_W, CARD_H, 10);
-      if (depth === 0) ctx.fillStyle = '#1e293b';
-      else if (depth === 1) ctx.fillStyle = '#4f46e5';
-      else ctx.fillStyle = '#ffffff';
-      ctx.fill();
-      
-      ctx.shadowBlur = 0;
-      ctx.shadowOffsetY = 0;
-      ctx.strokeStyle = depth > 1 ? '#e2e8f0' : 'transparent';
-      ctx.lineWidth = 1;
-      ctx.stroke();
-
-      // 精确文字渲染
-      ctx.fillStyle = (depth === 0 || depth === 1) ? '#ffffff' : '#334155';
-      ctx.font = `${depth === 0 ? '700' : '500'} 13px "Inter", -apple-system, sans-serif`;
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      const displayMsg = message.length > 20 ? message.slice(0, 18) + '...' : message;
-      ctx.fillText(displayMsg, x + CARD_W / 2, y + CARD_H / 2);
-
-      // 操作按钮 (+)
-      ctx.fillStyle = '#10b981';
-      ctx.beginPath();
-      ctx.arc(x + CARD_W, y + 12, 10, 0, Math.PI * 2);
-      ctx.fill();
-      ctx.fillStyle = 'white';
-      ctx.font = 'bold 12px Arial';
-      ctx.fillText('+', x + CARD_W, y + 13);
-
-      // AI 按钮
-      if (isExpanding) {
-        ctx.fillStyle = '#f59e0b';
-        ctx.beginPath();
-        ctx.arc(x + CARD_W, y + CARD_H - 12, 10, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = 'white';
-        ctx.font = '8px Arial';
-        ctx.fillText('...', x + CARD_W, y + CARD_H - 12);
-      } else {
-        ctx.fillStyle = '#6366f1';
-        ctx.beginPath();
-        ctx.arc(x + CARD_W, y + CARD_H - 12, 10, 0, Math.PI * 2);
-        ctx.fill();
-        ctx.fillStyle = 'white';
-        ctx.font = '9px Arial';
-        ctx.fillText('AI', x + CARD_W, y + CARD_H - 11);
-      }
+    if (changes?.size) {
+      visible.forEach(node => {
+        const change = changes.get(node.id);
+        if (change) drawChangeMarker(ctx, node, change);
+      });
+    }
 
-      ctx.restore();
+    // 3. 选中框，协作者选中的节点用对方的颜色
+    visible.forEach(node => {
+      const peer = peerSelections.get(node.id)?.[0];
+      if (peer) drawPeerSelection(ctx, node, peer.color, peer.name);
+      if (selectedSet.has(node.id)) drawSelection(ctx, node);
     });
 
+    const marquee = marqueeRef.current;
+    if (marquee) drawMarquee(ctx, marquee.start, marquee.current);
+
+    // 4. 拖放指示与跟随指针的卡片
+    if (drag) {
+      if (drag.target) drawDropIndicator(ctx, drag.target);
+      ctx.globalAlpha = 0.8;
+      drawCard(ctx, { ...drag.node, x: drag.pointer.x - drag.offsetX, y: drag.pointer.y - drag.offsetY, children: [], hiddenCount: 0 }, false);
+      ctx.globalAlpha = 1;
+    }
+
     ctx.restore();
-  }, [transform]);
+  }, [transform, engine, selectedSet, peerSelections, dimmed, search, activeMatchId, changes, expansions]);
+
+  const renderRef = useRef(render);
+  renderRef.current = render;
+
+  // 布局在渲染阶段计算，编辑框可以立即定位到刚创建的节点
+  const renderNodes = useMemo(() => flattenNodes(engine.layout(viewData)), [viewData, engine]);
+  renderNodesRef.current = renderNodes;
+  // 布局变化时重建空间索引，平移缩放只做查询
+  const index = useMemo(() => ({ spatial: createSpatialIndex(renderNodes), parents: getParentMap(renderNodes) }), [renderNodes]);
+  indexRef.current = index;
+  const editingNode = editingId ? renderNodes.find(n => n.id === editingId) : undefined;
+  const aiMenuNode = aiMenuId ? renderNodes.find(n => n.id === aiMenuId) : undefined;
+  const aiMenuButton = aiMenuNode ? getNodeButtons(aiMenuNode).ai : null;
 
   useEffect(() => {
-    const root = calculateLayout(data, 0, 100, 80);
-    const list: RenderNode[] = [];
-    flatten(root, list);
-    renderNodesRef.current = list;
     render();
-  }, [data, calculateLayout, render]);
+  }, [renderNodes, render]);
 
+  // 缩放与尺寸监听只在挂载时绑定一次，重绘通过 renderRef 使用最新的 render
   useEffect(() => {
     const canvas = canvasRef.current;
     const container = containerRef.current;
@@ -221,77 +263,596 @@ const MindMapCanvas: React.FC<MindMapCanvasProps> = ({ data, onExpand, onDelete,
       canvas.height = height * dpr;
       canvas.style.width = `${width}px`;
       canvas.style.height = `${height}px`;
+      setViewport({ width, height });
       
       const ctx = canvas.getContext('2d');
       if (ctx) {
         ctx.scale(dpr, dpr); 
-        render();
+        renderRef.current();
       }
     };
 
     const zoom = d3.zoom<HTMLCanvasElement, unknown>()
-      .scaleExtent([0.1, 4])
+      .scaleExtent(SCALE_EXTENT)
+      // 在卡片上按下时交给拖放处理，空白处仍然平移；滚轮缩放不受影响
+      .filter((event) => {
+        if (event.type === 'wheel') return true;
+        if (event.ctrlKey || event.button) return false;
+        if (event.type !== 'mousedown') return true;
+        // Shift+拖动空白处为框选
+        if (event.shiftKey) return false;
+        const t = d3.zoomTransform(canvas);
+        const [px, py] = d3.pointer(event, canvas);
+        return !hitCard((px - t.x) / t.k, (py - t.y) / t.k);
+      })
       .on('zoom', (event) => setTransform(event.transform));
+    zoomRef.current = zoom;
 
-    d3.select(canvas).call(zoom);
+    // 双击留给编辑文本，不触发缩放
+    d3.select(canvas).call(zoom).on('dblclick.zoom', null);
     
     const resizeObserver = new ResizeObserver(handleResize);
     resizeObserver.observe(container);
     handleResize();
 
-    return () => resizeObserver.disconnect();
-  }, [render]);
+    return () => {
+      resizeObserver.disconnect();
+      d3.select(canvas).on('.zoom', null);
+    };
+  }, []);
 
-  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+  const toMapPoint = (e: React.MouseEvent<HTMLCanvasElement>) => {
     const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-    const mouseX = (e.clientX - rect.left - transform.x) / transform.k;
-    const mouseY = (e.clientY - rect.top - transform.y) / transform.k;
+    if (!rect) return null;
+    return { x: (e.clientX - rect.left - transform.x) / transform.k, y: (e.clientY - rect.top - transform.y) / transform.k };
+  };
 
-    for (let i = renderNodesRef.current.length - 1; i >= 0; i--) {
-      const node = renderNodesRef.current[i];
+  const hitCard = (x: number, y: number) => indexRef.current?.spatial.hit(x, y) ?? null;
+
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const point = toMapPoint(e);
+    const node = point && hitCard(point.x, point.y);
+    if (canvas && point && !node && e.shiftKey && e.button === 0) {
+      startMarquee(canvas, point, e.ctrlKey || e.metaKey);
+      return;
+    }
+    // 根节点没有父节点，不能拖动
+    if (!canvas || !point || !node || node.depth === 0 || e.button !== 0 || e.altKey || pickMode) return;
+
+    dragRef.current = {
+      node,
+      ids: new Set(flattenNodes(node).map(n => n.id)),
+      startX: e.clientX,
+      startY: e.clientY,
+      offsetX: point.x - node.x,
+      offsetY: point.y - node.y,
+      pointer: point,
+      active: false,
+      target: null,
+    };
+
+    const onMouseMove = (ev: MouseEvent) => {
+      const drag = dragRef.current;
+      if (!drag) return;
+      if (!drag.active && Math.hypot(ev.clientX - drag.startX, ev.clientY - drag.startY) < DRAG_THRESHOLD) return;
+      const rect = canvas.getBoundingClientRect();
+      const t = d3.zoomTransform(canvas);
+      drag.active = true;
+      drag.pointer = { x: (ev.clientX - rect.left - t.x) / t.k, y: (ev.clientY - rect.top - t.y) / t.k };
+      const { x, y } = drag.pointer;
+      const { spatial, parents } = indexRef.current!;
+      drag.target = getDropTarget(spatial.query({ minX: x, minY: y, maxX: x, maxY: y }), drag.node, x, y, parents);
+      renderRef.current();
+    };
+
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+      const drag = dragRef.current;
+      dragRef.current = null;
+      if (!drag?.active) return;
+      // 拖放结束后浏览器仍会派发 click，忽略这一次（指针在画布外抬起时不会派发，下一轮事件循环复位）
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+      if (drag.target) onMove(drag.node.id, drag.target.parentId, drag.target.index);
+      renderRef.current();
+    };
+
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  const startMarquee = (canvas: HTMLCanvasElement, start: { x: number; y: number }, additive: boolean) => {
+    marqueeRef.current = { start, current: start, additive };
+    const onMouseMove = (ev: MouseEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      const t = d3.zoomTransform(canvas);
+      marqueeRef.current!.current = { x: (ev.clientX - rect.left - t.x) / t.k, y: (ev.clientY - rect.top - t.y) / t.k };
+      renderRef.current();
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+      const marquee = marqueeRef.current;
+      marqueeRef.current = null;
+      renderRef.current();
+      if (!marquee || !indexRef.current) return;
+      const { start: a, current: b } = marquee;
+      if (Math.hypot(b.x - a.x, b.y - a.y) * transform.k < DRAG_THRESHOLD) return;
+      suppressClickRef.current = true;
+      setTimeout(() => { suppressClickRef.current = false; }, 0);
+      const hits = indexRef.current.spatial
+        .query({ minX: Math.min(a.x, b.x), minY: Math.min(a.y, b.y), maxX: Math.max(a.x, b.x), maxY: Math.max(a.y, b.y) })
+        .map(n => n.id);
+      const base = marquee.additive ? selectedIds.filter(id => !hits.includes(id)) : [];
+      onSelectionChange([...base, ...hits]);
+      treeRef.current?.focus({ preventScroll: true });
+    };
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  // Shift / Ctrl / Cmd+点击切换节点的选中状态，新加入的节点成为当前节点
+  const toggleSelected = (id: string) => {
+    const rest = selectedIds.filter(s => s !== id);
+    onSelectionChange(rest.length < selectedIds.length ? rest : [...rest, id]);
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (suppressClickRef.current) return;
+    // d3 zoom 会阻止按下时的默认聚焦，这里手动聚焦以便随后使用键盘
+    treeRef.current?.focus({ preventScroll: true });
+    const point = toMapPoint(e);
+    if (!point) return;
+    const { x: mouseX, y: mouseY } = point;
+
+    // 选择批量移动的目标：卡片按钮不响应，点空白处取消
+    if (pickMode) {
+      onPick(hitCard(mouseX, mouseY)?.id ?? null);
+      return;
+    }
+
+    // 只检查指针附近的卡片（含外侧按钮范围）
+    const candidates = indexRef.current?.spatial.query({ minX: mouseX, minY: mouseY, maxX: mouseX, maxY: mouseY }, CONTROL_MARGIN) ?? [];
+    // 缩小后按钮不再绘制，也不响应点击
+    const level = getDetailLevel(transform.k);
+    for (let i = candidates.length - 1; i >= 0; i--) {
+      const node = candidates[i];
       
-      const plusBtnDist = Math.hypot(mouseX - (node.x + CARD_W), mouseY - (node.y + 12));
-      if (plusBtnDist < 12) {
+      const buttons = getNodeButtons(node);
+      const plusBtnDist = Math.hypot(mouseX - buttons.add.x, mouseY - buttons.add.y);
+      if (level === 'full' && plusBtnDist < 12) {
         onAddManual(node.id);
         return;
       }
 
-      const aiBtnDist = Math.hypot(mouseX - (node.x + CARD_W), mouseY - (node.y + CARD_H - 12));
-      if (aiBtnDist < 12) {
-        onExpand(node.id, node.message);
+      const aiBtnDist = Math.hypot(mouseX - buttons.ai.x, mouseY - buttons.ai.y);
+      if (level === 'full' && aiBtnDist < 12) {
+        // 扩展排队或进行中时点击即取消
+        if (expansions?.has(node.id)) onExpand(node.id, node.message);
+        else setAiMenuId(node.id);
         return;
       }
 
-      if (mouseX >= node.x && mouseX <= node.x + CARD_W && mouseY >= node.y && mouseY <= node.y + CARD_H) {
-        if (e.altKey) {
-          onDelete(node.id);
-        } else {
-          const newMsg = prompt("修改文本:", node.message);
-          if (newMsg) onEdit(node.id, newMsg);
-        }
+      const toggleShown = level === 'full' || (level === 'reduced' && node.hiddenCount > 0);
+      if (toggleShown && hasToggle(node) && Math.abs(mouseX - buttons.toggle.x) < 16 && Math.abs(mouseY - buttons.toggle.y) < 10) {
+        onToggleCollapse(node.id);
+        return;
+      }
+
+      if (mouseX >= node.x && mouseX <= node.x + CARD_W && mouseY >= node.y && mouseY <= node.y + node.height) {
+        if (e.altKey) onDelete([node.id]);
+        else if (e.shiftKey || e.ctrlKey || e.metaKey) toggleSelected(node.id);
+        else onSelect(node.id);
+        return;
+      }
+    }
+    if (!e.shiftKey) onSelect(null);
+  };
+
+  // 双击卡片就地编辑文本
+  const handleDoubleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const point = toMapPoint(e);
+    const node = point && hitCard(point.x, point.y);
+    if (node) onEditStart(node.id);
+  };
+
+  // ---------- 视口控制 ----------
+
+  const applyTransform = (t: ViewTransform, animate = true) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !zoomRef.current) return;
+    const next = d3.zoomIdentity.translate(t.x, t.y).scale(t.k);
+    if (animate) d3.select(canvas).transition().duration(350).call(zoomRef.current.transform, next);
+    else d3.select(canvas).call(zoomRef.current.transform, next);
+  };
+
+  // 节点居中，缩放过小时同时放大
+  const centerOn = (node: RenderNode) => {
+    const k = clampScale(Math.max(transform.k, FOCUS_MIN_SCALE));
+    applyTransform(centerTransform(node.x + CARD_W / 2, node.y + node.height / 2, k, viewport.width, viewport.height));
+  };
+
+  const zoomBy = (factor: number) => {
+    const canvas = canvasRef.current;
+    if (canvas && zoomRef.current) d3.select(canvas).transition().duration(200).call(zoomRef.current.scaleBy, factor);
+  };
+
+  const fitView = () => {
+    if (renderNodes.length) applyTransform(fitTransform(getMapBounds(renderNodes), viewport.width, viewport.height));
+  };
+
+  // 布局原点按单位变换设计，重置后与首次打开时一致
+  const resetView = () => applyTransform({ x: 0, y: 0, k: 1 });
+
+  const zoomToSelection = () => {
+    const node = selectedId ? renderNodes.find(n => n.id === selectedId) : undefined;
+    if (node) centerOn(node);
+  };
+
+  const navigateTo = (x: number, y: number) => {
+    applyTransform(centerTransform(x, y, transform.k, viewport.width, viewport.height), false);
+  };
+
+  // 进入或退出聚焦后布局整体变化，等新布局生成后再把该节点居中
+  const pendingCenterRef = useRef<string | null>(null);
+  const toggleFocus = (id: string | null) => {
+    const next = id && id !== focusRootId ? id : null;
+    pendingCenterRef.current = next ?? focusRootId;
+    setFocusRootId(next);
+  };
+
+  useEffect(() => {
+    const id = pendingCenterRef.current;
+    const node = id ? renderNodes.find(n => n.id === id) : undefined;
+    if (!node) return;
+    pendingCenterRef.current = null;
+    centerOn(node);
+  }, [renderNodes]);
+
+  const handleSearchChange = (query: string) => {
+    setSearchQuery(query);
+    setActiveMatch(0);
+  };
+
+  const stepMatch = (delta: number) => {
+    const total = search.matches.length;
+    if (total) setActiveMatch(index => (Math.min(index, total - 1) + delta + total) % total);
+  };
+
+  const closeSearch = () => {
+    handleSearchChange('');
+    treeRef.current?.focus({ preventScroll: true });
+  };
+
+  // 当前结果变化后平移并放大到该节点；位于折叠分支内时先请求展开祖先，布局更新后再定位
+  const pendingMatchRef = useRef<string | null>(null);
+  useEffect(() => {
+    pendingMatchRef.current = activeMatchId;
+  }, [activeMatchId]);
+
+  useEffect(() => {
+    const id = pendingMatchRef.current;
+    if (!id) return;
+    const node = renderNodes.find(n => n.id === id);
+    if (!node) {
+      onReveal(id);
+      return;
+    }
+    pendingMatchRef.current = null;
+    centerOn(node);
+  }, [activeMatchId, renderNodes, onReveal]);
+
+  // Ctrl/Cmd+F 打开导图搜索（导图标签页隐藏时不拦截）
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'f') return;
+      if (!containerRef.current?.offsetParent) return;
+      e.preventDefault();
+      searchInputRef.current?.focus();
+      searchInputRef.current?.select();
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // ---------- 键盘操作：焦点即选中节点 ----------
+
+  // 选中节点移出视口时平移画布
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const node = selectedId ? renderNodesRef.current.find(n => n.id === selectedId) : undefined;
+    if (!canvas || !container || !node || !zoomRef.current) return;
+    const t = d3.zoomTransform(canvas);
+    const left = t.x + node.x * t.k;
+    const top = t.y + node.y * t.k;
+    const margin = 40;
+    if (left >= margin && top >= margin && left + CARD_W * t.k <= container.clientWidth - margin && top + node.height * t.k <= container.clientHeight - margin) return;
+    zoomRef.current.translateTo(d3.select(canvas), node.x + CARD_W / 2, node.y + node.height / 2);
+  }, [selectedId, renderNodes]);
+
+  // 结束就地编辑后把焦点还给导图，便于继续用键盘操作
+  const wasEditingRef = useRef(false);
+  useEffect(() => {
+    if (wasEditingRef.current && !editingId) treeRef.current?.focus({ preventScroll: true });
+    wasEditingRef.current = !!editingId;
+  }, [editingId]);
+
+  // 通过键盘进入时默认选中根节点，鼠标点击则由 handleClick 决定
+  const handleTreeFocus = (e: React.FocusEvent<HTMLDivElement>) => {
+    if (!selectedId && e.currentTarget.matches(':focus-visible')) onSelect(data.id);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if ((e.ctrlKey || e.metaKey) && !e.altKey && e.key.toLowerCase() === 'a') {
+      e.preventDefault();
+      const ids = renderNodesRef.current.map(n => n.id);
+      // 保持当前节点为主选中
+      onSelectionChange(selectedId ? [...ids.filter(id => id !== selectedId), selectedId] : ids);
+      return;
+    }
+    // 其余 Ctrl / Cmd 组合键留给撤销、重做、剪贴板等全局快捷键
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    const focusId = selectedId && findNode(viewData, selectedId) ? selectedId : null;
+
+    if (e.key === 'Escape' && (pickMode || selectedIds.length > 1)) {
+      e.preventDefault();
+      if (pickMode) onPick(null);
+      else onSelect(focusId);
+      return;
+    }
+    // Shift+↑ / ↓ 把导航到的节点加入选择
+    if (e.shiftKey && focusId && (e.key === 'ArrowUp' || e.key === 'ArrowDown')) {
+      e.preventDefault();
+      const next = navigate(viewData, focusId, e.key).focus;
+      if (next) onSelectionChange([...selectedIds.filter(id => id !== next), next]);
+      return;
+    }
+
+    if (isNavigationKey(e.key)) {
+      e.preventDefault();
+      if (!focusId) {
+        onSelect(viewData.id);
         return;
       }
+      const result = navigate(viewData, focusId, e.key);
+      if (result.toggle) onToggleCollapse(focusId);
+      if (result.focus) onSelect(result.focus);
+      return;
+    }
+    if (e.key === '?') {
+      setIsHelpOpen(open => !open);
+      return;
+    }
+    if (e.key === '+' || e.key === '=' || e.key === '-') {
+      e.preventDefault();
+      zoomBy(e.key === '-' ? 1 / ZOOM_STEP : ZOOM_STEP);
+      return;
+    }
+    if (e.key === '0') {
+      e.preventDefault();
+      fitView();
+      return;
+    }
+    // 没有选中节点时 Tab 等按键保持浏览器默认行为
+    if (!focusId) return;
+    const node = findNode(viewData, focusId)!;
+
+    switch (e.key) {
+      case 'Tab':
+        if (e.shiftKey) return;
+        e.preventDefault();
+        onCreateNode(focusId, 'child');
+        break;
+      case 'Enter':
+        e.preventDefault();
+        onCreateNode(focusId, 'sibling');
+        break;
+      case 'F2':
+        e.preventDefault();
+        onEditStart(focusId);
+        break;
+      case 'Delete':
+      case 'Backspace':
+        if (selectedIds.length > 1) {
+          e.preventDefault();
+          onDelete(selectedIds);
+          onSelect(null);
+          break;
+        }
+        if (focusId === data.id) return;
+        e.preventDefault();
+        onSelect(getFocusAfterDelete(viewData, focusId));
+        onDelete([focusId]);
+        break;
+      case ' ':
+        e.preventDefault();
+        if (node.children.length > 0) onToggleCollapse(focusId);
+        break;
+      case 'e':
+      case 'E':
+        e.preventDefault();
+        if (e.shiftKey) setAiMenuId(focusId);
+        else onExpand(focusId, node.message);
+        break;
+      case '.':
+        e.preventDefault();
+        zoomToSelection();
+        break;
+      case 'f':
+      case 'F':
+        e.preventDefault();
+        toggleFocus(focusId);
+        break;
+      case 'Escape':
+        onSelect(null);
+        break;
     }
   };
 
   return (
     <div ref={containerRef} className="w-full h-full bg-[#f8fafc] relative overflow-hidden">
-      <canvas 
-        ref={canvasRef} 
-        onClick={handleClick} 
-        className="block cursor-grab active:cursor-grabbing touch-none" 
-      />
-      <div className="absolute top-6 left-6 pointer-events-none">
+      <div
+        ref={treeRef}
+        role="tree"
+        tabIndex={0}
+        aria-label={`思维导图：${data.message}。按问号键查看快捷键`}
+        aria-multiselectable="true"
+        aria-activedescendant={selectedId && findNode(viewData, selectedId) ? treeItemId(selectedId) : undefined}
+        onKeyDown={handleKeyDown}
+        onFocus={handleTreeFocus}
+        className="absolute inset-0 outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-indigo-300"
+      >
+        <canvas 
+          ref={canvasRef} 
+          aria-hidden="true"
+          onMouseDown={handleMouseDown}
+          onClick={handleClick} 
+          onDoubleClick={handleDoubleClick}
+          onMouseMove={onPointerMove && (e => onPointerMove(toMapPoint(e)))}
+          onMouseLeave={onPointerMove && (() => onPointerMove(null))}
+          className={`block touch-none ${pickMode ? 'cursor-crosshair' : 'cursor-grab active:cursor-grabbing'}`}
+        />
+        <AccessibleTreeItems root={viewData} activeId={selectedId} selected={selectedSet} />
+      </div>
+      <div aria-live="polite" className="sr-only">{announcement}</div>
+      {peers?.map(peer => peer.cursor && peer.layout === layout && (
+        <div
+          key={peer.clientId}
+          aria-hidden="true"
+          style={{ left: peer.cursor.x * transform.k + transform.x, top: peer.cursor.y * transform.k + transform.y }}
+          className="absolute z-20 pointer-events-none transition-[left,top] duration-75"
+        >
+          <svg width="14" height="18" viewBox="0 0 14 18" className="drop-shadow">
+            <path d="M1 1 L1 15 L5 11 L8 17 L10 16 L7 10 L13 10 Z" fill={peer.color} stroke="white" strokeWidth="1.2" strokeLinejoin="round" />
+          </svg>
+          <span style={{ backgroundColor: peer.color, color: getContrastText(peer.color) }} className="absolute left-3 top-4 px-1.5 py-0.5 rounded text-[10px] font-bold whitespace-nowrap shadow-sm">
+            {peer.name}
+          </span>
+        </div>
+      ))}
+      {editingNode && (
+        <InlineEditor
+          key={editingNode.id}
+          node={editingNode}
+          transform={transform}
+          onCommit={(text, next) => onEditCommit(editingNode.id, text, next)}
+          onCancel={onEditCancel}
+        />
+      )}
+      {aiMenuNode && aiMenuButton && (
+        <NodeAIMenu
+          root={data}
+          nodeId={aiMenuNode.id}
+          position={{ x: aiMenuButton.x * transform.k + transform.x, y: aiMenuButton.y * transform.k + transform.y }}
+          onExpand={() => onExpand(aiMenuNode.id, aiMenuNode.message)}
+          onAction={(kind) => onNodeAction(aiMenuNode.id, kind)}
+          onClose={closeAiMenu}
+        />
+      )}
+      <div className="absolute top-6 left-6">
         <div className="bg-white/80 backdrop-blur-md px-4 py-3 rounded-2xl border border-slate-200 shadow-sm space-y-2">
-          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">布局说明 (Mixed Layout)</p>
-          <div className="flex items-center gap-4 text-[11px] font-semibold text-slate-600">
-            <span className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-full bg-indigo-600"></div> L1: 横向</span>
-            <span className="flex items-center gap-1.5"><div className="w-2.5 h-2.5 rounded-full bg-emerald-500"></div> L2+: 阶梯</span>
+          <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">布局 ({engine.label})</p>
+          <div className="flex items-center gap-1">
+            {Object.values(LAYOUT_ENGINES).map(item => (
+              <button
+                key={item.id}
+                onClick={() => onLayoutChange(item.id)}
+                title={item.description}
+                className={`px-2.5 py-1 rounded-lg text-[11px] font-semibold transition-all ${item.id === engine.id ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {item.label}
+              </button>
+            ))}
           </div>
+          <p className="text-[10px] text-slate-400 font-medium">{engine.description}</p>
+          <div className="flex items-center gap-1 pt-1 border-t border-slate-100">
+            <span className="text-[10px] font-bold text-slate-400 mr-1">折叠到</span>
+            {COLLAPSE_LEVELS.map(level => (
+              <button
+                key={level}
+                onClick={() => onCollapseToLevel(level)}
+                className="px-2 py-0.5 rounded-md text-[11px] font-semibold text-slate-500 hover:bg-slate-100 transition-all"
+              >
+                L{level}
+              </button>
+            ))}
+            <button onClick={onExpandAll} className="ml-1 px-2 py-0.5 rounded-md text-[11px] font-semibold text-indigo-600 hover:bg-indigo-50 transition-all">
+              全部展开
+            </button>
+          </div>
+          <button
+            onClick={() => setIsHelpOpen(!isHelpOpen)}
+            aria-expanded={isHelpOpen}
+            className="w-full text-left pt-1 border-t border-slate-100 text-[10px] font-bold text-slate-400 hover:text-slate-600"
+          >
+            ⌨ 键盘快捷键 (?)
+          </button>
+          {isHelpOpen && (
+            <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-[10px]">
+              {SHORTCUTS.map(([keys, action]) => (
+                <React.Fragment key={keys}>
+                  <dt className="font-mono font-bold text-slate-600">{keys}</dt>
+                  <dd className="text-slate-500">{action}</dd>
+                </React.Fragment>
+              ))}
+            </dl>
+          )}
         </div>
       </div>
       
+      <div className="absolute top-6 left-1/2 -translate-x-1/2 z-10">
+        <SearchBar
+          inputRef={searchInputRef}
+          query={searchQuery}
+          onQueryChange={handleSearchChange}
+          mode={searchMode}
+          onModeChange={setSearchMode}
+          total={search.matches.length}
+          activeIndex={Math.min(activeMatch, Math.max(0, search.matches.length - 1))}
+          onStep={stepMatch}
+          onClose={closeSearch}
+        />
+      </div>
+
+      {focusRoot && (
+        <div className="absolute top-20 left-1/2 -translate-x-1/2 z-10 flex items-center gap-3 bg-indigo-600 text-white rounded-full pl-4 pr-1.5 py-1.5 shadow-lg">
+          <span className="text-[11px] font-bold max-w-[16rem] truncate">聚焦：{focusRoot.message}</span>
+          <button onClick={() => toggleFocus(null)} className="px-3 py-1 bg-white/20 hover:bg-white/30 text-[10px] font-bold rounded-full transition-all">
+            退出聚焦 (F)
+          </button>
+        </div>
+      )}
+
+      <div className="absolute bottom-6 left-6 bg-white/80 backdrop-blur-md rounded-2xl border border-slate-200 shadow-sm overflow-hidden">
+        <div className="flex items-center gap-0.5 px-1.5 py-1 border-b border-slate-100">
+          {[
+            { label: '+', title: '放大 (+)', onClick: () => zoomBy(ZOOM_STEP) },
+            { label: '−', title: '缩小 (-)', onClick: () => zoomBy(1 / ZOOM_STEP) },
+            { label: '⤢', title: '适应窗口 (0)', onClick: fitView },
+            { label: '1:1', title: '重置视图', onClick: resetView },
+            { label: '◎', title: '定位到选中节点 (.)', onClick: zoomToSelection, disabled: !selectedId },
+            { label: '⊙', title: focusRoot ? '退出聚焦 (F)' : '聚焦选中节点的分支 (F)', onClick: () => toggleFocus(focusRoot ? null : selectedId), disabled: !focusRoot && !selectedId, active: !!focusRoot },
+          ].map(control => (
+            <button
+              key={control.title}
+              onClick={control.onClick}
+              disabled={control.disabled}
+              title={control.title}
+              aria-label={control.title}
+              aria-pressed={control.active}
+              className={`min-w-[1.75rem] h-7 px-1 rounded-lg text-xs font-bold transition-all disabled:opacity-30 ${control.active ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+            >
+              {control.label}
+            </button>
+          ))}
+          <span className="ml-auto pl-1 text-[10px] font-mono text-slate-400">{Math.round(transform.k * 100)}%</span>
+        </div>
+        <Minimap nodes={renderNodes} transform={transform} viewport={viewport} selectedId={selectedId} onNavigate={navigateTo} />
+      </div>
+
       <div className="absolute bottom-6 right-6 flex items-center gap-2 px-3 py-1.5 bg-slate-100/80 backdrop-blur rounded-full text-[10px] text-slate-400 font-mono">
         <span>Canvas Resolution: {(getDpr()).toFixed(1)}x</span>
       </div>
@@ -0,0 +1,124 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { CARD_W, RenderNode } from '../utils/layout';
+import { MapBounds, getCardStyle, getMapBounds } from '../utils/mapRenderer';
+import { ViewTransform, getViewportBounds } from '../utils/viewport';
+
+interface MinimapProps {
+  nodes: RenderNode[];
+  transform: ViewTransform;
+  viewport: { width: number; height: number };
+  selectedId: string | null;
+  onNavigate: (x: number, y: number) => void; // 把地图坐标 (x, y) 移到视口中心
+}
+
+const WIDTH = 224;
+const HEIGHT = 144;
+const PADDING = 8;
+
+// 全图缩略：卡片按所在层级的填充色绘制为色块，矩形框为当前视口，可点击或拖动跳转
+const Minimap: React.FC<MinimapProps> = ({ nodes, transform, viewport, selectedId, onNavigate }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  // 节点层在布局变化时才重绘，平移缩放时只叠加视口框
+  const layerRef = useRef<HTMLCanvasElement | null>(null);
+  const dpr = typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+
+  const { bounds, scale, offsetX, offsetY } = useMemo(() => {
+    const b: MapBounds = nodes.length ? getMapBounds(nodes) : { minX: 0, minY: 0, maxX: 1, maxY: 1 };
+    const s = Math.min((WIDTH - PADDING * 2) / (b.maxX - b.minX), (HEIGHT - PADDING * 2) / (b.maxY - b.minY));
+    return {
+      bounds: b,
+      scale: s,
+      offsetX: (WIDTH - (b.maxX - b.minX) * s) / 2,
+      offsetY: (HEIGHT - (b.maxY - b.minY) * s) / 2,
+    };
+  }, [nodes]);
+
+  const toMini = (x: number, y: number) => ({ x: offsetX + (x - bounds.minX) * scale, y: offsetY + (y - bounds.minY) * scale });
+  const toMap = (x: number, y: number) => ({ x: bounds.minX + (x - offsetX) / scale, y: bounds.minY + (y - offsetY) / scale });
+
+  useEffect(() => {
+    const layer = layerRef.current ?? document.createElement('canvas');
+    layerRef.current = layer;
+    layer.width = WIDTH * dpr;
+    layer.height = HEIGHT * dpr;
+    const ctx = layer.getContext('2d');
+    if (!ctx) return;
+    ctx.scale(dpr, dpr);
+    nodes.forEach(node => {
+      const style = getCardStyle(node.depth, node.color);
+      const p = toMini(node.x, node.y);
+      ctx.fillStyle = style.border && !node.color ? '#cbd5e1' : style.fill;
+      ctx.fillRect(p.x, p.y, Math.max(1.5, CARD_W * scale), Math.max(1.5, node.height * scale));
+    });
+  }, [nodes, bounds, scale, offsetX, offsetY, dpr]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || !layerRef.current) return;
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(layerRef.current, 0, 0);
+    ctx.scale(dpr, dpr);
+
+    const selected = selectedId ? nodes.find(n => n.id === selectedId) : undefined;
+    if (selected) {
+      const p = toMini(selected.x, selected.y);
+      ctx.strokeStyle = '#6366f1';
+      ctx.lineWidth = 1.5;
+      ctx.strokeRect(p.x - 1.5, p.y - 1.5, CARD_W * scale + 3, selected.height * scale + 3);
+    }
+
+    const view = getViewportBounds(transform, viewport.width, viewport.height);
+    const a = toMini(view.minX, view.minY);
+    const b = toMini(view.maxX, view.maxY);
+    ctx.fillStyle = 'rgba(99, 102, 241, 0.08)';
+    ctx.fillRect(a.x, a.y, b.x - a.x, b.y - a.y);
+    ctx.strokeStyle = '#6366f1';
+    ctx.lineWidth = 1;
+    ctx.strokeRect(a.x, a.y, b.x - a.x, b.y - a.y);
+  });
+
+  // 在视口框内按下时保持指针与框中心的偏移，框外按下则直接跳转
+  const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas || e.button !== 0) return;
+    e.preventDefault();
+    const pointAt = (ev: { clientX: number; clientY: number }) => {
+      const rect = canvas.getBoundingClientRect();
+      return toMap(ev.clientX - rect.left, ev.clientY - rect.top);
+    };
+    const view = getViewportBounds(transform, viewport.width, viewport.height);
+    const start = pointAt(e);
+    const inside = start.x >= view.minX && start.x <= view.maxX && start.y >= view.minY && start.y <= view.maxY;
+    const dx = inside ? (view.minX + view.maxX) / 2 - start.x : 0;
+    const dy = inside ? (view.minY + view.maxY) / 2 - start.y : 0;
+    if (!inside) onNavigate(start.x, start.y);
+
+    const onMouseMove = (ev: MouseEvent) => {
+      const p = pointAt(ev);
+      onNavigate(p.x + dx, p.y + dy);
+    };
+    const onMouseUp = () => {
+      window.removeEventListener('mousemove', onMouseMove);
+      window.removeEventListener('mouseup', onMouseUp);
+    };
+    window.addEventListener('mousemove', onMouseMove);
+    window.addEventListener('mouseup', onMouseUp);
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={WIDTH * dpr}
+      height={HEIGHT * dpr}
+      onMouseDown={handleMouseDown}
+      aria-hidden="true"
+      title="全图概览：点击或拖动视口框跳转"
+      className="block cursor-pointer"
+      style={{ width: WIDTH, height: HEIGHT }}
+    />
+  );
+};
+
+export default Minimap;
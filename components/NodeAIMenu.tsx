@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { Card, NodeActionKind } from '../types';
+import { NODE_ACTIONS, NODE_ACTION_ORDER, canRunNodeAction } from '../utils/nodeActions';
+
+interface NodeAIMenuProps {
+  root: Card;
+  nodeId: string;
+  position: { x: number; y: number }; // 相对画布容器的屏幕坐标，即 AI 按钮的位置
+  onExpand: () => void;
+  onAction: (kind: NodeActionKind) => void;
+  onClose: () => void;
+}
+
+const itemClass = 'w-full text-left px-3 py-1.5 rounded-lg hover:bg-indigo-50 disabled:opacity-35 disabled:pointer-events-none';
+
+// 点击卡片上的 AI 按钮弹出的操作菜单
+const NodeAIMenu: React.FC<NodeAIMenuProps> = ({ root, nodeId, position, onExpand, onAction, onClose }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    ref.current?.querySelector('button')?.focus();
+    const onPointerDown = (e: PointerEvent) => {
+      if (!ref.current?.contains(e.target as Node)) onClose();
+    };
+    window.addEventListener('pointerdown', onPointerDown, true);
+    return () => window.removeEventListener('pointerdown', onPointerDown, true);
+  }, [onClose]);
+
+  const run = (action: () => void) => {
+    onClose();
+    action();
+  };
+
+  return (
+    <div
+      ref={ref}
+      role="menu"
+      aria-label="AI 操作"
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === 'Escape') onClose();
+        if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+          e.preventDefault();
+          const items: HTMLButtonElement[] = ref.current ? Array.from(ref.current.querySelectorAll<HTMLButtonElement>('button:not(:disabled)')) : [];
+          const index = items.indexOf(document.activeElement as HTMLButtonElement);
+          items[(index + (e.key === 'ArrowDown' ? 1 : items.length - 1)) % items.length]?.focus();
+        }
+      }}
+      style={{ left: position.x + 14, top: position.y - 14 }}
+      className="absolute z-30 w-48 bg-white border border-slate-200 rounded-xl shadow-xl p-1.5 text-[12px] text-slate-700"
+    >
+      <button role="menuitem" onClick={() => run(onExpand)} className={itemClass}>
+        <span className="font-bold">扩展子节点</span>
+        <span className="block text-[10px] text-slate-400">由 AI 补充新的子主题</span>
+      </button>
+      {NODE_ACTION_ORDER.map(kind => (
+        <button key={kind} role="menuitem" onClick={() => run(() => onAction(kind))} disabled={!canRunNodeAction(root, nodeId, kind)} className={itemClass}>
+          <span className="font-bold">{NODE_ACTIONS[kind].label}</span>
+          <span className="block text-[10px] text-slate-400">{NODE_ACTIONS[kind].description}</span>
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default NodeAIMenu;
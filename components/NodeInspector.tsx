@@ -0,0 +1,225 @@
+import React, { useEffect, useState } from 'react';
+import { Card, NodePriority, NodeStatus, SourceDocument } from '../types';
+import { NODE_COLORS, NODE_STATUS_INFO, NodeFields, PRIORITY_INFO, normalizeTags } from '../utils/nodeFields';
+import { renderMarkdown } from '../utils/markdown';
+import { findPassage } from '../utils/sources';
+
+interface NodeInspectorProps {
+  node: Card;
+  sources: SourceDocument[]; // 当前导图导入过的原文，用于显示节点链接的段落
+  onChange: (patch: Partial<NodeFields> & { message?: string }) => void;
+  onClose: () => void;
+}
+
+const ICON_SUGGESTIONS = ['💡', '⭐', '🎯', '📌', '⚠️', '✅', '❓', '🔥', '📚', '🚀'];
+
+const Label: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <label className="block text-[10px] font-bold text-slate-400 uppercase tracking-widest mb-2">{children}</label>
+);
+
+const inputClass = 'w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none text-xs text-slate-700';
+
+// 文本类字段在失焦时提交，一次编辑只产生一条撤销记录；选择类字段立即提交。
+// 父组件以节点 id 作为 key，切换节点时草稿与预览状态一并重置。
+const NodeInspector: React.FC<NodeInspectorProps> = ({ node, sources, onChange, onClose }) => {
+  const [message, setMessage] = useState(node.message);
+  const [notes, setNotes] = useState(node.notes || '');
+  const [url, setUrl] = useState(node.url || '');
+  const [tagInput, setTagInput] = useState('');
+  const [isPreview, setIsPreview] = useState(false);
+  const [openPassage, setOpenPassage] = useState<string | null>(null);
+  const tags = node.tags || [];
+  // 原文更新后不再存在的段落只计数
+  const passages = (node.sources || []).map(id => findPassage(sources, id)).filter((p): p is NonNullable<typeof p> => p !== null);
+  const missingPassages = (node.sources || []).length - passages.length;
+
+  // 撤销/重做等外部修改时同步草稿
+  useEffect(() => setMessage(node.message), [node.message]);
+  useEffect(() => setNotes(node.notes || ''), [node.notes]);
+  useEffect(() => setUrl(node.url || ''), [node.url]);
+
+  const commitText = (key: 'message' | 'notes' | 'url', value: string) => {
+    const current = key === 'message' ? node.message : node[key] || '';
+    if (value === current) return;
+    if (key === 'message' && !value.trim()) {
+      setMessage(node.message);
+      return;
+    }
+    onChange({ [key]: key === 'url' ? value.trim() : value });
+  };
+
+  const addTags = () => {
+    const next = normalizeTags([...tags, ...tagInput.split(/[,，\s]+/)]);
+    setTagInput('');
+    if (next.length !== tags.length) onChange({ tags: next });
+  };
+
+  return (
+    <aside className="absolute top-0 right-0 bottom-0 w-80 bg-white border-l border-slate-200 shadow-2xl z-30 flex flex-col">
+      <div className="px-5 py-4 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+        <div>
+          <h3 className="text-sm font-black text-slate-800 tracking-tight">节点详情</h3>
+          <p className="text-[10px] text-slate-400 font-mono">{node.id}</p>
+        </div>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-5">
+        <div>
+          <Label>文本</Label>
+          <div className="flex gap-2">
+            <input
+              value={node.icon || ''}
+              onChange={(e) => onChange({ icon: Array.from(e.target.value.trim()).slice(0, 8).join('') })}
+              placeholder="🙂"
+              title="图标（emoji）"
+              className={`${inputClass} w-12 text-center px-1`}
+            />
+            <input
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              onBlur={() => commitText('message', message)}
+              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              className={`${inputClass} flex-1 font-bold`}
+            />
+          </div>
+          <div className="flex flex-wrap gap-1 mt-2">
+            {ICON_SUGGESTIONS.map(icon => (
+              <button key={icon} onClick={() => onChange({ icon: node.icon === icon ? undefined : icon })} className={`w-7 h-7 rounded-lg text-sm transition-all ${node.icon === icon ? 'bg-indigo-100' : 'hover:bg-slate-100'}`}>
+                {icon}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <Label>颜色</Label>
+          <div className="flex flex-wrap items-center gap-1.5">
+            <button
+              onClick={() => onChange({ color: undefined })}
+              title="默认"
+              className={`w-6 h-6 rounded-full border-2 bg-white text-[10px] text-slate-400 ${!node.color ? 'border-indigo-500' : 'border-slate-200'}`}
+            >
+              ∅
+            </button>
+            {NODE_COLORS.map(color => (
+              <button
+                key={color}
+                onClick={() => onChange({ color })}
+                style={{ backgroundColor: color }}
+                className={`w-6 h-6 rounded-full border-2 transition-all ${node.color === color ? 'border-slate-900 scale-110' : 'border-white'}`}
+              />
+            ))}
+            <input type="color" value={node.color || '#ffffff'} onChange={(e) => onChange({ color: e.target.value })} title="自定义颜色" className="w-6 h-6 rounded cursor-pointer" />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label>优先级</Label>
+            <select
+              value={node.priority ?? ''}
+              onChange={(e) => onChange({ priority: e.target.value ? (Number(e.target.value) as NodePriority) : undefined })}
+              className={inputClass}
+            >
+              <option value="">无</option>
+              {(Object.keys(PRIORITY_INFO) as unknown as NodePriority[]).map(p => <option key={p} value={p}>{PRIORITY_INFO[p].label}</option>)}
+            </select>
+          </div>
+          <div>
+            <Label>状态</Label>
+            <select
+              value={node.status ?? ''}
+              onChange={(e) => onChange({ status: (e.target.value || undefined) as NodeStatus | undefined })}
+              className={inputClass}
+            >
+              <option value="">无</option>
+              {(Object.keys(NODE_STATUS_INFO) as NodeStatus[]).map(s => <option key={s} value={s}>{NODE_STATUS_INFO[s].glyph} {NODE_STATUS_INFO[s].label}</option>)}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <Label>标签</Label>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {tags.map(tag => (
+              <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-full text-[11px] font-bold">
+                #{tag}
+                <button onClick={() => onChange({ tags: tags.filter(t => t !== tag) })} className="text-indigo-300 hover:text-indigo-600">×</button>
+              </span>
+            ))}
+          </div>
+          <input
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addTags(); } }}
+            onBlur={() => tagInput.trim() && addTags()}
+            placeholder="输入标签后回车，逗号分隔多个"
+            className={inputClass}
+          />
+        </div>
+
+        <div>
+          <Label>链接</Label>
+          <div className="flex gap-2">
+            <input
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onBlur={() => commitText('url', url)}
+              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              placeholder="https://"
+              className={`${inputClass} flex-1 font-mono`}
+            />
+            {node.url && /^https?:/i.test(node.url) && (
+              <a href={node.url} target="_blank" rel="noreferrer" className="px-3 flex items-center bg-slate-100 rounded-xl text-xs text-slate-500 hover:bg-slate-200">↗</a>
+            )}
+          </div>
+        </div>
+
+        {(node.sources || []).length > 0 && (
+          <div>
+            <Label>原文</Label>
+            <div className="space-y-2">
+              {passages.map(({ source, passage }) => (
+                <button
+                  key={passage.id}
+                  onClick={() => setOpenPassage(openPassage === passage.id ? null : passage.id)}
+                  title={openPassage === passage.id ? '收起' : '展开全文'}
+                  className="w-full text-left px-3 py-2 bg-amber-50/60 border-l-2 border-amber-300 rounded-r-lg hover:bg-amber-50"
+                >
+                  <span className="block text-[10px] font-bold text-amber-700 mb-0.5">{source.name}</span>
+                  <span className={`block text-[11px] text-slate-600 leading-relaxed whitespace-pre-wrap ${openPassage === passage.id ? '' : 'line-clamp-3'}`}>{passage.text}</span>
+                </button>
+              ))}
+              {missingPassages > 0 && <p className="text-[10px] text-slate-400">另有 {missingPassages} 段原文已不在最新导入的版本中</p>}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <Label>备注 (Markdown)</Label>
+            <button onClick={() => setIsPreview(!isPreview)} className="text-[10px] font-bold text-indigo-600 hover:underline mb-2">
+              {isPreview ? '编辑' : '预览'}
+            </button>
+          </div>
+          {isPreview ? (
+            <div className="min-h-[12rem] px-3 py-2 bg-slate-50 rounded-xl text-xs text-slate-700 leading-relaxed space-y-2">
+              {notes.trim() ? renderMarkdown(notes) : <p className="text-slate-400">暂无备注</p>}
+            </div>
+          ) : (
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={() => commitText('notes', notes)}
+              placeholder={'支持 **粗体**、列表、`代码` 与 [链接](https://...)'}
+              className={`${inputClass} h-48 font-mono leading-relaxed resize-y`}
+            />
+          )}
+        </div>
+      </div>
+    </aside>
+  );
+};
+
+export default NodeInspector;
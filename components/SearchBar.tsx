@@ -0,0 +1,72 @@
+import React from 'react';
+import { SEARCH_MODES, SearchMode } from '../utils/search';
+
+interface SearchBarProps {
+  inputRef: React.RefObject<HTMLInputElement>;
+  query: string;
+  onQueryChange: (query: string) => void;
+  mode: SearchMode;
+  onModeChange: (mode: SearchMode) => void;
+  total: number;
+  activeIndex: number;
+  onStep: (delta: number) => void;
+  onClose: () => void;
+}
+
+// 画布顶部的搜索栏：Enter / Shift+Enter 在结果间跳转，Esc 清空并回到导图
+const SearchBar: React.FC<SearchBarProps> = ({ inputRef, query, onQueryChange, mode, onModeChange, total, activeIndex, onStep, onClose }) => {
+  const hasQuery = query.trim().length > 0;
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.nativeEvent.isComposing) return;
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      onStep(e.shiftKey ? -1 : 1);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div role="search" className="flex items-center gap-2 bg-white/90 backdrop-blur-md border border-slate-200 shadow-sm rounded-2xl pl-3 pr-1.5 py-1.5">
+      <span className="text-slate-400 text-xs">⌕</span>
+      <input
+        ref={inputRef}
+        value={query}
+        onChange={(e) => onQueryChange(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="搜索节点、备注或标签 (Ctrl+F)"
+        aria-label="搜索节点"
+        className="w-56 bg-transparent outline-none text-xs text-slate-700 placeholder:text-slate-400"
+      />
+      {hasQuery && (
+        <>
+          <span aria-live="polite" className={`text-[10px] font-mono font-bold whitespace-nowrap ${total ? 'text-slate-500' : 'text-rose-500'}`}>
+            {total ? `${activeIndex + 1} / ${total}` : '无结果'}
+          </span>
+          <div className="flex items-center">
+            <button onClick={() => onStep(-1)} disabled={!total} title="上一个 (Shift+Enter)" className="w-6 h-6 rounded-lg text-xs text-slate-500 hover:bg-slate-100 disabled:opacity-30">↑</button>
+            <button onClick={() => onStep(1)} disabled={!total} title="下一个 (Enter)" className="w-6 h-6 rounded-lg text-xs text-slate-500 hover:bg-slate-100 disabled:opacity-30">↓</button>
+          </div>
+          <div className="flex items-center gap-0.5 pl-1.5 border-l border-slate-100">
+            {(Object.keys(SEARCH_MODES) as SearchMode[]).map(id => (
+              <button
+                key={id}
+                onClick={() => onModeChange(id)}
+                title={SEARCH_MODES[id].description}
+                aria-pressed={id === mode}
+                className={`px-2 py-0.5 rounded-md text-[10px] font-semibold transition-all ${id === mode ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:bg-slate-100'}`}
+              >
+                {SEARCH_MODES[id].label}
+              </button>
+            ))}
+          </div>
+          <button onClick={onClose} title="清除搜索 (Esc)" className="w-6 h-6 rounded-lg text-xs text-slate-400 hover:bg-slate-100 hover:text-slate-600">✕</button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SearchBar;
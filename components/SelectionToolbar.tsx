@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { NODE_COLORS, normalizeTags } from '../utils/nodeFields';
+
+interface SelectionToolbarProps {
+  count: number;
+  tags: string[]; // 选中节点上已有标签的并集
+  isPickingTarget: boolean;
+  onExpand: () => void;
+  onPickTarget: () => void;
+  onColor: (color: string | undefined) => void;
+  onAddTags: (tags: string[]) => void;
+  onRemoveTag: (tag: string) => void;
+  onCopy: (format: 'json' | 'markdown') => void;
+  onCut: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+}
+
+type Popover = 'color' | 'tags' | null;
+
+const buttonClass = 'px-2.5 py-1 rounded-lg text-[11px] font-semibold text-slate-600 hover:bg-slate-100 transition-all whitespace-nowrap';
+
+// 多选时显示在画布底部的批量操作栏
+const SelectionToolbar: React.FC<SelectionToolbarProps> = ({
+  count, tags, isPickingTarget, onExpand, onPickTarget, onColor, onAddTags, onRemoveTag, onCopy, onCut, onDelete, onClear
+}) => {
+  const [popover, setPopover] = useState<Popover>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const togglePopover = (next: Popover) => setPopover(current => (current === next ? null : next));
+
+  const submitTags = () => {
+    const next = normalizeTags(tagInput.split(/[,，\s]+/));
+    setTagInput('');
+    if (next.length) onAddTags(next);
+  };
+
+  if (isPickingTarget) {
+    return (
+      <div className="flex items-center gap-3 bg-indigo-600 text-white rounded-2xl shadow-xl pl-4 pr-1.5 py-1.5">
+        <span className="text-[11px] font-bold">点击目标节点，把 {count} 个节点移到它下面</span>
+        <button onClick={onPickTarget} className="px-3 py-1 bg-white/20 hover:bg-white/30 text-[10px] font-bold rounded-lg">取消 (Esc)</button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="relative">
+      {popover === 'color' && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 flex items-center gap-1.5 bg-white border border-slate-200 rounded-xl shadow-xl p-2">
+          <button onClick={() => onColor(undefined)} title="默认" className="w-6 h-6 rounded-full border-2 border-slate-200 bg-white text-[10px] text-slate-400">∅</button>
+          {NODE_COLORS.map(color => (
+            <button key={color} onClick={() => onColor(color)} style={{ backgroundColor: color }} className="w-6 h-6 rounded-full border-2 border-white hover:scale-110 transition-all" />
+          ))}
+        </div>
+      )}
+      {popover === 'tags' && (
+        <div className="absolute bottom-full mb-2 left-1/2 -translate-x-1/2 w-72 bg-white border border-slate-200 rounded-xl shadow-xl p-3 space-y-2">
+          <input
+            autoFocus
+            value={tagInput}
+            onChange={(e) => setTagInput(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); submitTags(); } }}
+            placeholder="为所有选中节点添加标签，回车确认"
+            className="w-full px-3 py-2 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none text-xs"
+          />
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <button key={tag} onClick={() => onRemoveTag(tag)} title="从所有选中节点移除" className="inline-flex items-center gap-1 px-2 py-0.5 bg-indigo-50 text-indigo-700 rounded-full text-[11px] font-bold hover:bg-rose-50 hover:text-rose-600">
+                  #{tag} ×
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div role="toolbar" aria-label="批量操作" className="flex items-center gap-1 bg-white/95 backdrop-blur-md border border-slate-200 rounded-2xl shadow-xl px-2 py-1.5">
+        <span className="px-2 text-[11px] font-black text-indigo-600 whitespace-nowrap">已选 {count} 个</span>
+        <div className="w-px h-4 bg-slate-200" />
+        <button onClick={onExpand} className={buttonClass}>✨ AI 扩展</button>
+        <button onClick={onPickTarget} className={buttonClass}>移动到…</button>
+        <button onClick={() => togglePopover('color')} className={`${buttonClass} ${popover === 'color' ? 'bg-slate-100' : ''}`}>颜色</button>
+        <button onClick={() => togglePopover('tags')} className={`${buttonClass} ${popover === 'tags' ? 'bg-slate-100' : ''}`}>标签</button>
+        <div className="w-px h-4 bg-slate-200" />
+        <button onClick={() => onCopy('json')} title="复制为 JSON（保留全部字段）" className={buttonClass}>复制 JSON</button>
+        <button onClick={() => onCopy('markdown')} title="复制为 Markdown 大纲" className={buttonClass}>复制 Markdown</button>
+        <button onClick={onCut} title="剪切 (Ctrl+X)" className={buttonClass}>剪切</button>
+        <button onClick={onDelete} title="删除 (Delete)" className={`${buttonClass} text-rose-600 hover:bg-rose-50`}>删除</button>
+        <button onClick={onClear} title="取消选择 (Esc)" className="w-6 h-6 rounded-lg text-xs text-slate-400 hover:bg-slate-100">✕</button>
+      </div>
+    </div>
+  );
+};
+
+export default SelectionToolbar;
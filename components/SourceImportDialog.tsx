@@ -0,0 +1,146 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { SourceDocument } from '../types';
+import { chunkPassages, fetchSourceText, splitPassages } from '../utils/sources';
+
+export interface SourceImportRequest {
+  title: string;
+  text: string;
+  target: 'new' | 'merge'; // 新建导图，或合并到当前导图
+}
+
+interface SourceImportDialogProps {
+  sources: SourceDocument[]; // 当前导图已导入的原文
+  hasMap: boolean;
+  onSubmit: (request: SourceImportRequest) => void;
+  onClose: () => void;
+}
+
+const inputClass = 'w-full px-4 py-3 bg-slate-50 border-2 border-slate-100 rounded-xl focus:border-indigo-500 outline-none text-xs text-slate-700';
+
+const titleFromText = (text: string) => {
+  const line = text.split('\n').map(l => l.replace(/^#+\s*/, '').trim()).find(Boolean) ?? '';
+  return line.length > 40 ? `${line.slice(0, 40)}…` : line;
+};
+
+// 从粘贴的文本、.txt/.md 文件或网址生成导图；与当前导图已导入的原文同名时默认合并
+const SourceImportDialog: React.FC<SourceImportDialogProps> = ({ sources, hasMap, onSubmit, onClose }) => {
+  const [text, setText] = useState('');
+  const [title, setTitle] = useState('');
+  const [url, setUrl] = useState('');
+  const [target, setTarget] = useState<'new' | 'merge' | null>(null);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const name = title.trim() || titleFromText(text);
+  const previous = sources.find(s => s.name === name);
+  const effectiveTarget = hasMap ? target ?? (previous ? 'merge' : 'new') : 'new';
+  const stats = useMemo(() => {
+    const passages = splitPassages(text);
+    return { passages: passages.length, chunks: chunkPassages(passages).length };
+  }, [text]);
+
+  const load = (content: string, loadedTitle: string) => {
+    setText(content);
+    setTitle(loadedTitle);
+    setError(null);
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(await file.text(), file.name.replace(/\.[^.]+$/, ''));
+  };
+
+  const handleFetch = async () => {
+    if (!url.trim() || isFetching) return;
+    setIsFetching(true);
+    try {
+      const page = await fetchSourceText(url.trim());
+      load(page.text, page.title);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : '读取网址失败。');
+    } finally {
+      setIsFetching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] flex items-center justify-center p-6 bg-slate-900/40 backdrop-blur-sm">
+      <div className="bg-white w-full max-w-2xl rounded-3xl shadow-2xl overflow-hidden flex flex-col max-h-full">
+        <div className="px-8 py-6 border-b border-slate-100 bg-slate-50 flex items-center justify-between">
+          <div>
+            <h3 className="text-xl font-black text-slate-800 tracking-tight">从文档生成导图</h3>
+            <p className="text-xs text-slate-400 font-medium">会议记录、文章或 Markdown / 纯文本文件，节点会链接回原文段落</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">✕</button>
+        </div>
+
+        <div className="p-8 space-y-4 overflow-y-auto">
+          <div className="flex gap-2">
+            <input
+              type="url"
+              value={url}
+              onChange={(e) => setUrl(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleFetch()}
+              placeholder="https:// 读取网页正文"
+              className={`${inputClass} flex-1 font-mono`}
+            />
+            <button onClick={handleFetch} disabled={!url.trim() || isFetching} className="px-4 rounded-xl bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200 disabled:opacity-40">
+              {isFetching ? '读取中…' : '读取'}
+            </button>
+            <button onClick={() => fileInputRef.current?.click()} className="px-4 rounded-xl bg-slate-100 text-xs font-bold text-slate-600 hover:bg-slate-200 whitespace-nowrap">
+              上传文件...
+            </button>
+            <input ref={fileInputRef} type="file" accept=".txt,.md,.markdown,text/plain,text/markdown" className="hidden" onChange={handleFile} />
+          </div>
+          {error && <p className="text-[11px] font-medium text-rose-600">{error}</p>}
+
+          <textarea
+            autoFocus
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="粘贴会议记录、文章或 Markdown 文本..."
+            className={`${inputClass} h-64 font-mono leading-relaxed`}
+          />
+          <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder={titleFromText(text) || '文档标题'} className={`${inputClass} font-bold`} />
+          {stats.passages > 0 && (
+            <p className="text-[11px] text-slate-400">
+              共 {stats.passages} 段{stats.chunks > 1 ? `，内容较长，将分 ${stats.chunks} 次发送给 AI` : ''}
+            </p>
+          )}
+
+          {hasMap && (
+            <div className="grid grid-cols-2 gap-2">
+              {([['new', '新建导图', '生成结果保存为新文档'], ['merge', '合并到当前导图', '只追加新内容，保留已有节点与修改']] as const).map(([value, label, hint]) => (
+                <button
+                  key={value}
+                  onClick={() => setTarget(value)}
+                  className={`px-4 py-3 rounded-xl text-left border-2 transition-all ${effectiveTarget === value ? 'border-indigo-500 bg-indigo-50' : 'border-slate-100 hover:bg-slate-50'}`}
+                >
+                  <span className="block text-xs font-bold text-slate-700">{label}</span>
+                  <span className="block text-[10px] text-slate-400">{hint}</span>
+                </button>
+              ))}
+            </div>
+          )}
+          {previous && effectiveTarget === 'merge' && (
+            <p className="text-[11px] text-indigo-600">
+              当前导图已于 {new Date(previous.importedAt).toLocaleString()} 导入过「{previous.name}」，合并后原文更新为这一版本。
+            </p>
+          )}
+
+          <button
+            onClick={() => onSubmit({ title: name, text, target: effectiveTarget })}
+            disabled={stats.passages === 0 || !name}
+            className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black text-sm shadow-xl shadow-indigo-100 hover:bg-indigo-700 disabled:opacity-40 transition-all"
+          >
+            {effectiveTarget === 'merge' ? '生成并合并' : '生成导图'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourceImportDialog;
@@ -0,0 +1,92 @@
+// 错误处理与重试的自动检查：启动 scripts/fake-ai-server.mjs，经由真实的请求层（aiRequest.ts）
+// 和 OpenAI 兼容后端逐个场景发起请求，核对重试次数与最终的错误类型。
+//   npm run check-ai
+// 有场景不符合预期时以非零状态退出。完整运行约需 20 秒（包含退避等待）。
+import { spawn } from 'node:child_process';
+import { AIProviderConfig } from '../types';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import { JSON_RETRY_ON, requestWithRetry, streamWithRetry } from '../services/aiRequest';
+import { openAIProvider } from '../services/providers/openai';
+import { ExpandRequest, GenerateRequest } from '../services/providers/types';
+
+const PORT = Number(process.env.PORT || 8797);
+
+interface Expectation {
+  model: string;
+  stream?: boolean;
+  retries: AIErrorKind[]; // 每次重试前的错误类型，按顺序
+  error: AIErrorKind | null; // null 表示最终成功
+}
+
+const EXPECTATIONS: Expectation[] = [
+  { model: 'fake-ok', retries: [], error: null },
+  { model: 'fake-429', retries: ['quota', 'quota'], error: null },
+  { model: 'fake-flaky', retries: ['network'], error: null },
+  { model: 'fake-500', retries: ['network', 'network', 'network'], error: 'network' },
+  { model: 'fake-401', retries: [], error: 'auth' },
+  { model: 'fake-safety', retries: [], error: 'safety' },
+  { model: 'fake-malformed', retries: ['malformed', 'malformed', 'malformed'], error: 'malformed' },
+  { model: 'fake-truncated', retries: [], error: null },
+  // 流式请求收到第一段输出后不再重试
+  { model: 'fake-stream-error', stream: true, retries: [], error: 'network' },
+];
+
+// 非流式请求走扩展节点，流式请求走生成导图，与应用中的调用一致
+const request: GenerateRequest = {
+  topic: '检查',
+  options: { depth: 2, breadth: 3, style: 'brainstorm' },
+  levels: 2,
+};
+
+const expandRequest: ExpandRequest = {
+  parentMessage: '检查',
+  context: '检查',
+  treeContext: '- 检查',
+  count: 3,
+};
+
+const startServer = () => new Promise<ReturnType<typeof spawn>>((resolve, reject) => {
+  const child = spawn(process.execPath, ['scripts/fake-ai-server.mjs', String(PORT)], { stdio: ['ignore', 'pipe', 'inherit'] });
+  child.once('error', reject);
+  child.once('exit', code => reject(new Error(`假服务退出（${code}）`)));
+  child.stdout!.on('data', (data: Buffer) => {
+    if (data.toString().includes('listening')) resolve(child);
+  });
+});
+
+const run = async ({ model, stream }: Expectation) => {
+  const config: AIProviderConfig = { model, apiKey: '', baseUrl: `http://localhost:${PORT}/v1` };
+  const retries: AIErrorKind[] = [];
+  const onRetry = (_attempt: number, _delay: number, error: { kind: AIErrorKind }) => retries.push(error.kind);
+  try {
+    if (stream) {
+      for await (const _chunk of streamWithRetry(signal => openAIProvider.streamMindMap(request, config, signal), { onRetry })) {
+        // 只关心是否出错
+      }
+    } else {
+      await requestWithRetry(signal => openAIProvider.expandNode(expandRequest, config, signal), { retryOn: JSON_RETRY_ON, onRetry });
+    }
+    return { retries, error: null };
+  } catch (err) {
+    return { retries, error: toAIError(err).kind };
+  }
+};
+
+const server = await startServer();
+let failed = 0;
+try {
+  for (const expected of EXPECTATIONS) {
+    const actual = await run(expected);
+    const ok = actual.error === expected.error && actual.retries.join() === expected.retries.join();
+    if (!ok) failed++;
+    const describe = ({ retries, error }: { retries: AIErrorKind[]; error: AIErrorKind | null }) =>
+      `重试 ${retries.length} 次${retries.length ? `（${retries.join(', ')}）` : ''}，${error ? `失败：${error}` : '成功'}`;
+    console.log(`${ok ? '✓' : '✗'} ${expected.model.padEnd(18)} ${describe(actual)}${ok ? '' : `；预期${describe(expected)}`}`);
+  }
+} finally {
+  server.removeAllListeners('exit');
+  server.kill();
+}
+
+console.log(failed ? `${failed} 个场景不符合预期` : '全部场景符合预期');
+process.exitCode = failed ? 1 : 0;
@@ -0,0 +1,271 @@
+// 协作中继：无依赖的 WebSocket 服务，按房间转发导图的 CRDT 增量与协作者的光标、选中状态。
+// 房间名即连接路径（ws://localhost:1234/<文档 id>），中继保存每个房间合并后的状态，
+// 新加入或离线后重连的客户端先收到完整状态再继续同步。
+//   node scripts/collab-relay.mjs [端口] [--data 目录]
+// 指定 --data 时房间状态写入该目录，中继重启后不丢失；否则只保存在内存中。
+// 最后一个客户端离开后房间从内存中移除，客户端再次加入时会发送完整状态。
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+const args = process.argv.slice(2);
+const dataIndex = args.indexOf('--data');
+const DATA_DIR = dataIndex >= 0 ? args.splice(dataIndex, 2)[1] : null;
+const PORT = Number(process.env.PORT || args[0] || 1234);
+
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE = 16 * 1024 * 1024;
+// 客户端每 10 秒发一次心跳，超过这个时间没有任何消息视为断开
+const IDLE_TIMEOUT = 45_000;
+const SAVE_DELAY = 1000;
+
+if (DATA_DIR) mkdirSync(DATA_DIR, { recursive: true });
+
+// ---------- CRDT 合并（与 utils/crdt.ts 的 mergeState 一致） ----------
+
+const isRegister = value => typeof value === 'object' && value !== null && 'v' in value && typeof value.t === 'string';
+
+// 排序键必须是不以 0 结尾的 36 进制小数位
+const isValidPos = value => typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value);
+
+const mergeState = (state, delta) => {
+  const applied = {};
+  if (typeof delta !== 'object' || delta === null) return applied;
+  Object.entries(delta).forEach(([id, fields]) => {
+    if (id === '__proto__' || typeof fields !== 'object' || fields === null) return;
+    Object.entries(fields).forEach(([key, register]) => {
+      if (key === '__proto__' || !isRegister(register)) return;
+      if (key === 'pos' && !isValidPos(register.v)) return;
+      const current = state[id]?.[key];
+      if (current && current.t >= register.t) return;
+      (state[id] ??= {})[key] = register;
+      (applied[id] ??= {})[key] = register;
+    });
+  });
+  return applied;
+};
+
+const isEmpty = state => Object.keys(state).length === 0;
+
+// ---------- 房间 ----------
+
+const rooms = new Map();
+
+const roomFile = name => join(DATA_DIR, `${encodeURIComponent(name)}.json`);
+
+const getRoom = name => {
+  let room = rooms.get(name);
+  if (room) return room;
+  room = { name, state: {}, clients: new Set(), presence: new Map(), saveTimer: null };
+  if (DATA_DIR) {
+    try {
+      room.state = JSON.parse(readFileSync(roomFile(name), 'utf8'));
+    } catch {
+      // 新房间
+    }
+  }
+  rooms.set(name, room);
+  return room;
+};
+
+const saveRoom = room => {
+  clearTimeout(room.saveTimer);
+  room.saveTimer = null;
+  writeFileSync(roomFile(room.name), JSON.stringify(room.state));
+};
+
+const scheduleSave = room => {
+  if (!DATA_DIR || room.saveTimer) return;
+  room.saveTimer = setTimeout(() => saveRoom(room), SAVE_DELAY);
+};
+
+const broadcast = (room, from, message) => {
+  const data = JSON.stringify(message);
+  room.clients.forEach(client => client !== from && client.send(data));
+};
+
+const handleMessage = (client, message) => {
+  const { room } = client;
+  if (message.type === 'hello') {
+    client.clientId = String(message.clientId ?? '');
+    // 客户端离线期间的修改随 hello 一起到达
+    const applied = mergeState(room.state, message.state);
+    if (!isEmpty(applied)) {
+      broadcast(room, client, { type: 'update', state: applied });
+      scheduleSave(room);
+    }
+    client.send(JSON.stringify({ type: 'sync', state: room.state }));
+    room.presence.forEach(presence => client.send(JSON.stringify(presence)));
+    return;
+  }
+  if (message.type === 'update') {
+    const applied = mergeState(room.state, message.state);
+    if (isEmpty(applied)) return;
+    broadcast(room, client, { type: 'update', state: applied });
+    scheduleSave(room);
+    return;
+  }
+  if (message.type === 'presence' && client.clientId) {
+    const presence = { ...message, clientId: client.clientId };
+    room.presence.set(client.clientId, presence);
+    broadcast(room, client, presence);
+  }
+};
+
+const handleClose = client => {
+  const { room } = client;
+  if (!room.clients.delete(client)) return;
+  if (client.clientId) {
+    room.presence.delete(client.clientId);
+    broadcast(room, client, { type: 'leave', clientId: client.clientId });
+  }
+  console.log(`${new Date().toLocaleTimeString()} 离开 ${room.name}（剩余 ${room.clients.size} 人）`);
+  if (room.clients.size > 0) return;
+  // 空房间不常驻内存，未写入的状态先落盘
+  if (room.saveTimer) saveRoom(room);
+  if (rooms.get(room.name) === room) rooms.delete(room.name);
+};
+
+// ---------- WebSocket 帧 ----------
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) header[1] = length;
+  else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+const attach = (socket, room) => {
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+  let closed = false;
+  let lastSeen = Date.now();
+
+  const client = {
+    room,
+    clientId: null,
+    send: text => {
+      if (!closed) socket.write(encodeFrame(0x1, Buffer.from(text)));
+    },
+  };
+
+  const close = (code = 1000) => {
+    if (closed) return;
+    const payload = Buffer.alloc(2);
+    payload.writeUInt16BE(code);
+    socket.write(encodeFrame(0x8, payload));
+    closed = true;
+    socket.end();
+    handleClose(client);
+  };
+
+  // 返回 true 表示收到的是数据帧
+  const onFrame = (opcode, payload) => {
+    if (opcode === 0x8) close();
+    else if (opcode === 0x9) socket.write(encodeFrame(0xa, payload));
+    else if (opcode !== 0xa) {
+      fragments.push(payload);
+      return true;
+    }
+    return false;
+  };
+
+  socket.on('data', chunk => {
+    lastSeen = Date.now();
+    buffer = Buffer.concat([buffer, chunk]);
+    while (buffer.length >= 2 && !closed) {
+      const fin = (buffer[0] & 0x80) !== 0;
+      const opcode = buffer[0] & 0x0f;
+      const masked = (buffer[1] & 0x80) !== 0;
+      let length = buffer[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffer.length < 4) return;
+        length = buffer.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffer.length < 10) return;
+        length = Number(buffer.readBigUInt64BE(2));
+        offset = 10;
+      }
+      // 客户端发来的帧必须带掩码
+      if (!masked) return close(1002);
+      if (length > MAX_MESSAGE) return close(1009);
+      if (buffer.length < offset + 4 + length) return;
+      const mask = buffer.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffer.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i & 3];
+      buffer = buffer.subarray(offset + 4 + length);
+
+      if (!onFrame(opcode, payload) || !fin) continue;
+      const text = Buffer.concat(fragments).toString('utf8');
+      fragments = [];
+      if (text.length > MAX_MESSAGE) return close(1009);
+      let message;
+      try {
+        message = JSON.parse(text);
+      } catch {
+        continue;
+      }
+      if (message && typeof message === 'object') handleMessage(client, message);
+    }
+  });
+
+  const idleTimer = setInterval(() => {
+    if (Date.now() - lastSeen > IDLE_TIMEOUT) close(1001);
+  }, IDLE_TIMEOUT / 3);
+  const cleanup = () => {
+    clearInterval(idleTimer);
+    closed = true;
+    handleClose(client);
+  };
+  socket.on('close', cleanup);
+  socket.on('error', cleanup);
+
+  room.clients.add(client);
+  console.log(`${new Date().toLocaleTimeString()} 加入 ${room.name}（共 ${room.clients.size} 人）`);
+};
+
+// ---------- HTTP ----------
+
+const server = createServer((req, res) => {
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Access-Control-Allow-Origin': '*' });
+  res.end(`协作中继运行中：${rooms.size} 个房间，${[...rooms.values()].reduce((n, room) => n + room.clients.size, 0)} 个连接\n`);
+});
+
+server.on('upgrade', (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  let name = '';
+  try {
+    name = decodeURIComponent(new URL(req.url ?? '/', 'http://relay').pathname.slice(1));
+  } catch {
+    // 路径不是合法的 URI 编码，按缺少房间名处理
+  }
+  if (req.headers.upgrade?.toLowerCase() !== 'websocket' || !key || !name) {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write(
+    'HTTP/1.1 101 Switching Protocols\r\n' +
+    'Upgrade: websocket\r\n' +
+    'Connection: Upgrade\r\n' +
+    `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+  attach(socket, getRoom(name));
+});
+
+server.listen(PORT, () => {
+  console.log(`Collab relay listening on ws://localhost:${PORT}/<房间名>`);
+  console.log(DATA_DIR ? `  房间状态保存在 ${DATA_DIR}` : '  房间状态只保存在内存中，重启后由客户端重新同步');
+});
@@ -0,0 +1,161 @@
+// 本地假 AI 服务：实现 OpenAI 兼容的 /v1/chat/completions，用于验证错误处理与重试（npm run check-ai 会自动逐个场景检查）。
+// 在 AI 服务设置中选择"OpenAI 兼容端点"，地址填 http://localhost:8787/v1，
+// 模型名称决定返回的场景，见下方 SCENARIOS。
+import { createServer } from 'node:http';
+
+const PORT = Number(process.env.PORT || process.argv[2] || 8787);
+
+const SCENARIOS = {
+  'fake-ok': '正常返回',
+  'fake-429': '前两次返回 429（Retry-After: 1），之后正常',
+  'fake-flaky': '第一次返回 503，之后正常',
+  'fake-500': '总是返回 500，用于验证重试耗尽',
+  'fake-401': '返回 401，API Key 无效',
+  'fake-safety': 'finish_reason 为 content_filter',
+  'fake-malformed': '返回无法解析的文本',
+  'fake-truncated': '返回在中途截断的 JSON',
+  'fake-slow': '30 秒后才响应，用于验证取消与超时',
+  'fake-stream-error': '流式输出几段后报告错误',
+};
+
+// 按模型名称统计失败次数，成功后清零
+const failures = new Map();
+
+const CORS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'Retry-After',
+};
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS, ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, status, message, headers) => sendJson(res, status, { error: { message } }, headers);
+
+const sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+const lastUserText = messages => [...messages].reverse().find(m => m.role === 'user')?.content ?? '';
+
+// 生成导图、扩展节点都返回 { message, children }；扩展请求的解析会取其中的 children
+const buildTree = prompt => {
+  const topic = prompt.match(/"([^"\n]{1,40})"/)?.[1] ?? '假主题';
+  return {
+    message: topic,
+    children: ['背景', '目标', '风险'].map(aspect => ({
+      message: `${topic} · ${aspect}`,
+      children: [{ message: `${topic} · ${aspect} · 细节`, children: [] }],
+    })),
+  };
+};
+
+const buildContent = (body, scenario) => {
+  const prompt = lastUserText(body.messages ?? []);
+  if (scenario === 'fake-malformed') return '抱歉，我无法按要求的格式回答。';
+  if (!body.response_format) return `**假服务回复**\n\n- 收到的问题：${prompt.slice(0, 60)}\n- 场景：${scenario}`;
+  const json = JSON.stringify(buildTree(prompt));
+  return scenario === 'fake-truncated' ? json.slice(0, Math.floor(json.length * 0.6)) : json;
+};
+
+const completion = (model, content, finishReason = 'stop') => ({
+  id: `fake-${Date.now()}`,
+  object: 'chat.completion',
+  model,
+  choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }],
+});
+
+const chunk = (model, content, finishReason = null) => ({
+  id: `fake-${Date.now()}`,
+  object: 'chat.completion.chunk',
+  model,
+  choices: [{ index: 0, delta: content ? { content } : {}, finish_reason: finishReason }],
+});
+
+const stream = async (req, res, model, content, scenario) => {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', ...CORS });
+  let closed = false;
+  req.on('close', () => { closed = true; });
+  const pieces = content.match(/[\s\S]{1,16}/g) ?? [];
+  for (let i = 0; i < pieces.length && !closed; i++) {
+    if (scenario === 'fake-stream-error' && i === Math.floor(pieces.length / 2)) {
+      res.write(`data: ${JSON.stringify({ error: { message: 'upstream connection reset' } })}\n\n`);
+      res.end();
+      return;
+    }
+    res.write(`data: ${JSON.stringify(chunk(model, pieces[i]))}\n\n`);
+    await sleep(40);
+  }
+  if (closed) return;
+  res.write(`data: ${JSON.stringify(chunk(model, '', scenario === 'fake-safety' ? 'content_filter' : 'stop'))}\n\n`);
+  res.write('data: [DONE]\n\n');
+  res.end();
+};
+
+// 返回 true 表示已按场景回复了错误
+const failIfScheduled = (res, scenario) => {
+  const count = failures.get(scenario) ?? 0;
+  const fail = (status, message, headers) => {
+    failures.set(scenario, count + 1);
+    sendError(res, status, message, headers);
+    return true;
+  };
+  if (scenario === 'fake-401') return fail(401, 'Invalid API key provided');
+  if (scenario === 'fake-500') return fail(500, 'Internal server error');
+  if (scenario === 'fake-429' && count < 2) return fail(429, 'Rate limit reached, please retry', { 'Retry-After': '1' });
+  if (scenario === 'fake-flaky' && count < 1) return fail(503, 'Service temporarily unavailable');
+  failures.delete(scenario);
+  return false;
+};
+
+const handleCompletion = async (req, res) => {
+  let raw = '';
+  for await (const part of req) raw += part;
+  let body;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    sendError(res, 400, 'Request body is not valid JSON');
+    return;
+  }
+  const model = String(body.model ?? '');
+  const scenario = model in SCENARIOS ? model : 'fake-ok';
+  console.log(`${new Date().toLocaleTimeString()} ${scenario}${body.stream ? ' (stream)' : ''}${body.response_format ? ' json' : ''}`);
+
+  if (failIfScheduled(res, scenario)) return;
+  if (scenario === 'fake-slow') {
+    let closed = false;
+    req.on('close', () => { closed = true; });
+    for (let waited = 0; waited < 30_000 && !closed; waited += 250) await sleep(250);
+    if (closed) return;
+  }
+
+  const content = buildContent(body, scenario);
+  if (body.stream) {
+    await stream(req, res, model, content, scenario);
+    return;
+  }
+  sendJson(res, 200, completion(model, content, scenario === 'fake-safety' ? 'content_filter' : 'stop'));
+};
+
+const server = createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, { ...CORS, 'Access-Control-Allow-Methods': 'POST, OPTIONS' });
+    res.end();
+    return;
+  }
+  if (req.method === 'POST' && req.url?.replace(/\/+$/, '').endsWith('/chat/completions')) {
+    handleCompletion(req, res).catch(err => {
+      console.error(err);
+      if (!res.headersSent) sendError(res, 500, String(err));
+      else res.end();
+    });
+    return;
+  }
+  sendError(res, 404, `Unknown route ${req.method} ${req.url}`);
+});
+
+server.listen(PORT, () => {
+  console.log(`Fake AI server listening on http://localhost:${PORT}/v1`);
+  Object.entries(SCENARIOS).forEach(([model, description]) => console.log(`  ${model.padEnd(18)} ${description}`));
+});
@@ -0,0 +1,55 @@
+// AI 请求失败的分类：界面按类型给出不同的提示与操作，请求层据此决定是否重试
+
+export type AIErrorKind = 'auth' | 'quota' | 'safety' | 'malformed' | 'network' | 'aborted';
+
+export const AI_ERROR_INFO: Record<AIErrorKind, { title: string; hint: string; retryable: boolean }> = {
+  auth: { title: 'AI 服务拒绝了请求', hint: '请在 AI 服务设置中检查 API Key、模型名称与端点地址。', retryable: false },
+  quota: { title: '请求过于频繁或额度已用完', hint: '已自动重试仍未成功，请稍后再试或更换模型。', retryable: true },
+  safety: { title: '内容被安全策略拦截', hint: '请换一种说法，或调整主题后重试。', retryable: true },
+  malformed: { title: 'AI 返回的内容无法解析', hint: '模型输出不符合预期格式，重试通常可以解决。', retryable: true },
+  network: { title: '无法连接到 AI 服务', hint: '请检查网络或端点地址；服务繁忙时也会出现此错误。', retryable: true },
+  aborted: { title: '请求已取消', hint: '', retryable: true },
+};
+
+export class AIError extends Error {
+  kind: AIErrorKind;
+  status?: number;
+  retryAfterMs?: number; // 服务端通过 Retry-After 指定的等待时间
+
+  constructor(kind: AIErrorKind, message = AI_ERROR_INFO[kind].title, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// 400 / 404 多半是模型名称或端点写错，与 Key 无效一样需要用户修改设置
+export const kindFromStatus = (status: number): AIErrorKind | null => {
+  if ([400, 401, 403, 404].includes(status)) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  return null;
+};
+
+// 各后端与 SDK 抛出的错误形态不一，按状态码与错误文本归类
+export const toAIError = (err: unknown, signal?: AbortSignal): AIError => {
+  if (err instanceof AIError) return err;
+  if (signal?.aborted || (err instanceof DOMException && err.name === 'AbortError')) return new AIError('aborted', undefined, { cause: err });
+  const status = typeof (err as { status?: unknown })?.status === 'number' ? (err as { status: number }).status : undefined;
+  const text = err instanceof Error ? err.message : String(err);
+  const kind = (status !== undefined ? kindFromStatus(status) : null)
+    ?? (/api[_ ]?key|unauthori[sz]ed|permission|PERMISSION_DENIED|UNAUTHENTICATED/i.test(text) ? 'auth'
+      : /RESOURCE_EXHAUSTED|quota|rate limit|too many requests/i.test(text) ? 'quota'
+      : /SAFETY|blocked|content[_ ]filter/i.test(text) ? 'safety'
+      : err instanceof SyntaxError ? 'malformed'
+      : 'network');
+  return new AIError(kind, kind === 'network' && text ? `${AI_ERROR_INFO.network.title}：${text}` : undefined, { status, cause: err });
+};
+
+// 界面展示用的一行说明
+export const describeAIError = (err: AIError) => {
+  const info = AI_ERROR_INFO[err.kind];
+  return err.message && err.message !== info.title ? err.message : info.title;
+};
@@ -0,0 +1,123 @@
+import { AIError, AIErrorKind, toAIError } from "./aiErrors";
+
+// 所有 AI 请求共用的执行层：超时、外部取消、失败分类与指数退避重试
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // 单次尝试的超时；流式请求为两段输出之间的最长间隔
+  retries?: number;
+  retryOn?: AIErrorKind[];
+  onRetry?: (attempt: number, delayMs: number, error: AIError) => void;
+}
+
+export const REQUEST_TIMEOUT = 60_000;
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1000;
+const MAX_DELAY = 20_000;
+const DEFAULT_RETRY_ON: AIErrorKind[] = ['quota', 'network'];
+// 返回 JSON 的请求在输出无法解析时也值得重试一次
+export const JSON_RETRY_ON: AIErrorKind[] = ['quota', 'network', 'malformed'];
+
+// 单次尝试的 signal：外部取消或超时都会中止；restart 重新开始计时
+const createAttempt = (outer: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const restart = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  const onAbort = () => controller.abort();
+  outer?.addEventListener('abort', onAbort);
+  restart();
+  return {
+    signal: controller.signal,
+    restart,
+    timedOut: () => timedOut,
+    dispose: () => {
+      clearTimeout(timer);
+      outer?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+const classify = (err: unknown, attempt: ReturnType<typeof createAttempt>, outer?: AbortSignal) =>
+  attempt.timedOut() && !outer?.aborted ? new AIError('network', '请求超时', { cause: err }) : toAIError(err, outer);
+
+// 服务端给出 Retry-After 时照办，否则按 1s、2s、4s… 退避并加入随机抖动
+const backoffDelay = (attempt: number, error: AIError) =>
+  error.retryAfterMs ?? Math.min(MAX_DELAY, BASE_DELAY * 2 ** attempt) * (0.5 + Math.random() / 2);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(new AIError('aborted'));
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new AIError('aborted'));
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const shouldRetry = (error: AIError, attempt: number, options: RequestOptions) =>
+  attempt < (options.retries ?? MAX_RETRIES) && (options.retryOn ?? DEFAULT_RETRY_ON).includes(error.kind);
+
+// 失败时抛出 AIError；外部取消抛出 kind 为 aborted 的 AIError
+export const requestWithRetry = async <T>(run: (signal: AbortSignal) => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) throw new AIError('aborted');
+    const current = createAttempt(options.signal, options.timeoutMs ?? REQUEST_TIMEOUT);
+    try {
+      const result = await run(current.signal);
+      // 部分 SDK 在中止后直接返回而不抛错
+      if (current.signal.aborted) throw classify(undefined, current, options.signal);
+      return result;
+    } catch (err) {
+      const error = classify(err, current, options.signal);
+      if (!shouldRetry(error, attempt, options)) throw error;
+      const delay = backoffDelay(attempt, error);
+      options.onRetry?.(attempt + 1, delay, error);
+      await sleep(delay, options.signal);
+    } finally {
+      current.dispose();
+    }
+  }
+};
+
+// 流式请求只在收到第一段输出之前重试，之后的失败直接抛出，已产出的内容由调用方保留。
+// 外部取消时正常结束而不抛错，与各后端 streamXxx 的约定一致
+export async function* streamWithRetry(open: (signal: AbortSignal) => AsyncGenerator<string>, options: RequestOptions = {}): AsyncGenerator<string> {
+  for (let attempt = 0; ; attempt++) {
+    if (options.signal?.aborted) return;
+    const current = createAttempt(options.signal, options.timeoutMs ?? REQUEST_TIMEOUT);
+    let started = false;
+    try {
+      for await (const chunk of open(current.signal)) {
+        if (current.signal.aborted) break;
+        started = true;
+        current.restart();
+        yield chunk;
+      }
+      if (current.timedOut() && !options.signal?.aborted) throw new AIError('network', '请求超时');
+      return;
+    } catch (err) {
+      if (options.signal?.aborted) return;
+      const error = classify(err, current, options.signal);
+      if (started || !shouldRetry(error, attempt, options)) throw error;
+      const delay = backoffDelay(attempt, error);
+      options.onRetry?.(attempt + 1, delay, error);
+      try {
+        await sleep(delay, options.signal);
+      } catch {
+        return;
+      }
+    } finally {
+      current.dispose();
+    }
+  }
+}
@@ -0,0 +1,70 @@
+import { AIProviderId, AISettings, GenerationOptions } from "../types";
+import { PROVIDER_INFO } from "./providers";
+
+const SETTINGS_KEY = 'gemini_mind_map_ai_settings';
+
+const defaultSettings = (): AISettings => ({
+  provider: 'gemini',
+  providers: {
+    gemini: { ...PROVIDER_INFO.gemini.defaults },
+    openai: { ...PROVIDER_INFO.openai.defaults },
+    mock: { ...PROVIDER_INFO.mock.defaults },
+  },
+});
+
+// 设置只保存在浏览器本地，API Key 不进入构建产物
+const load = (): AISettings => {
+  const defaults = defaultSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || !(saved.provider in defaults.providers)) return defaults;
+    (Object.keys(defaults.providers) as AIProviderId[]).forEach(id => {
+      defaults.providers[id] = { ...defaults.providers[id], ...(saved.providers?.[id] || {}) };
+    });
+    return { provider: saved.provider, providers: defaults.providers };
+  } catch {
+    return defaults;
+  }
+};
+
+let current: AISettings = load();
+
+export const getAISettings = () => current;
+
+export const saveAISettings = (settings: AISettings) => {
+  current = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// ---------- 生成选项（深度、广度、风格） ----------
+
+const GENERATION_KEY = 'gemini_mind_map_generation_options';
+
+export const GENERATION_LIMITS = { depth: { min: 1, max: 6 }, breadth: { min: 2, max: 8 } };
+
+export const DEFAULT_GENERATION_OPTIONS: GenerationOptions = { depth: 3, breadth: 4, style: 'brainstorm' };
+
+const clamp = (value: unknown, { min, max }: { min: number; max: number }, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+const loadGenerationOptions = (): GenerationOptions => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(GENERATION_KEY) || 'null') || {};
+    return {
+      depth: clamp(saved.depth, GENERATION_LIMITS.depth, DEFAULT_GENERATION_OPTIONS.depth),
+      breadth: clamp(saved.breadth, GENERATION_LIMITS.breadth, DEFAULT_GENERATION_OPTIONS.breadth),
+      style: ['brainstorm', 'study', 'project'].includes(saved.style) ? saved.style : DEFAULT_GENERATION_OPTIONS.style,
+    };
+  } catch {
+    return { ...DEFAULT_GENERATION_OPTIONS };
+  }
+};
+
+let generationOptions: GenerationOptions = loadGenerationOptions();
+
+export const getGenerationOptions = () => generationOptions;
+
+export const saveGenerationOptions = (options: GenerationOptions) => {
+  generationOptions = options;
+  localStorage.setItem(GENERATION_KEY, JSON.stringify(options));
+};
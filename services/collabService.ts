@@ -0,0 +1,216 @@
+import { CollabPeer, CollabSettings, CollabStatus, CrdtState, LayoutDirection } from "../types";
+import { isEmptyState } from "../utils/crdt";
+import { isObject } from "../utils/documentSchema";
+import { LAYOUT_ENGINES } from "../utils/layout";
+
+// 实时协作的连接层：通过 WebSocket 中继（scripts/collab-relay.mjs）与同一房间的其他客户端交换
+// CRDT 增量和光标、选中状态。断线后按退避间隔重连，重连时发送完整状态，离线期间的修改随之同步
+
+const SETTINGS_KEY = 'gemini_mind_map_collab_settings';
+
+export const DEFAULT_RELAY_URL = 'ws://localhost:1234';
+
+const PEER_COLORS = ['#e11d48', '#ea580c', '#16a34a', '#0891b2', '#7c3aed', '#db2777', '#ca8a04', '#2563eb'];
+
+const defaultSettings = (): CollabSettings => ({
+  relayUrl: DEFAULT_RELAY_URL,
+  name: `协作者 ${Math.floor(Math.random() * 900) + 100}`,
+  color: PEER_COLORS[Math.floor(Math.random() * PEER_COLORS.length)],
+});
+
+const loadSettings = (): CollabSettings => {
+  const defaults = defaultSettings();
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null') || {};
+    return {
+      relayUrl: typeof saved.relayUrl === 'string' && saved.relayUrl ? saved.relayUrl : defaults.relayUrl,
+      name: typeof saved.name === 'string' && saved.name.trim() ? saved.name : defaults.name,
+      color: typeof saved.color === 'string' && /^#[0-9a-f]{6}$/i.test(saved.color) ? saved.color : defaults.color,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+let currentSettings: CollabSettings = loadSettings();
+
+export const getCollabSettings = () => currentSettings;
+
+export const saveCollabSettings = (settings: CollabSettings) => {
+  currentSettings = settings;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// 每次打开页面使用新的 id，同一浏览器的两个标签页也是不同的协作者
+export const createClientId = () => Math.random().toString(36).slice(2, 10);
+
+// 分享链接：打开后加入同一房间
+export const buildShareLink = (room: string, relayUrl: string) => {
+  const url = new URL(window.location.href);
+  url.hash = new URLSearchParams({ collab: room, relay: relayUrl }).toString();
+  return url.toString();
+};
+
+export const readShareLink = (): { room: string; relayUrl: string } | null => {
+  const params = new URLSearchParams(window.location.hash.slice(1));
+  const room = params.get('collab');
+  return room ? { room, relayUrl: params.get('relay') || currentSettings.relayUrl } : null;
+};
+
+// ---------- 连接 ----------
+
+const RETRY_BASE = 1000;
+const RETRY_MAX = 30_000;
+const PRESENCE_INTERVAL = 50;
+const HEARTBEAT = 10_000;
+// 超过这个时间没有消息的协作者视为已离开（例如对方断网时中继还没发现）
+const PEER_TIMEOUT = 30_000;
+
+type Presence = Pick<CollabPeer, 'cursor' | 'layout' | 'selection'>;
+
+export interface CollabSession {
+  send: (delta: CrdtState) => void; // 离线时不发送，重连后随完整状态同步
+  setPresence: (presence: Partial<Presence>) => void;
+  close: () => void;
+}
+
+interface CollabOptions {
+  relayUrl: string;
+  room: string;
+  clientId: string;
+  name: string;
+  color: string;
+  getState: () => CrdtState; // 连接（包括重连）时发送的完整状态
+  onRemote: (delta: CrdtState) => void;
+  onPeers: (peers: CollabPeer[]) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+export const connectCollab = ({ relayUrl, room, clientId, name, color, getState, onRemote, onPeers, onStatus }: CollabOptions): CollabSession => {
+  const url = `${relayUrl.replace(/\/+$/, '')}/${encodeURIComponent(room)}`;
+  const peers = new Map<string, CollabPeer & { seen: number }>();
+  let presence: Presence = { cursor: null, layout: null, selection: [] };
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retries = 0;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let presenceTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastPresence = 0;
+
+  const emitPeers = () => onPeers(Array.from(peers.values(), ({ seen, ...peer }) => peer));
+
+  const post = (message: object) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+
+  const sendPresence = () => {
+    clearTimeout(presenceTimer);
+    presenceTimer = undefined;
+    lastPresence = Date.now();
+    post({ type: 'presence', name, color, ...presence });
+  };
+
+  // 寄存器格式由 CRDT 合并时逐个校验，这里只检查消息结构
+  const handleMessage = (message: unknown) => {
+    if (!isObject(message)) return;
+    if ((message.type === 'sync' || message.type === 'update') && isObject(message.state)) {
+      onRemote(message.state as CrdtState);
+    } else if (message.type === 'presence' && typeof message.clientId === 'string' && message.clientId !== clientId) {
+      const { cursor } = message;
+      peers.set(message.clientId, {
+        clientId: message.clientId,
+        name: String(message.name ?? '').slice(0, 40) || '协作者',
+        color: typeof message.color === 'string' && /^#[0-9a-f]{6}$/i.test(message.color) ? message.color : PEER_COLORS[0],
+        cursor: isObject(cursor) && typeof cursor.x === 'number' && typeof cursor.y === 'number' && Number.isFinite(cursor.x) && Number.isFinite(cursor.y)
+          ? { x: cursor.x, y: cursor.y }
+          : null,
+        layout: typeof message.layout === 'string' && message.layout in LAYOUT_ENGINES ? message.layout as LayoutDirection : null,
+        selection: Array.isArray(message.selection) ? message.selection.filter((id): id is string => typeof id === 'string') : [],
+        seen: Date.now(),
+      });
+      emitPeers();
+    } else if (message.type === 'leave' && typeof message.clientId === 'string' && peers.delete(message.clientId)) {
+      emitPeers();
+    }
+  };
+
+  const connect = () => {
+    clearTimeout(retryTimer);
+    retryTimer = undefined;
+    onStatus('connecting');
+    let ws: WebSocket;
+    try {
+      ws = new WebSocket(url);
+    } catch {
+      // 地址格式错误
+      onStatus('offline');
+      return;
+    }
+    socket = ws;
+    ws.onopen = () => {
+      retries = 0;
+      ws.send(JSON.stringify({ type: 'hello', clientId, state: getState() }));
+      sendPresence();
+      onStatus('online');
+    };
+    ws.onmessage = (event) => {
+      try {
+        handleMessage(JSON.parse(String(event.data)));
+      } catch {
+        // 忽略无法解析的消息
+      }
+    };
+    // 出错后总会触发 close，由 onclose 负责重连
+    ws.onerror = () => {};
+    ws.onclose = () => {
+      if (socket !== ws) return;
+      socket = null;
+      peers.clear();
+      emitPeers();
+      if (closed) return;
+      onStatus('offline');
+      retryTimer = setTimeout(connect, Math.min(RETRY_MAX, RETRY_BASE * 2 ** retries++));
+    };
+  };
+
+  // 网络恢复时立即重连，不等退避计时
+  const handleOnline = () => {
+    if (!socket && !closed) connect();
+  };
+
+  const heartbeat = setInterval(() => {
+    sendPresence();
+    const now = Date.now();
+    let expired = false;
+    peers.forEach((peer, id) => {
+      if (now - peer.seen > PEER_TIMEOUT) expired = peers.delete(id);
+    });
+    if (expired) emitPeers();
+  }, HEARTBEAT);
+
+  window.addEventListener('online', handleOnline);
+  connect();
+
+  return {
+    send: (delta) => {
+      if (!isEmptyState(delta)) post({ type: 'update', state: delta });
+    },
+    setPresence: (partial) => {
+      presence = { ...presence, ...partial };
+      // 光标移动很频繁，限制发送频率
+      const wait = PRESENCE_INTERVAL - (Date.now() - lastPresence);
+      if (wait <= 0) sendPresence();
+      else if (!presenceTimer) presenceTimer = setTimeout(sendPresence, wait);
+    },
+    close: () => {
+      closed = true;
+      clearTimeout(retryTimer);
+      clearTimeout(presenceTimer);
+      clearInterval(heartbeat);
+      window.removeEventListener('online', handleOnline);
+      const ws = socket;
+      socket = null;
+      ws?.close();
+    },
+  };
+};
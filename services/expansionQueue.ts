@@ -0,0 +1,76 @@
+import { ExpansionStatus } from "../types";
+
+// AI 扩展请求的调度：同一节点同时只有一个请求，超过并发上限的按点击顺序排队。
+// 请求开始时才读取导图（由 run 负责），因此排队期间的编辑都会反映在发送的上下文里
+
+export interface ExpansionQueue {
+  enqueue: (id: string) => boolean; // 节点已在队列或请求中时返回 false
+  cancel: (id: string) => boolean; // 取消排队或中止进行中的请求，节点不在队列中时返回 false
+  cancelWhere: (predicate: (id: string) => boolean) => void;
+  cancelAll: () => void;
+  size: () => number;
+}
+
+interface ExpansionQueueOptions {
+  concurrency: number;
+  // 执行一次扩展；signal 中止后不应再修改导图。错误由 run 自行处理
+  run: (id: string, signal: AbortSignal) => Promise<void>;
+  onChange: (status: Map<string, ExpansionStatus>) => void;
+}
+
+export const createExpansionQueue = ({ concurrency, run, onChange }: ExpansionQueueOptions): ExpansionQueue => {
+  const queued: string[] = [];
+  const running = new Map<string, AbortController>();
+
+  const notify = () => onChange(new Map<string, ExpansionStatus>([
+    ...queued.map(id => [id, 'queued'] as const),
+    ...Array.from(running.keys(), id => [id, 'running'] as const),
+  ]));
+
+  const pump = () => {
+    while (running.size < concurrency && queued.length > 0) {
+      const id = queued.shift()!;
+      const controller = new AbortController();
+      running.set(id, controller);
+      run(id, controller.signal)
+        .catch(() => {})
+        .finally(() => {
+          // 取消后同一节点可能已重新开始，只移除自己
+          if (running.get(id) === controller) running.delete(id);
+          pump();
+        });
+    }
+    notify();
+  };
+
+  const cancel = (id: string) => {
+    const index = queued.indexOf(id);
+    if (index >= 0) queued.splice(index, 1);
+    const controller = running.get(id);
+    controller?.abort();
+    running.delete(id);
+    if (index < 0 && !controller) return false;
+    pump();
+    return true;
+  };
+
+  return {
+    enqueue: (id) => {
+      if (queued.includes(id) || running.has(id)) return false;
+      queued.push(id);
+      pump();
+      return true;
+    },
+    cancel,
+    cancelWhere: (predicate) => {
+      [...queued, ...running.keys()].filter(predicate).forEach(cancel);
+    },
+    cancelAll: () => {
+      queued.length = 0;
+      running.forEach(controller => controller.abort());
+      running.clear();
+      notify();
+    },
+    size: () => queued.length + running.size,
+  };
+};
@@ -1,98 +1,316 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { Card } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY || '' });
-
-const fullMindMapSchema = {
-  type: Type.OBJECT,
-  properties: {
-    message: { type: Type.STRING },
-    children: {
-      type: Type.ARRAY,
-      items: {
-        type: Type.OBJECT,
-        properties: {
-          message: { type: Type.STRING },
-          children: {
-            type: Type.ARRAY,
-            items: {
-              type: Type.OBJECT,
-              properties: {
-                message: { type: Type.STRING },
-                children: { type: Type.ARRAY, items: { type: Type.OBJECT } }
-              }
-            }
-          }
-        }
-      }
+import { Card, ChatMessage, GenerationOptions, MapAction, NodeActionKind, SourcePassage } from "../types";
+import { PROVIDERS, RawNode, GenerateRequest, ChatTurn, SourceRequest } from "./providers";
+import { getAISettings } from "./aiSettings";
+import { parsePartialJson } from "../utils/partialJson";
+import { countDescendants, findNode, getAncestors, updateNode } from "../utils/tree";
+import { runWithConcurrency } from "../utils/concurrency";
+import { toNodeActions } from "../utils/nodeActions";
+import { chunkPassages, mergeTrees } from "../utils/sources";
+import { AIError, AIErrorKind, toAIError } from "./aiErrors";
+import { JSON_RETRY_ON, requestWithRetry, streamWithRetry } from "./aiRequest";
+
+// 对外的三个函数保持不变，实际请求交给设置中选中的 AI 后端
+const activeProvider = () => {
+  const settings = getAISettings();
+  return { provider: PROVIDERS[settings.provider], config: settings.providers[settings.provider] };
+};
+
+// 首次请求只生成前两层，更深的层级由 deepenMindMap 逐个叶子补全，避免单次输出过长被截断
+const INITIAL_PASS_DEPTH = 2;
+const DEEPEN_CONCURRENCY = 3;
+
+const initialRequest = (topic: string, options: GenerationOptions): GenerateRequest => ({
+  topic,
+  options,
+  levels: Math.min(options.depth, INITIAL_PASS_DEPTH),
+});
+
+// 流式生成期间按路径分配 id，保证同一节点在多次增量更新之间 id 不变
+const partialToCard = (raw: unknown, id: string): Card | null => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+  const item = raw as Record<string, unknown>;
+  if (typeof item.message !== 'string') return null;
+  const children = (Array.isArray(item.children) ? item.children : [])
+    .map((child, i) => partialToCard(child, `${id}-${i}`))
+    .filter((c): c is Card => c !== null);
+  return { id, message: item.message, children };
+};
+
+// 边接收边解析，每当树中出现新的完整节点就回调 onUpdate；
+// signal 中止时返回已收到的部分，而不是抛出错误。输出中途断开时同样保留已解析的部分，
+// 一个节点都没有解析出来才抛出 malformed
+export const streamMindMap = async (
+  topic: string,
+  options: GenerationOptions,
+  onUpdate: (root: Card) => void,
+  signal: AbortSignal
+): Promise<Card | null> => {
+  const { provider, config } = activeProvider();
+  const streamId = `s${Math.random().toString(36).substr(2, 6)}`;
+  let text = '';
+  let latest: Card | null = null;
+  let lastSerialized = '';
+
+  try {
+    for await (const chunk of streamWithRetry(attempt => provider.streamMindMap(initialRequest(topic, options), config, attempt), { signal })) {
+      text += chunk;
+      const card = partialToCard(parsePartialJson(text), streamId);
+      if (!card) continue;
+      const serialized = JSON.stringify(card);
+      if (serialized === lastSerialized) continue;
+      lastSerialized = serialized;
+      latest = card;
+      onUpdate(card);
     }
-  },
-  required: ["message", "children"],
+  } catch (err) {
+    if (!signal.aborted && !latest) throw toAIError(err, signal);
+  }
+  if (!latest && !signal.aborted) throw new AIError('malformed', 'AI 没有返回可用的导图内容');
+  return latest;
 };
 
-export const generateMindMap = async (topic: string): Promise<Card> => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Create a comprehensive mind map for: "${topic}". 
-    The output must be a deeply nested JSON object. Each node must have a 'message' and a 'children' array.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: fullMindMapSchema,
-      tools: [{ googleSearch: {} }]
-    },
-  });
-
-  const rawJson = JSON.parse(response.text);
-  const addIds = (node: any): Card => ({
+// 从原文生成时最多的层数，更细的内容留给用户按需扩展
+const SOURCE_MAX_LEVELS = 4;
+
+// 只保留引用了本次原文段落的 sources
+const sourceToCard = (node: RawNode, known: Set<string>): Card => {
+  const sources = (node.sources ?? []).filter(id => known.has(id));
+  return {
     id: Math.random().toString(36).substr(2, 9),
-    message: node.message || "New Topic",
-    children: (node.children || []).map((child: any) => addIds(child)),
-  });
+    message: node.message,
+    children: (node.children ?? []).map(child => sourceToCard(child, known)),
+    ...(sources.length ? { sources } : {}),
+  };
+};
 
-  return addIds(rawJson);
+// 长文本分批依次请求，每批得到一棵以 title 为根的树，按节点文字合并成一棵；
+// 任意一批失败时整体失败，onProgress 报告已完成的批数
+export const generateFromSource = async (
+  title: string,
+  passages: SourcePassage[],
+  options: GenerationOptions,
+  onProgress: (done: number, total: number) => void = () => {},
+  signal?: AbortSignal
+): Promise<Card> => {
+  const { provider, config } = activeProvider();
+  const chunks = chunkPassages(passages);
+  const known = new Set(passages.map(p => p.id));
+  let root: Card = { id: Math.random().toString(36).substr(2, 9), message: title, children: [] };
+  onProgress(0, chunks.length);
+  for (let i = 0; i < chunks.length; i++) {
+    const request: SourceRequest = { title, passages: chunks[i], part: i + 1, parts: chunks.length, levels: Math.min(options.depth, SOURCE_MAX_LEVELS) };
+    const raw = await requestWithRetry(
+      attempt => provider.generateFromSource(request, config, attempt),
+      { signal, retryOn: JSON_RETRY_ON }
+    );
+    root = mergeTrees(root, { ...sourceToCard(raw, known), message: title }).root;
+    onProgress(i + 1, chunks.length);
+  }
+  return root;
 };
 
-export const expandNode = async (parentMessage: string, context: string, fullTreeString: string): Promise<Card[]> => {
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `The user is expanding the node "${parentMessage}" in a mind map about "${context}".
-    The existing map structure is: ${fullTreeString}.
-    Provide 3 to 5 new, unique sub-topics that don't already exist in the tree.
-    Return as a JSON array of objects with 'message' and 'children' (empty array).`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            message: { type: Type.STRING },
-            children: { type: Type.ARRAY, items: { type: Type.OBJECT } }
-          },
-          required: ["message", "children"]
-        }
-      },
-    },
-  });
+// 带 id 的缩进大纲，供模型引用节点
+const outlineWithIds = (node: Card, depth = 0): string =>
+  [`${'  '.repeat(depth)}- ${node.message.replace(/\s*\n\s*/g, ' ')} [${node.id}]`, ...node.children.map(c => outlineWithIds(c, depth + 1))].join('\n');
+
+// 扩展时发送的上下文只包含节点周边：导图概况、祖先链、兄弟与已有子节点，
+// 大导图的提示词长度因此与总节点数无关
+const CONTEXT_LIST_LIMIT = 24;
+const CONTEXT_LABEL_LENGTH = 80;
+
+const contextLabel = (node: Card) => {
+  const text = node.message.replace(/\s+/g, ' ').trim();
+  return text.length > CONTEXT_LABEL_LENGTH ? `${text.slice(0, CONTEXT_LABEL_LENGTH)}…` : text;
+};
+
+const contextList = (nodes: Card[]) => {
+  const shown = nodes.slice(0, CONTEXT_LIST_LIMIT).map(contextLabel).join('; ');
+  return nodes.length > CONTEXT_LIST_LIMIT ? `${shown} (+${nodes.length - CONTEXT_LIST_LIMIT} more)` : shown;
+};
+
+export const buildExpandContext = (root: Card, nodeId: string): string | null => {
+  const node = findNode(root, nodeId);
+  if (!node) return null;
+  const ancestors = getAncestors(root, nodeId);
+  const parent = ancestors[ancestors.length - 1];
+  const lines = [`Map topic: "${contextLabel(root)}" (${countDescendants(root) + 1} nodes in total)`];
+  if (node !== root && root.children.length) lines.push(`Main branches: ${contextList(root.children)}`);
+  lines.push(`Path from the root: ${[...ancestors, node].map(contextLabel).join(' > ')}`);
+  const siblings = parent ? parent.children.filter(c => c.id !== nodeId) : [];
+  if (siblings.length) lines.push(`Siblings: ${contextList(siblings)}`);
+  lines.push(`Existing children: ${node.children.length ? contextList(node.children) : '(none)'}`);
+  return lines.map(line => `    ${line}`).join('\n');
+};
 
-  const rawJson = JSON.parse(response.text);
-  return rawJson.map((node: any) => ({
+// root 为请求开始时的最新导图；节点已不存在时返回空数组
+export const expandNode = async (
+  root: Card,
+  nodeId: string,
+  options?: Pick<GenerationOptions, 'breadth' | 'style'>,
+  signal?: AbortSignal
+): Promise<Card[]> => {
+  const node = findNode(root, nodeId);
+  const treeContext = buildExpandContext(root, nodeId);
+  if (!node || !treeContext) return [];
+  const { provider, config } = activeProvider();
+  const request = { parentMessage: node.message, context: root.message, treeContext, count: options?.breadth, style: options?.style };
+  const rawJson = await requestWithRetry(
+    attempt => provider.expandNode(request, config, attempt),
+    { signal, retryOn: JSON_RETRY_ON }
+  );
+  return rawJson.map((node) => ({
     id: Math.random().toString(36).substr(2, 9),
     message: node.message || "New Sub-topic",
     children: [],
   }));
 };
 
-export const analyzeMap = async (fullTree: Card, query: string): Promise<string> => {
-  const treeText = JSON.stringify(fullTree);
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `You are an expert strategist. Below is a JSON representation of a user's mind map:
-    ${treeText}
-    
-    The user is asking: "${query}"
-    Provide a professional, insightful response based strictly on the content of the map. Use Markdown for formatting.`,
-  });
-  return response.text || "I couldn't analyze the map at this time.";
+// 总结大分支时只发送大纲的前若干行
+const SUMMARY_OUTLINE_LINES = 400;
+
+const nodeActionOutline = (node: Card, kind: NodeActionKind) => {
+  if (kind === 'merge' || kind === 'regroup') return node.children.map(child => `- ${child.message.replace(/\s*\n\s*/g, ' ')} [${child.id}]`).join('\n');
+  if (kind !== 'summarize') return outlineWithIds({ ...node, children: [] });
+  const lines = outlineWithIds(node).split('\n');
+  return lines.length > SUMMARY_OUTLINE_LINES ? [...lines.slice(0, SUMMARY_OUTLINE_LINES), '  - …'].join('\n') : lines.join('\n');
+};
+
+// 改写、拆分、合并、总结与重新分组：返回待预览的修改，空数组表示 AI 认为无需修改
+export const runNodeAction = async (root: Card, nodeId: string, kind: NodeActionKind, signal?: AbortSignal): Promise<MapAction[]> => {
+  const node = findNode(root, nodeId);
+  const treeContext = buildExpandContext(root, nodeId);
+  if (!node || !treeContext) return [];
+  const { provider, config } = activeProvider();
+  const request = { kind, message: node.message, treeContext, outline: nodeActionOutline(node, kind) };
+  return requestWithRetry(async attempt => {
+    const actions = toNodeActions(kind, await provider.nodeAction(request, config, attempt), root, nodeId);
+    if (!actions) throw new AIError('malformed', 'AI 返回的结果不符合要求的格式');
+    return actions;
+  }, { signal, retryOn: JSON_RETRY_ON });
+};
+
+export interface BranchProgress {
+  id: string;
+  message: string;
+  done: number;
+  total: number; // 随着逐层加深会继续增长
+}
+
+interface PendingLeaf {
+  node: Card;
+  branch: Card; // 所属的第一层分支，用于统计进度
+}
+
+export interface DeepenResult {
+  root: Card;
+  skipped: AIError[]; // 扩展失败而被跳过的叶子
+}
+
+// 单个叶子的这些失败换一个节点也不会好转，停止补全并抛出，由界面提示修改设置或稍后重试
+const FATAL_DEEPEN_ERRORS: AIErrorKind[] = ['auth', 'quota', 'aborted'];
+
+// 逐层补全到目标深度：每一轮收集深度不足的叶子，以有限并发调用 expandNode，
+// 直到没有需要扩展的叶子或 signal 被中止。单个叶子的输出无法解析、被拦截或网络出错时跳过该叶子，
+// 不影响其它分支，跳过的叶子随结果返回
+export const deepenMindMap = async (
+  root: Card,
+  options: GenerationOptions,
+  onUpdate: (root: Card) => void = () => {},
+  onProgress: (branches: BranchProgress[]) => void = () => {},
+  signal?: AbortSignal
+): Promise<DeepenResult> => {
+  // 出现致命错误时中止其余进行中的请求
+  const stop = new AbortController();
+  const onAbort = () => stop.abort();
+  signal?.addEventListener('abort', onAbort);
+  let fatal: AIError | null = null;
+  const skipped: AIError[] = [];
+  let current = root;
+  const attempted = new Set<string>();
+  const progress = new Map<string, BranchProgress>(
+    root.children.map(branch => [branch.id, { id: branch.id, message: branch.message, done: 0, total: 0 }])
+  );
+  const report = () => onProgress(Array.from(progress.values()).map(p => ({ ...p })));
+
+  const collectLeaves = (): PendingLeaf[] => {
+    const leaves: PendingLeaf[] = [];
+    const walk = (node: Card, depth: number, branch: Card | null) => {
+      const owner = branch ?? node;
+      if (node.children.length === 0) {
+        if (depth > 0 && depth < options.depth && !attempted.has(node.id)) leaves.push({ node, branch: owner });
+        return;
+      }
+      node.children.forEach(child => walk(child, depth + 1, depth === 0 ? null : owner));
+    };
+    walk(current, 0, null);
+    return leaves;
+  };
+
+  while (!stop.signal.aborted) {
+    const leaves = collectLeaves();
+    if (leaves.length === 0) break;
+    leaves.forEach(({ node, branch }) => {
+      attempted.add(node.id);
+      const entry = progress.get(branch.id);
+      if (entry) entry.total++;
+    });
+    report();
+
+    await runWithConcurrency(leaves, DEEPEN_CONCURRENCY, async ({ node, branch }) => {
+      try {
+        // 使用最新的导图作为上下文，避免与兄弟节点已有的子主题重复
+        const children = await expandNode(current, node.id, options, stop.signal);
+        if (stop.signal.aborted || children.length === 0) return;
+        current = updateNode(current, node.id, n => ({ ...n, children: [...n.children, ...children] }));
+        onUpdate(current);
+      } catch (err) {
+        if (stop.signal.aborted) return;
+        const error = toAIError(err, stop.signal);
+        if (FATAL_DEEPEN_ERRORS.includes(error.kind)) {
+          fatal = error;
+          stop.abort();
+        } else {
+          skipped.push(error);
+        }
+      } finally {
+        const entry = progress.get(branch.id);
+        if (entry) entry.done++;
+        report();
+      }
+    }, stop.signal);
+  }
+  signal?.removeEventListener('abort', onAbort);
+  if (fatal) throw fatal;
+  return { root: current, skipped };
+};
+
+// 发送给助手的上下文：最近若干轮对话，以及带 id 的导图大纲
+const MAX_CHAT_TURNS = 12;
+
+// history 按时间顺序排列，最后一条为用户的新问题；每收到一段输出就以累计文本回调 onText。
+// signal 中止时返回已收到的部分，而不是抛出错误
+export const streamAssistantReply = async (
+  root: Card,
+  history: ChatMessage[],
+  onText: (text: string) => void,
+  signal: AbortSignal
+): Promise<string> => {
+  const { provider, config } = activeProvider();
+  const turns: ChatTurn[] = history
+    .filter(m => !m.status && m.text.trim())
+    .slice(-MAX_CHAT_TURNS)
+    .map(m => ({ role: m.role === 'ai' ? 'assistant' : 'user', text: m.text }));
+  // 部分模型要求对话以用户消息开头
+  while (turns.length && turns[0].role !== 'user') turns.shift();
+  let text = '';
+  try {
+    for await (const chunk of streamWithRetry(attempt => provider.streamChat({ treeText: outlineWithIds(root), turns }, config, attempt), { signal })) {
+      text += chunk;
+      onText(text);
+    }
+  } catch (err) {
+    if (!signal.aborted) throw toAIError(err, signal);
+  }
+  return text;
 };
@@ -0,0 +1,130 @@
+import { GenerateContentResponse, GoogleGenAI, Type } from "@google/genai";
+import { AIProviderConfig } from "../../types";
+import { AIError, AI_ERROR_INFO } from "../aiErrors";
+import { AIProvider } from "./types";
+import { buildAssistantInstructions, buildExpandPrompt, buildGeneratePrompt, buildNodeActionPrompt, buildSourcePrompt } from "./prompts";
+import { parseModelJson, parseNodeList, parseTree } from "./parse";
+
+// 按请求的层数递归生成 schema，不再固定为三层；从原文生成时每个节点附带段落 id
+const buildTreeSchema = (levels: number, withSources = false): Record<string, unknown> => ({
+  type: Type.OBJECT,
+  properties: {
+    message: { type: Type.STRING },
+    ...(withSources ? { sources: { type: Type.ARRAY, items: { type: Type.STRING } } } : {}),
+    children: { type: Type.ARRAY, items: levels > 0 ? buildTreeSchema(levels - 1, withSources) : { type: Type.OBJECT } },
+  },
+  required: ["message", "children"],
+});
+
+const expandSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      message: { type: Type.STRING },
+      children: { type: Type.ARRAY, items: { type: Type.OBJECT } }
+    },
+    required: ["message", "children"]
+  }
+};
+
+// 按 key 缓存客户端；key 只来自用户在设置中填写的值，不随构建注入
+const clients = new Map<string, GoogleGenAI>();
+const getClient = (config: AIProviderConfig) => {
+  const apiKey = config.apiKey.trim();
+  if (!apiKey) throw new AIError('auth', '尚未填写 Gemini API Key');
+  let client = clients.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clients.set(apiKey, client);
+  }
+  return client;
+};
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY'];
+
+// 被拦截的响应不会抛错，只是 text 为空，需要检查提示反馈与结束原因
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = String(response.candidates?.[0]?.finishReason ?? '');
+  const reason = response.promptFeedback?.blockReason ?? (BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : null);
+  if (reason) throw new AIError('safety', `${AI_ERROR_INFO.safety.title}（${reason}）`);
+};
+
+async function* streamText(stream: AsyncGenerator<GenerateContentResponse>, signal: AbortSignal): AsyncGenerator<string> {
+  for await (const chunk of stream) {
+    if (signal.aborted) return;
+    assertNotBlocked(chunk);
+    if (chunk.text) yield chunk.text;
+  }
+}
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+
+  streamMindMap: async function* (request, config, signal) {
+    const stream = await getClient(config).models.generateContentStream({
+      model: config.model,
+      contents: buildGeneratePrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: buildTreeSchema(request.levels),
+        tools: [{ googleSearch: {} }],
+        abortSignal: signal,
+      },
+    });
+    yield* streamText(stream, signal);
+  },
+
+  generateFromSource: async (request, config, signal) => {
+    const response = await getClient(config).models.generateContent({
+      model: config.model,
+      contents: buildSourcePrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: buildTreeSchema(request.levels, true),
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
+    return parseTree(response.text);
+  },
+
+  expandNode: async (request, config, signal) => {
+    const response = await getClient(config).models.generateContent({
+      model: config.model,
+      contents: buildExpandPrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: expandSchema,
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
+    return parseNodeList(response.text);
+  },
+
+  nodeAction: async (request, config, signal) => {
+    const response = await getClient(config).models.generateContent({
+      model: config.model,
+      contents: buildNodeActionPrompt(request),
+      config: {
+        responseMimeType: "application/json",
+        abortSignal: signal,
+      },
+    });
+    assertNotBlocked(response);
+    return parseModelJson(response.text);
+  },
+
+  streamChat: async function* (request, config, signal) {
+    const stream = await getClient(config).models.generateContentStream({
+      model: config.model,
+      contents: request.turns.map(turn => ({ role: turn.role === 'assistant' ? 'model' : 'user', parts: [{ text: turn.text }] })),
+      config: {
+        systemInstruction: buildAssistantInstructions(request.treeText),
+        abortSignal: signal,
+      },
+    });
+    yield* streamText(stream, signal);
+  },
+};
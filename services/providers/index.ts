@@ -0,0 +1,37 @@
+import { AIProviderConfig, AIProviderId } from "../../types";
+import { AIProvider } from "./types";
+import { geminiProvider } from "./gemini";
+import { openAIProvider } from "./openai";
+import { mockProvider } from "./mock";
+
+export const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+};
+
+export const PROVIDER_INFO: Record<AIProviderId, { label: string; description: string; defaults: AIProviderConfig; needsKey: boolean; needsBaseUrl: boolean }> = {
+  gemini: {
+    label: 'Google Gemini',
+    description: '云端 Gemini 模型，需要 API Key。',
+    defaults: { model: 'gemini-3-flash-preview', apiKey: '', baseUrl: '' },
+    needsKey: true,
+    needsBaseUrl: false,
+  },
+  openai: {
+    label: 'OpenAI 兼容端点',
+    description: 'llama.cpp / Ollama / vLLM 等本地或自建服务。',
+    defaults: { model: 'llama3.1', apiKey: '', baseUrl: 'http://localhost:11434/v1' },
+    needsKey: false,
+    needsBaseUrl: true,
+  },
+  mock: {
+    label: '离线 Mock',
+    description: '确定性的模拟数据，无需网络，适合开发与测试。',
+    defaults: { model: 'mock-v1', apiKey: '', baseUrl: '' },
+    needsKey: false,
+    needsBaseUrl: false,
+  },
+};
+
+export type { AIProvider, RawNode, GenerateRequest, ChatTurn, NodeActionRequest, SourceRequest } from "./types";
@@ -0,0 +1,145 @@
+import { GenerationOptions } from "../../types";
+import { ACTIONS_FENCE } from "../../utils/mapActions";
+import { AIProvider, ChatRequest, GenerateRequest, NodeActionRequest, RawNode, SourceRequest } from "./types";
+
+// 离线开发与测试用的确定性后端：相同输入总是得到相同输出，不访问网络
+const MOCK_LATENCY = 300;
+
+const delay = () => new Promise(resolve => setTimeout(resolve, MOCK_LATENCY));
+
+const hash = (text: string) => {
+  let h = 0;
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0;
+  return Math.abs(h);
+};
+
+const ASPECTS = ['目标', '背景', '关键问题', '资源', '风险', '里程碑', '衡量指标', '下一步'];
+
+const pickAspects = (seed: string, count: number) => {
+  const start = hash(seed) % ASPECTS.length;
+  return Array.from({ length: count }, (_, i) => ASPECTS[(start + i) % ASPECTS.length]);
+};
+
+const buildBranch = (message: string, options: GenerationOptions, levels: number): RawNode => ({
+  message,
+  children: levels <= 0 ? [] : pickAspects(message, options.breadth).map(aspect => buildBranch(`${message} · ${aspect}`, options, levels - 1)),
+});
+
+const buildMindMap = ({ topic, options, levels }: GenerateRequest): RawNode => buildBranch(topic, options, levels);
+
+const clip = (text: string) => (text.length > 24 ? `${text.slice(0, 24)}…` : text);
+
+// 每个段落成为一个分支：标题或首句作为分支名，其后几句作为子节点
+const buildSourceMap = ({ title, passages, levels }: SourceRequest): RawNode => ({
+  message: title,
+  children: passages.map(({ id, text }) => {
+    const [head, ...rest] = text.split(/\n+|(?<=[。！？!?])/).map(s => s.replace(/^#+\s*|^[-*]\s*/, '').trim()).filter(Boolean);
+    return {
+      message: clip(head ?? id),
+      sources: [id],
+      children: levels > 1 ? rest.slice(0, 3).map(s => ({ message: clip(s), sources: [id], children: [] })) : [],
+    };
+  }),
+});
+
+const STREAM_CHUNK = 24;
+
+// 把文本切成小段并逐段延迟输出，模拟真实的流式响应
+async function* streamText(text: string, signal: AbortSignal): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += STREAM_CHUNK) {
+    if (signal.aborted) return;
+    await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY / 10));
+    yield text.slice(i, i + STREAM_CHUNK);
+  }
+}
+
+const EDIT_WORDS = /添加|补充|增加|add/i;
+
+// 解析 "- 文本 [id]" 格式的缩进大纲
+const parseOutline = (text: string) =>
+  Array.from(text.matchAll(/^( *)- (.*) \[([^\]]+)\]$/gm), m => ({ depth: m[1].length / 2, message: m[2], id: m[3] }));
+
+// 问题中含"添加"等字样时，在子节点最少的第一层分支下建议两个新节点
+const buildChatReply = ({ treeText, turns }: ChatRequest) => {
+  const query = turns[turns.length - 1]?.text ?? '';
+  const nodes = parseOutline(treeText);
+  const lines = [
+    `**模拟分析**（离线 Mock 后端）`,
+    '',
+    `- 问题：${query}`,
+    `- 这是本次对话的第 **${turns.filter(t => t.role === 'user').length}** 个问题`,
+    `- 导图共包含 **${nodes.length}** 个节点`,
+  ];
+  if (!EDIT_WORDS.test(query) || nodes.length === 0) {
+    lines.push('- 建议：优先补充节点较少的分支，并为关键节点添加可执行的下一步。');
+    return lines.join('\n');
+  }
+  // 后代数量 = 到下一个同层或更浅节点之前的行数
+  const sizeOf = (i: number) => {
+    const end = nodes.findIndex((n, j) => j > i && n.depth <= nodes[i].depth);
+    return (end < 0 ? nodes.length : end) - i - 1;
+  };
+  const branches = nodes.map((node, i) => ({ node, size: sizeOf(i) })).filter(b => b.node.depth === 1);
+  const parent = branches.length ? branches.reduce((a, b) => (b.size < a.size ? b : a)).node : nodes[0];
+  const actions = pickAspects(parent.message, 2).map(aspect => ({ op: 'add', parent: parent.id, text: `${parent.message} · ${aspect}` }));
+  lines.push(`- 建议在 [${parent.message}](node:${parent.id}) 下补充 ${actions.map(a => `「${a.text}」`).join('、')}。`);
+  return [...lines, '', '```' + ACTIONS_FENCE, JSON.stringify(actions, null, 2), '```'].join('\n');
+};
+
+const normalize = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+const buildNodeAction = ({ kind, message, outline }: NodeActionRequest) => {
+  const nodes = parseOutline(outline);
+  switch (kind) {
+    case 'rephrase': return { message: `${message}（具体化）` };
+    case 'split': return { children: pickAspects(message, 3).map(aspect => ({ message: `${message} · ${aspect}` })) };
+    case 'merge': {
+      // 忽略大小写、空白与标点后文字相同的子节点视为重复
+      const byKey = new Map<string, typeof nodes>();
+      nodes.forEach(node => byKey.set(normalize(node.message), [...(byKey.get(normalize(node.message)) ?? []), node]));
+      return {
+        groups: Array.from(byKey.values()).filter(group => group.length > 1)
+          .map(([keep, ...rest]) => ({ keep: keep.id, merge: rest.map(n => n.id), message: keep.message })),
+      };
+    }
+    case 'summarize': return {
+      summary: [`- 「${message}」下共有 ${nodes.length - 1} 个节点`, ...nodes.filter(n => n.depth === 1).map(n => `- ${n.message}`)].join('\n'),
+    };
+    case 'regroup': {
+      const aspects = pickAspects(message, 2);
+      return { groups: aspects.map((aspect, g) => ({ message: `${message} · ${aspect}`, children: nodes.filter((_, i) => i % aspects.length === g).map(n => n.id) })) };
+    }
+  }
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+
+  streamMindMap: (request, _config, signal) => streamText(JSON.stringify(buildMindMap(request)), signal),
+
+  generateFromSource: async (request, _config, signal) => {
+    await delay();
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    return buildSourceMap(request);
+  },
+
+  expandNode: async ({ parentMessage, treeContext, count }, _config, signal) => {
+    await delay();
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    // 按已存在的子主题数量继续编号，保证多次扩展不重复
+    const escaped = parentMessage.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const existing = (treeContext.match(new RegExp(`${escaped} - 要点 \\d+`, 'g')) || []).length;
+    return Array.from({ length: count || 3 }, (_, i) => ({ message: `${parentMessage} - 要点 ${existing + i + 1}`, children: [] }));
+  },
+
+  nodeAction: async (request, _config, signal) => {
+    await delay();
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    return buildNodeAction(request);
+  },
+
+  streamChat: async function* (request, _config, signal) {
+    await delay();
+    yield* streamText(buildChatReply(request), signal);
+  },
+};
@@ -0,0 +1,113 @@
+import { AIProviderConfig } from "../../types";
+import { AIError, AI_ERROR_INFO, kindFromStatus } from "../aiErrors";
+import { AIProvider } from "./types";
+import { buildAssistantInstructions, buildExpandPrompt, buildGeneratePrompt, buildNodeActionPrompt, buildSourcePrompt } from "./prompts";
+import { parseModelJson, parseNodeList, parseTree } from "./parse";
+
+interface Message {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+// 错误响应体多为 { "error": { "message": "..." } }，取其中的说明附在提示后面
+const httpError = async (res: Response) => {
+  const kind = kindFromStatus(res.status) ?? 'network';
+  const body = await res.text().catch(() => '');
+  let detail = body;
+  try {
+    const parsed = JSON.parse(body);
+    detail = parsed.error?.message ?? parsed.error ?? parsed.message ?? body;
+  } catch {
+    // 非 JSON 响应体直接展示
+  }
+  // Retry-After 可能是秒数或 HTTP 日期
+  const header = res.headers.get('Retry-After');
+  const retryAfterMs = header === null ? undefined
+    : /^\d+$/.test(header.trim()) ? Number(header) * 1000
+    : Math.max(0, Date.parse(header) - Date.now()) || undefined;
+  const suffix = typeof detail === 'string' && detail.trim() ? `：${detail.trim().slice(0, 120)}` : '';
+  return new AIError(kind, `${AI_ERROR_INFO[kind].title}（HTTP ${res.status}${suffix}）`, { status: res.status, retryAfterMs });
+};
+
+const assertNotFiltered = (finishReason: unknown) => {
+  if (finishReason === 'content_filter') throw new AIError('safety');
+};
+
+// 适用于任何实现了 /chat/completions 的本地或私有端点（llama.cpp server、Ollama、vLLM 等）
+const request = async (messages: Message[], config: AIProviderConfig, json: boolean, stream: boolean, signal?: AbortSignal) => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  const res = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers,
+    signal,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      stream,
+      ...(json ? { response_format: { type: 'json_object' } } : {}),
+    }),
+  });
+  if (!res.ok) throw await httpError(res);
+  return res;
+};
+
+const chat = async (prompt: string, config: AIProviderConfig, json: boolean, signal?: AbortSignal): Promise<string> => {
+  const data = await (await request([{ role: 'user', content: prompt }], config, json, false, signal)).json();
+  assertNotFiltered(data.choices?.[0]?.finish_reason);
+  return data.choices?.[0]?.message?.content ?? '';
+};
+
+// 解析 SSE：每行 "data: {...}"，以 "data: [DONE]" 结束
+async function* streamCompletion(messages: Message[], config: AIProviderConfig, json: boolean, signal: AbortSignal): AsyncGenerator<string> {
+  const res = await request(messages, config, json, true, signal);
+  if (!res.body) return;
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !payload) continue;
+      if (payload === '[DONE]') return;
+      const data = JSON.parse(payload);
+      // 部分服务在流中途以 { "error": ... } 报告失败
+      if (data.error) throw new AIError('network', `${AI_ERROR_INFO.network.title}：${data.error.message ?? data.error}`);
+      const choice = data.choices?.[0];
+      if (choice?.delta?.content) yield choice.delta.content;
+      assertNotFiltered(choice?.finish_reason);
+    }
+  }
+}
+
+const JSON_ONLY = '\nRespond with JSON only, no commentary.';
+
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+
+  streamMindMap: (request, config, signal) =>
+    streamCompletion([{ role: 'user', content: buildGeneratePrompt(request) + JSON_ONLY }], config, true, signal),
+
+  generateFromSource: async (request, config, signal) => parseTree(await chat(buildSourcePrompt(request) + JSON_ONLY, config, true, signal)),
+
+  expandNode: async (request, config, signal) => {
+    // json_object 模式要求顶层为对象，因此让模型用 { "children": [...] } 包一层
+    const prompt = buildExpandPrompt(request) + `\nWrap the array as {"children": [...]}.` + JSON_ONLY;
+    return parseNodeList(await chat(prompt, config, true, signal));
+  },
+
+  nodeAction: async (request, config, signal) => parseModelJson(await chat(buildNodeActionPrompt(request) + JSON_ONLY, config, true, signal)),
+
+  streamChat: (request, config, signal) => streamCompletion(
+    [{ role: 'system', content: buildAssistantInstructions(request.treeText) }, ...request.turns.map(turn => ({ role: turn.role, content: turn.text }))],
+    config,
+    false,
+    signal
+  ),
+};
@@ -0,0 +1,61 @@
+import { AIError } from "../aiErrors";
+import { parsePartialJson } from "../../utils/partialJson";
+import { RawNode } from "./types";
+
+// 校验模型返回的 JSON：丢弃不合格的节点，截断或夹带说明文字的输出尽量恢复出完整的部分，
+// 完全无法使用时抛出 kind 为 malformed 的 AIError
+
+const MAX_DEPTH = 8;
+
+// 本地模型常把 JSON 包在 ```json 代码块里，或在前后附带说明
+export const parseModelJson = (text: string | undefined): unknown => {
+  if (!text?.trim()) throw new AIError('malformed', 'AI 返回了空内容');
+  const stripped = text.replace(/^\s*```(?:json)?\s*/i, '').replace(/\s*```\s*$/, '');
+  try {
+    return JSON.parse(stripped);
+  } catch (err) {
+    const recovered = parsePartialJson(stripped);
+    if (recovered === undefined) throw new AIError('malformed', undefined, { cause: err });
+    return recovered;
+  }
+};
+
+const asMessage = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// 兼容 title/text/name 等常见字段名；子节点写成纯字符串时也接受
+const toRawNode = (value: unknown, depth: number): RawNode | null => {
+  const direct = asMessage(value);
+  if (direct) return { message: direct, children: [] };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const item = value as Record<string, unknown>;
+  const message = asMessage(item.message) ?? asMessage(item.title) ?? asMessage(item.text) ?? asMessage(item.name);
+  if (!message) return null;
+  const children = depth < MAX_DEPTH && Array.isArray(item.children) ? toRawNodes(item.children, depth + 1) : [];
+  const sources = Array.isArray(item.sources) ? item.sources.filter((id): id is string => typeof id === 'string') : [];
+  return sources.length ? { message, children, sources } : { message, children };
+};
+
+const toRawNodes = (values: unknown[], depth: number) =>
+  values.map(value => toRawNode(value, depth)).filter((node): node is RawNode => node !== null);
+
+export const parseTree = (text: string | undefined): RawNode => {
+  const value = parseModelJson(text);
+  const wrapped = value && typeof value === 'object' && 'root' in value ? (value as { root: unknown }).root : value;
+  const node = Array.isArray(wrapped) ? null : toRawNode(wrapped, 0);
+  if (!node) throw new AIError('malformed', 'AI 返回的内容不是一棵导图');
+  return node;
+};
+
+// 接受数组、{ children: [...] }、{ nodes: [...] } 或单个节点
+export const parseNodeList = (text: string | undefined): RawNode[] => {
+  const value = parseModelJson(text);
+  let list: unknown[] = [];
+  if (Array.isArray(value)) list = value;
+  else if (value && typeof value === 'object') {
+    const item = value as Record<string, unknown>;
+    list = Array.isArray(item.children) ? item.children : Array.isArray(item.nodes) ? item.nodes : [value];
+  }
+  const nodes = toRawNodes(list, 1);
+  if (nodes.length === 0) throw new AIError('malformed', 'AI 没有返回可用的子节点');
+  return nodes;
+};
@@ -0,0 +1,58 @@
+import { GenerationStyle, NodeActionKind } from "../../types";
+import { ACTIONS_FENCE } from "../../utils/mapActions";
+import { ExpandRequest, GenerateRequest, NodeActionRequest, SourceRequest } from "./types";
+
+const STYLE_GUIDES: Record<GenerationStyle, string> = {
+  brainstorm: 'Brainstorm divergently: varied, creative ideas with short, punchy labels.',
+  study: 'Write a study outline: key concepts, definitions, examples and connections, ordered for learning.',
+  project: 'Write a project breakdown: phases, deliverables and concrete, actionable tasks.',
+};
+
+export const buildGeneratePrompt = ({ topic, options, levels }: GenerateRequest) => `Create a comprehensive mind map for: "${topic}". 
+    The output must be a nested JSON object. Each node must have a 'message' and a 'children' array.
+    The root is the topic itself. Go exactly ${levels} level(s) deep below the root, with about ${options.breadth} children per node; nodes on the deepest level have an empty 'children' array.
+    ${STYLE_GUIDES[options.style]}`;
+
+export const buildSourcePrompt = ({ title, passages, part, parts, levels }: SourceRequest) => `Turn the text below into a mind map of its structure and key points.
+    ${parts > 1 ? `The text is part ${part} of ${parts} of a longer document titled "${title}". Map only what this part says; the root is the document title.` : `The root is the document's main topic, titled "${title}".`}
+    Go at most ${levels} level(s) deep below the root. Keep labels short (a phrase, not a sentence), write them in the language of the text, and do not add ideas that are not in the text.
+    Each passage below starts with its id in square brackets. Give every node a 'sources' array with the ids of the passages it is based on.
+    The output must be a nested JSON object: {"message": "...", "sources": ["<id>"], "children": [...]}.
+    Text:
+${passages.map(p => `[${p.id}] ${p.text}`).join('\n\n')}`;
+
+export const buildExpandPrompt = ({ parentMessage, context, treeContext, count, style }: ExpandRequest) => `The user is expanding the node "${parentMessage}" in a mind map about "${context}".
+    The relevant part of the map is:
+${treeContext}
+    Provide ${count ? `exactly ${count}` : '3 to 5'} new, unique sub-topics that don't already exist in the tree.${style ? `\n    ${STYLE_GUIDES[style]}` : ''}
+    Return as a JSON array of objects with 'message' and 'children' (empty array).`;
+
+const NODE_ACTION_GUIDES: Record<NodeActionKind, string> = {
+  rephrase: 'Rephrase the label of this node so it is clearer and more specific, keeping its meaning and language. Return {"message": "<new label>"}.',
+  split: 'This node is too vague or mixes several ideas. Split it into 2 to 5 specific sibling nodes that together replace it, in the same language. Return {"children": [{"message": "..."}]}.',
+  merge: 'Find children below that duplicate each other or mean nearly the same thing. For each set, keep one and write a label that covers all of them. Return {"groups": [{"keep": "<id>", "merge": ["<id>", ...], "message": "<merged label>"}]}, or {"groups": []} if nothing is duplicated.',
+  summarize: 'Summarize the whole branch below into a short Markdown note of 3 to 6 bullet points with its key ideas, in the same language. Return {"summary": "<markdown>"}.',
+  regroup: 'Organize the children below into 2 to 6 logical groups with short names in the same language. Every child id must appear in exactly one group. Return {"groups": [{"message": "<group label>", "children": ["<id>", ...]}]}.',
+};
+
+export const buildNodeActionPrompt = ({ kind, message, treeContext, outline }: NodeActionRequest) => `You are editing the node "${message}" in a mind map.
+    The relevant part of the map is:
+${treeContext}
+    Nodes, with their ids in brackets:
+${outline}
+    ${NODE_ACTION_GUIDES[kind]}`;
+
+// 多轮对话的系统指令：导图以 "- 文本 [id]" 的缩进大纲给出，修改建议放在固定格式的代码块里
+export const buildAssistantInstructions = (treeText: string) => `You are an expert strategist helping the user think through and edit their mind map.
+    The current mind map is given as an indented outline; each node ends with its id in square brackets:
+    ${treeText}
+
+    Answer based on the content of the map and the conversation so far. Use Markdown for formatting, and reply in the user's language.
+    When the user asks you to change the map (or a change would clearly help and they agree), append ONE fenced code block tagged \`${ACTIONS_FENCE}\` at the very end of your reply, containing a JSON array of edits:
+    {"op": "add", "parent": "<id or ref>", "text": "<label>", "ref": "<optional temporary name for the new node>"}
+    {"op": "rename", "id": "<id>", "text": "<new label>"}
+    {"op": "move", "id": "<id>", "parent": "<new parent id or ref>"}
+    {"op": "delete", "id": "<id>"}
+    Use only ids from the outline or refs introduced by earlier "add" edits in the same block.
+    When the prose mentions an existing node, write it as a Markdown link [label](node:<id>) so the user can jump to it; never show bare ids.
+    The user previews the edits and decides whether to apply them, so describe what you propose in the prose too.`;
@@ -0,0 +1,63 @@
+import { AIProviderConfig, AIProviderId, GenerationOptions, GenerationStyle, NodeActionKind, SourcePassage } from "../../types";
+
+// 模型返回的原始节点，尚未分配 id
+export interface RawNode {
+  message: string;
+  children?: RawNode[];
+  sources?: string[]; // 从原文生成时依据的段落 id
+}
+
+export interface GenerateRequest {
+  topic: string;
+  options: GenerationOptions;
+  levels: number; // 本次请求实际生成的层数，更深的层级由后续 expandNode 补全
+}
+
+export interface SourceRequest {
+  title: string;
+  passages: SourcePassage[]; // 本批发送的段落
+  part: number; // 从 1 开始
+  parts: number;
+  levels: number;
+}
+
+export interface ExpandRequest {
+  parentMessage: string;
+  context: string; // 导图主题
+  treeContext: string; // 节点周边的结构摘要：祖先、兄弟与已有子节点
+  count?: number;
+  style?: GenerationStyle;
+}
+
+export interface NodeActionRequest {
+  kind: NodeActionKind;
+  message: string; // 目标节点文本
+  treeContext: string; // 同 ExpandRequest
+  outline: string; // 带 id 的缩进大纲：总结时为整个分支，合并与分组时为直接子节点，其余为节点本身
+}
+
+export interface ChatTurn {
+  role: 'user' | 'assistant';
+  text: string;
+}
+
+export interface ChatRequest {
+  treeText: string; // 带 id 的缩进大纲，供模型引用节点
+  turns: ChatTurn[]; // 按时间顺序，最后一条为用户的新问题
+}
+
+// 每个 AI 后端只负责传输与解析，提示词与 id 分配由 geminiService 统一处理，
+// 超时与重试由 services/aiRequest.ts 统一处理。失败时应抛出 AIError（见 services/aiErrors.ts），
+// 无法归类的错误由请求层按状态码与错误文本推断
+export interface AIProvider {
+  id: AIProviderId;
+  // 逐段产出模型输出的 JSON 文本，signal 中止后应尽快结束
+  streamMindMap: (request: GenerateRequest, config: AIProviderConfig, signal: AbortSignal) => AsyncGenerator<string>;
+  // 根据原文段落生成导图，节点的 sources 引用段落 id
+  generateFromSource: (request: SourceRequest, config: AIProviderConfig, signal?: AbortSignal) => Promise<RawNode>;
+  expandNode: (request: ExpandRequest, config: AIProviderConfig, signal?: AbortSignal) => Promise<RawNode[]>;
+  // 返回解析后的 JSON，结构由 utils/nodeActions.ts 按 kind 校验
+  nodeAction: (request: NodeActionRequest, config: AIProviderConfig, signal?: AbortSignal) => Promise<unknown>;
+  // 多轮对话，逐段产出回复的 Markdown 文本
+  streamChat: (request: ChatRequest, config: AIProviderConfig, signal: AbortSignal) => AsyncGenerator<string>;
+}
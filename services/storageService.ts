@@ -0,0 +1,191 @@
+import { Card, DocumentMeta, LayoutDirection, MindMapDocument } from "../types";
+import { CURRENT_SCHEMA_VERSION, DocumentSchemaError, ValidationResult, isObject, upgradeDocument } from "../utils/documentSchema";
+
+const DB_NAME = 'mindspark_workspace';
+const DB_VERSION = 1;
+const DOC_STORE = 'documents';
+const META_STORE = 'meta'; // 仅保存标题和时间戳，列出文档库时不必读取整棵树
+
+const ACTIVE_DOC_KEY = 'gemini_mind_map_active_doc';
+
+// 旧版单文档存储，首次加载时迁移进文档库
+const LEGACY_STORAGE_KEY = 'gemini_mind_map_data_v4';
+const LEGACY_LAYOUT_KEY = 'gemini_mind_map_layout_v4';
+const LEGACY_HISTORY_KEY = 'gemini_mind_map_history_v4';
+const LEGACY_BACKUP_KEY = 'gemini_mind_map_data_v4_corrupt';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(DOC_STORE)) db.createObjectStore(DOC_STORE, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'id' });
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => {
+        dbPromise = null;
+        reject(req.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runTransaction = async <T>(
+  stores: string[],
+  mode: IDBTransactionMode,
+  body: (tx: IDBTransaction) => IDBRequest<T> | void
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, mode);
+    const req = body(tx);
+    tx.oncomplete = () => resolve(req ? req.result : (undefined as T));
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const toMeta = ({ id, title, createdAt, updatedAt }: DocumentMeta): DocumentMeta => ({ id, title, createdAt, updatedAt });
+
+export const createDocumentId = () => `doc-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`;
+
+export const createDocument = (title: string, root: Card | null, layout: LayoutDirection): MindMapDocument => {
+  const now = Date.now();
+  return { schemaVersion: CURRENT_SCHEMA_VERSION, id: createDocumentId(), title, createdAt: now, updatedAt: now, root, layout, past: [], future: [], threads: [], sources: [], collab: null };
+};
+
+export const listDocuments = async (): Promise<DocumentMeta[]> => {
+  const metas = await runTransaction<DocumentMeta[]>([META_STORE], 'readonly', tx => tx.objectStore(META_STORE).getAll());
+  return metas.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+// 读取时经过迁移链与校验；发生过修复的文档立即写回，避免下次重复迁移
+export const loadDocument = async (id: string): Promise<ValidationResult<MindMapDocument> | undefined> => {
+  const raw = await runTransaction<unknown>([DOC_STORE], 'readonly', tx => tx.objectStore(DOC_STORE).get(id));
+  if (raw === undefined) return undefined;
+  const result = upgradeDocument(raw);
+  result.value.id = id;
+  if (result.issues.length > 0) await saveDocument(result.value);
+  return result;
+};
+
+export const saveDocument = (doc: MindMapDocument): Promise<void> =>
+  runTransaction<void>([DOC_STORE, META_STORE], 'readwrite', tx => {
+    tx.objectStore(DOC_STORE).put(doc);
+    tx.objectStore(META_STORE).put(toMeta(doc));
+  });
+
+export const deleteDocument = (id: string): Promise<void> =>
+  runTransaction<void>([DOC_STORE, META_STORE], 'readwrite', tx => {
+    tx.objectStore(DOC_STORE).delete(id);
+    tx.objectStore(META_STORE).delete(id);
+  });
+
+export const renameDocument = async (id: string, title: string): Promise<void> => {
+  const loaded = await loadDocument(id);
+  if (!loaded) return;
+  await saveDocument({ ...loaded.value, title, updatedAt: Date.now() });
+};
+
+export const duplicateDocument = async (id: string): Promise<MindMapDocument | undefined> => {
+  const loaded = await loadDocument(id);
+  if (!loaded) return undefined;
+  const doc = loaded.value;
+  // 节点上的原文链接指向 sources，需要一并复制
+  const copy = { ...createDocument(`${doc.title} (副本)`, doc.root, doc.layout), sources: doc.sources };
+  await saveDocument(copy);
+  return copy;
+};
+
+export const getActiveDocumentId = () => localStorage.getItem(ACTIVE_DOC_KEY);
+export const setActiveDocumentId = (id: string) => localStorage.setItem(ACTIVE_DOC_KEY, id);
+
+// 把旧版 localStorage 中的单张导图迁移为文档库中的一篇文档，成功后清理旧键
+export const migrateLegacyStorage = async (): Promise<ValidationResult<MindMapDocument> | null> => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return null;
+
+  let tree: unknown;
+  try {
+    tree = JSON.parse(saved);
+  } catch {
+    // 无法解析的旧数据另存备份，不再阻塞启动
+    localStorage.setItem(LEGACY_BACKUP_KEY, saved);
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    throw new DocumentSchemaError(`旧版导图数据已损坏，原始内容已备份到 ${LEGACY_BACKUP_KEY}。`);
+  }
+
+  // v4 的布局和历史保存在单独的键中，迁移后再并入信封一起校验
+  let history: Record<string, unknown> = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(LEGACY_HISTORY_KEY) || '{}');
+    if (isObject(parsed)) history = parsed;
+  } catch {
+    // 历史记录损坏时只迁移导图本身
+  }
+  const migrated = upgradeDocument(tree);
+  const result = upgradeDocument({
+    ...migrated.value,
+    layout: localStorage.getItem(LEGACY_LAYOUT_KEY) || migrated.value.layout,
+    past: history.past,
+    future: history.future,
+  });
+  result.issues.unshift(...migrated.issues);
+
+  await saveDocument(result.value);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_LAYOUT_KEY);
+  localStorage.removeItem(LEGACY_HISTORY_KEY);
+  return result;
+};
+
+export interface WorkspaceState {
+  documents: DocumentMeta[];
+  active: MindMapDocument;
+  issues: string[];
+}
+
+let workspacePromise: Promise<WorkspaceState> | null = null;
+
+// 启动时只执行一次：迁移旧数据、确保文档库非空、打开上次使用的文档
+export const initWorkspace = (fallback: () => MindMapDocument) => {
+  if (!workspacePromise) {
+    workspacePromise = (async () => {
+      const issues: string[] = [];
+      try {
+        const migrated = await migrateLegacyStorage();
+        if (migrated) issues.push(...migrated.issues);
+      } catch (err) {
+        if (!(err instanceof DocumentSchemaError)) throw err;
+        issues.push(err.message);
+      }
+
+      let documents = await listDocuments();
+      const activeId = getActiveDocumentId();
+      const candidates = [...documents].sort((a, b) => (a.id === activeId ? -1 : b.id === activeId ? 1 : 0));
+      for (const candidate of candidates) {
+        try {
+          const loaded = await loadDocument(candidate.id);
+          if (!loaded) continue;
+          issues.push(...loaded.issues);
+          return { documents: await listDocuments(), active: loaded.value, issues };
+        } catch (err) {
+          if (!(err instanceof DocumentSchemaError)) throw err;
+          issues.push(`「${candidate.title}」无法打开：${err.message}`);
+        }
+      }
+
+      const doc = fallback();
+      await saveDocument(doc);
+      documents = await listDocuments();
+      return { documents, active: doc, issues };
+    })();
+    workspacePromise.catch(() => { workspacePromise = null; });
+  }
+  return workspacePromise;
+};
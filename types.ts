@@ -1,15 +1,145 @@
 
+export type NodePriority = 1 | 2 | 3;
+export type NodeStatus = 'todo' | 'doing' | 'done' | 'blocked';
+
 export interface Card {
   id: string;
   message: string;
   children: Card[];
-  isExpanding?: boolean;
+  collapsed?: boolean;
+  // 以下为可选的富信息字段，未设置时不写入存储
+  notes?: string;      // Markdown 备注
+  tags?: string[];
+  color?: string;      // 卡片底色，#rrggbb
+  icon?: string;       // emoji 或单个字符
+  url?: string;
+  priority?: NodePriority; // 1 最高
+  status?: NodeStatus;
+  sources?: string[];  // 生成时依据的原文段落 id，见 MindMapDocument.sources
+}
+
+export interface HistoryEntry {
+  label: string;
+  root: Card | null;
 }
 
 export interface MindMapState {
   root: Card | null;
   loading: boolean;
   error: string | null;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+// MIXED: L1横向 + L2+阶梯；LR: 经典树形；TB: 组织结构图；BALANCED: 左右平衡导图
+export type LayoutDirection = 'MIXED' | 'LR' | 'TB' | 'BALANCED';
+
+export interface DocumentMeta {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MindMapDocument extends DocumentMeta {
+  schemaVersion: number;
+  root: Card | null;
+  layout: LayoutDirection;
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+  threads: ChatThread[]; // AI 助手对话，随文档保存
+  sources: SourceDocument[]; // 从文本生成导图时导入的原文
+  collab: CrdtState | null; // 开启协作后的 CRDT 状态，房间名即文档 id；离线修改靠它在重连后同步
+}
+
+// 协作文档的 CRDT 状态：节点 id → 字段 → 带时间戳的值，见 utils/crdt.ts
+export interface CrdtRegister {
+  v: unknown;
+  t: string; // Lamport 时间戳，可直接按字符串比较
+}
+
+export type CrdtState = Record<string, Record<string, CrdtRegister>>;
+
+export type CollabStatus = 'connecting' | 'online' | 'offline';
+
+export interface CollabSettings {
+  relayUrl: string; // 协作中继地址，房间名拼在路径上
+  name: string; // 显示给其他协作者的名字
+  color: string;
+}
+
+// 同一房间中的其他协作者；cursor 为对方布局下的地图坐标，不在画布上时为 null
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  cursor: { x: number; y: number } | null;
+  layout: LayoutDirection | null; // 布局不同时光标位置没有意义，不显示
+  selection: string[];
+}
+
+// 原文按段落切分；段落 id 由内容计算，文档更新后未改动的段落 id 不变
+export interface SourcePassage {
+  id: string;
+  text: string;
+}
+
+export interface SourceDocument {
+  id: string;
+  name: string; // 标题或文件名，重新导入同名文档时合并到同一份原文
+  passages: SourcePassage[];
+  importedAt: number;
 }
 
-export type LayoutDirection = 'LR' | 'TB';
+export type AIProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface AIProviderConfig {
+  model: string;
+  apiKey: string;
+  baseUrl: string;
+}
+
+export interface AISettings {
+  provider: AIProviderId;
+  providers: Record<AIProviderId, AIProviderConfig>;
+}
+
+export type GenerationStyle = 'brainstorm' | 'study' | 'project';
+
+export interface GenerationOptions {
+  depth: number;   // 根节点以下的目标层数
+  breadth: number; // 每个节点的子节点数量
+  style: GenerationStyle;
+}
+
+// AI 助手提出的导图修改；parentId 可以是同一批次中新增节点的 ref
+export type MapAction =
+  | { type: 'add'; parentId: string; message: string; ref?: string }
+  | { type: 'rename'; id: string; message: string }
+  | { type: 'move'; id: string; parentId: string }
+  | { type: 'delete'; id: string }
+  | { type: 'note'; id: string; notes: string }; // 替换节点备注
+
+export type MapChange = 'added' | 'renamed' | 'moved' | 'deleted' | 'noted';
+
+// 针对单个节点的 AI 操作（扩展子节点之外），结果以 MapAction 预览后应用，见 utils/nodeActions.ts
+export type NodeActionKind = 'rephrase' | 'split' | 'merge' | 'summarize' | 'regroup';
+
+// 节点上 AI 扩展请求的状态，见 services/expansionQueue.ts
+export type ExpansionStatus = 'queued' | 'running';
+
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'ai';
+  text: string; // AI 回复的原文，包含修改建议代码块
+  status?: 'streaming' | 'error';
+  applied?: boolean; // 修改建议已应用到导图
+}
+
+export interface ChatThread {
+  id: string;
+  title: string;
+  messages: ChatMessage[];
+  createdAt: number;
+  updatedAt: number;
+}
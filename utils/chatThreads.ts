@@ -0,0 +1,43 @@
+import { Card, ChatThread } from '../types';
+import { describeAction, splitReply } from './mapActions';
+
+// AI 助手的对话线程：每篇文档可以有多个，随文档一起保存
+
+const THREAD_TITLE_LENGTH = 16;
+export const DEFAULT_THREAD_TITLE = '新对话';
+
+export const createThread = (title = DEFAULT_THREAD_TITLE): ChatThread => {
+  const now = Date.now();
+  return { id: `t-${now.toString(36)}-${Math.random().toString(36).slice(2, 6)}`, title, messages: [], createdAt: now, updatedAt: now };
+};
+
+// 未改名的对话在第一次提问时以问题作为标题
+export const titleFromQuery = (query: string) => {
+  const line = query.trim().split(/\r?\n/)[0];
+  return line.length > THREAD_TITLE_LENGTH ? `${line.slice(0, THREAD_TITLE_LENGTH)}…` : line;
+};
+
+// 回复中以 [文本](node:id) 引用节点，离开应用后只保留文本
+export const stripNodeLinks = (text: string) => text.replace(/\[([^\]]+)\]\(node:[^)\s]+\)/g, '$1');
+
+// 钉到节点备注的内容：去掉修改建议代码块与节点链接
+export const replyToNote = (text: string) => stripNodeLinks(splitReply(text).text).trim();
+
+export const appendNote = (notes: string | undefined, text: string) => (notes?.trim() ? `${notes.trimEnd()}\n\n---\n\n${text}` : text);
+
+export const threadToMarkdown = (thread: ChatThread, root: Card | null): string => {
+  const parts = [`# ${thread.title}`, `> 导出于 ${new Date().toLocaleString()}`];
+  thread.messages.forEach(message => {
+    if (message.role === 'user') {
+      parts.push('## 提问', message.text);
+      return;
+    }
+    const reply = splitReply(message.text);
+    parts.push('## AI 助手', stripNodeLinks(reply.text) || '（无回复）');
+    if (reply.actions.length > 0 && root) {
+      const status = message.applied ? '（已应用）' : '';
+      parts.push(`**建议修改${status}**`, reply.actions.map(action => `- ${describeAction(action, root, reply.actions)}`).join('\n'));
+    }
+  });
+  return `${parts.join('\n\n')}\n`;
+};
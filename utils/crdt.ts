@@ -0,0 +1,241 @@
+import { Card, CrdtRegister, CrdtState } from '../types';
+import { SYNCED_KEYS, TreeChange } from './treeDiff';
+
+// 导图的 CRDT：每个节点的每个字段都是一个"后写者胜"寄存器，时间戳为 Lamport 计数加客户端 id，
+// 任意副本以任意顺序收到同样的更新后得到同一棵树。结构同样用寄存器表示：
+// parent 与 pos（兄弟间的分数排序键）决定位置，移动即改写二者；删除只标记 deleted，
+// 后代随之隐藏，撤销删除时一并恢复。并发移动形成的环在生成树时确定性地断开，
+// 副本随后把断开的结果写回寄存器，各副本写入的值相同
+
+const STAMP_WIDTH = 9;
+const PROTO_KEY = '__proto__';
+
+export const makeStamp = (counter: number, clientId: string) => `${counter.toString(36).padStart(STAMP_WIDTH, '0')}@${clientId}`;
+
+const stampCounter = (stamp: string) => parseInt(stamp.slice(0, STAMP_WIDTH), 36) || 0;
+
+const isRegister = (value: unknown): value is CrdtRegister =>
+  typeof value === 'object' && value !== null && 'v' in value && typeof (value as CrdtRegister).t === 'string';
+
+// ---------- 分数排序键 ----------
+
+const DIGITS = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// 合法的排序键：36 进制小数位且不以 0 结尾（结尾的 0 不改变大小，会让两个键之间没有位置）
+export const isValidPos = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-z]*[1-9a-z]$/.test(value);
+
+// 返回严格位于 a、b 之间的键（36 进制小数的小数部分），null 表示两端无界。
+// 并发插入可能得到相同的键，排序时再按节点 id 区分
+export const keyBetween = (a: string | null, b: string | null): string => {
+  const low = a ?? '';
+  let high = b !== null && b > low ? b : null;
+  let result = '';
+  // 合法的键在越过两者长度之前必然找到位置；否则两键之间没有位置，放到下界之后
+  const limit = Math.max(low.length, high?.length ?? 0);
+  for (let i = 0; i <= limit; i++) {
+    const lo = i < low.length ? DIGITS.indexOf(low[i]) : 0;
+    const hi = high === null ? DIGITS.length : i < high.length ? DIGITS.indexOf(high[i]) : 0;
+    if (hi - lo > 1) return result + DIGITS[(lo + hi) >> 1];
+    result += DIGITS[lo];
+    // 这一位与上界相差不足时，之后的位只需大于下界
+    if (hi - lo === 1) high = null;
+  }
+  return `${low}i`;
+};
+
+// ---------- 合并与生成树 ----------
+
+// 把 delta 合并进 state（原地修改），返回其中实际生效的部分
+export const mergeState = (state: CrdtState, delta: CrdtState): CrdtState => {
+  const applied: CrdtState = {};
+  Object.entries(delta).forEach(([id, fields]) => {
+    if (id === PROTO_KEY || typeof fields !== 'object' || fields === null) return;
+    Object.entries(fields).forEach(([key, register]) => {
+      if (key === PROTO_KEY || !isRegister(register)) return;
+      if (key === 'pos' && !isValidPos(register.v)) return;
+      const current = state[id]?.[key];
+      if (current && current.t >= register.t) return;
+      (state[id] ??= {})[key] = register;
+      (applied[id] ??= {})[key] = register;
+    });
+  });
+  return applied;
+};
+
+export const isEmptyState = (state: CrdtState) => Object.keys(state).length === 0;
+
+const maxCounter = (state: CrdtState) => {
+  let max = 0;
+  Object.values(state).forEach(fields => Object.values(fields).forEach(register => {
+    max = Math.max(max, stampCounter(register.t));
+  }));
+  return max;
+};
+
+// cycleHeads 为因环被改挂到根下的节点，按挂上去的顺序排列
+export const materialize = (state: CrdtState): { root: Card | null; cycleHeads: string[] } => {
+  const value = (id: string, key: string) => state[id]?.[key]?.v;
+  const ids = Object.keys(state).sort();
+  const live = ids.filter(id => value(id, 'deleted') !== true && typeof value(id, 'message') === 'string' && state[id].parent);
+  const liveSet = new Set(live);
+  const posOf = (id: string) => String(value(id, 'pos') ?? '');
+  const byPosition = (a: string, b: string) => (posOf(a) < posOf(b) ? -1 : posOf(a) > posOf(b) ? 1 : a < b ? -1 : 1);
+
+  const children = new Map<string, string[]>();
+  const roots: string[] = [];
+  live.forEach(id => {
+    const parent = value(id, 'parent');
+    if (parent === null) roots.push(id);
+    else if (typeof parent === 'string') {
+      if (!children.has(parent)) children.set(parent, []);
+      children.get(parent)!.push(id);
+    }
+  });
+  if (roots.length === 0) return { root: null, cycleHeads: [] };
+  children.forEach(list => list.sort(byPosition));
+  // 并发产生多个根节点时，最近成为根的节点胜出，其余挂到它下面
+  roots.sort((a, b) => (state[b].parent.t > state[a].parent.t ? 1 : -1));
+  const [rootId, ...extraRoots] = roots;
+
+  const visited = new Set<string>();
+  const build = (id: string): Card => {
+    visited.add(id);
+    const card: Record<string, unknown> = { id, message: value(id, 'message') };
+    SYNCED_KEYS.forEach(key => {
+      const v = value(id, key);
+      if (key !== 'message' && v !== null && v !== undefined && v !== false) card[key] = v;
+    });
+    const kids = [...(children.get(id) ?? []), ...(id === rootId ? extraRoots : [])];
+    card.children = kids.filter(child => !visited.has(child)).map(build);
+    return card as unknown as Card;
+  };
+  const root = build(rootId);
+
+  // 从根到达不了的节点：祖先链上有已删除的节点时隐藏；链条回到自身说明并发移动形成了环，
+  // 环中最近一次移动的节点改挂到根下
+  const cycleHeads: string[] = [];
+  live.forEach(id => {
+    if (visited.has(id)) return;
+    const path: string[] = [];
+    let cur: unknown = id;
+    while (typeof cur === 'string' && liveSet.has(cur) && !visited.has(cur) && !path.includes(cur)) {
+      path.push(cur);
+      cur = value(cur, 'parent');
+    }
+    if (typeof cur !== 'string' || !path.includes(cur)) return;
+    const cycle = path.slice(path.indexOf(cur));
+    const head = cycle.reduce((a, b) => (state[b].parent.t > state[a].parent.t ? b : a));
+    cycleHeads.push(head);
+    root.children.push(build(head));
+  });
+  return { root, cycleHeads };
+};
+
+// ---------- 副本 ----------
+
+export interface Replica {
+  state: CrdtState;
+  // 把本地修改写入状态，返回需要发给其他副本的增量
+  applyLocal: (changes: TreeChange[]) => CrdtState;
+  // 合并远端增量，返回实际生效的部分（空对象表示没有变化）
+  merge: (delta: CrdtState) => CrdtState;
+  // repairs 为写回的断环结果，需要像本地修改一样发出
+  toTree: () => { root: Card | null; repairs: CrdtState };
+}
+
+export const createReplica = (clientId: string, initial: CrdtState = {}): Replica => {
+  // 经过 mergeState 复制，保存的状态同样要过滤非法的寄存器
+  const state: CrdtState = {};
+  mergeState(state, JSON.parse(JSON.stringify(initial)));
+  // 计数从当前时间（毫秒）起步：停止协作期间的修改重新开启后仍能覆盖中继上较早的状态
+  let clock = Math.max(maxCounter(state), Date.now());
+
+  const applyLocal = (changes: TreeChange[]): CrdtState => {
+    const delta: CrdtState = {};
+    const write = (id: string, key: string, v: unknown) => {
+      const register = { v: v === undefined ? null : v, t: makeStamp(++clock, clientId) };
+      (state[id] ??= {})[key] = register;
+      (delta[id] ??= {})[key] = register;
+    };
+    const value = (id: string, key: string) => state[id]?.[key]?.v;
+
+    // 计算排序键需要当前的兄弟顺序，按需建立并随放置更新
+    let siblings: Map<string, string[]> | null = null;
+    const siblingsOf = (parentId: string) => {
+      if (!siblings) {
+        siblings = new Map();
+        const posOf = (id: string) => String(value(id, 'pos') ?? '');
+        Object.keys(state).forEach(id => {
+          const parent = value(id, 'parent');
+          if (typeof parent !== 'string' || value(id, 'deleted') === true) return;
+          if (!siblings!.has(parent)) siblings!.set(parent, []);
+          siblings!.get(parent)!.push(id);
+        });
+        siblings.forEach(list => list.sort((a, b) => (posOf(a) < posOf(b) ? -1 : posOf(a) > posOf(b) ? 1 : a < b ? -1 : 1)));
+      }
+      if (!siblings.has(parentId)) siblings.set(parentId, []);
+      return siblings.get(parentId)!;
+    };
+    const unlink = (id: string) => {
+      const parent = value(id, 'parent');
+      if (typeof parent !== 'string') return;
+      const list = siblingsOf(parent);
+      if (list.includes(id)) list.splice(list.indexOf(id), 1);
+    };
+
+    changes.forEach(change => {
+      if (change.type === 'set') {
+        write(change.id, change.key, change.value);
+        return;
+      }
+      if (change.type === 'delete') {
+        write(change.id, 'deleted', true);
+        unlink(change.id);
+        return;
+      }
+      if (change.node) {
+        const node = change.node;
+        SYNCED_KEYS.forEach(key => write(change.id, key, node[key]));
+        write(change.id, 'deleted', false);
+      }
+      unlink(change.id);
+      if (change.parentId === null) {
+        write(change.id, 'parent', null);
+        return;
+      }
+      const list = siblingsOf(change.parentId);
+      const anchor = change.afterId === null ? -1 : list.indexOf(change.afterId);
+      const index = change.afterId === null ? 0 : anchor < 0 ? list.length : anchor + 1;
+      write(change.id, 'parent', change.parentId);
+      list.splice(index, 0, change.id);
+      // 并发插入可能留下相同的排序键，插在它们之间时连同后面同键的兄弟一起重新排开
+      const posOf = (id: string) => String(value(id, 'pos') ?? '');
+      let prev = index > 0 ? posOf(list[index - 1]) : null;
+      let end = index + 1;
+      while (end < list.length && prev !== null && posOf(list[end]) <= prev) end++;
+      const bound = end < list.length ? posOf(list[end]) : null;
+      for (let i = index; i < end; i++) {
+        prev = keyBetween(prev, bound);
+        write(list[i], 'pos', prev);
+      }
+    });
+    return delta;
+  };
+
+  return {
+    state,
+    applyLocal,
+    merge: (delta) => {
+      const applied = mergeState(state, delta);
+      clock = Math.max(clock, maxCounter(applied));
+      return applied;
+    },
+    toTree: () => {
+      const { root, cycleHeads } = materialize(state);
+      if (!root || cycleHeads.length === 0) return { root, repairs: {} };
+      const last = root.children[root.children.length - cycleHeads.length - 1];
+      const repairs = applyLocal(cycleHeads.map((id, i) => ({ type: 'place', id, parentId: root.id, afterId: i > 0 ? cycleHeads[i - 1] : last?.id ?? null })));
+      return { root, repairs };
+    },
+  };
+};
@@ -0,0 +1,267 @@
+import { Card, ChatMessage, ChatThread, CrdtState, HistoryEntry, LayoutDirection, MindMapDocument, SourceDocument, SourcePassage } from '../types';
+import { LAYOUT_ENGINES, DEFAULT_LAYOUT } from './layout';
+import { NodeFields, isHexColor, isNodePriority, isNodeStatus, normalizeTags } from './nodeFields';
+
+// v4 及以前：localStorage 中直接保存裸 Card 树，没有版本号
+// v5：带版本号的文档信封 { schemaVersion, 元数据, root, layout, past, future }
+// v6：信封增加 AI 助手对话 threads
+// v7：信封增加从文本生成导图时导入的原文 sources
+// v8：信封增加协作用的 CRDT 状态 collab
+export const LEGACY_SCHEMA_VERSION = 4;
+export const CURRENT_SCHEMA_VERSION = 8;
+
+export class DocumentSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentSchemaError';
+  }
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: string[]; // 已自动修复的问题，供界面提示用户
+}
+
+export const isObject = (v: unknown): v is Record<string, unknown> => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const makeId = () => Math.random().toString(36).substr(2, 9);
+
+const isStringArray = (v: unknown): v is string[] => Array.isArray(v) && v.every(item => typeof item === 'string');
+
+// 读取可选的富信息字段，类型不符的字段被丢弃并记录到 invalid。
+// parse 返回 null 表示类型不符，返回 undefined 表示值为空、不写入
+const readNodeFields = (node: Record<string, unknown>, invalid: string[]): NodeFields => {
+  const fields: NodeFields = {};
+  const read = <K extends keyof NodeFields>(key: K, parse: (value: unknown) => NodeFields[K] | null) => {
+    if (node[key] === undefined) return;
+    const value = parse(node[key]);
+    if (value === null) invalid.push(key);
+    else if (value !== undefined) fields[key] = value;
+  };
+  read('notes', v => (typeof v === 'string' ? v || undefined : null));
+  read('tags', v => {
+    if (!isStringArray(v)) return null;
+    const tags = normalizeTags(v);
+    return tags.length ? tags : undefined;
+  });
+  read('color', v => (isHexColor(v) ? v.toLowerCase() : null));
+  read('icon', v => (typeof v === 'string' ? Array.from(v.trim()).slice(0, 8).join('') || undefined : null));
+  read('url', v => (typeof v === 'string' ? v.trim() || undefined : null));
+  read('priority', v => (isNodePriority(v) ? v : null));
+  read('status', v => (isNodeStatus(v) ? v : null));
+  read('sources', v => {
+    if (!isStringArray(v)) return null;
+    const sources = Array.from(new Set(v));
+    return sources.length ? sources : undefined;
+  });
+  return fields;
+};
+
+// 校验并修复一棵 Card 树：补齐 children、重复或缺失的 id、非字符串 message；根节点不是对象时拒绝
+export const validateTree = (raw: unknown): ValidationResult<Card> => {
+  if (!isObject(raw)) throw new DocumentSchemaError('导图数据不是有效的节点对象。');
+
+  const issues: string[] = [];
+  const seenIds = new Set<string>();
+  let droppedChildren = 0;
+
+  const visit = (node: Record<string, unknown>, path: string): Card => {
+    let id = typeof node.id === 'string' ? node.id : '';
+    if (!id) {
+      id = makeId();
+      issues.push(`节点 ${path} 缺少 id，已自动生成。`);
+    } else if (seenIds.has(id)) {
+      const fresh = makeId();
+      issues.push(`节点 id "${id}" 重复，已替换为 "${fresh}"。`);
+      id = fresh;
+    }
+    seenIds.add(id);
+
+    let message: string;
+    if (typeof node.message === 'string') message = node.message;
+    else {
+      message = node.message === undefined || node.message === null ? '未命名节点' : String(node.message);
+      issues.push(`节点 ${path} 的文本不是字符串，已转换为 "${message}"。`);
+    }
+
+    let rawChildren: unknown[] = [];
+    if (Array.isArray(node.children)) rawChildren = node.children;
+    else if (node.children !== undefined) issues.push(`节点 "${message}" 的 children 不是数组，已重置为空。`);
+    const children: Card[] = [];
+    rawChildren.forEach((child, i) => {
+      if (isObject(child)) children.push(visit(child, `${path}.${i}`));
+      else droppedChildren++;
+    });
+
+    // 只保留已知字段，丢弃旧版本写入的 isExpanding 等瞬态状态
+    const invalid: string[] = [];
+    const card: Card = { id, message, children, ...readNodeFields(node, invalid) };
+    if (node.collapsed === true) card.collapsed = true;
+    if (invalid.length > 0) issues.push(`节点 "${message}" 的 ${invalid.join('、')} 字段无效，已移除。`);
+    return card;
+  };
+
+  const value = visit(raw, 'root');
+  if (droppedChildren > 0) issues.push(`移除了 ${droppedChildren} 个无效的子节点。`);
+  return { value, issues };
+};
+
+const validateHistory = (raw: unknown, issues: string[]): HistoryEntry[] => {
+  if (!Array.isArray(raw)) return [];
+  const entries: HistoryEntry[] = [];
+  raw.forEach(entry => {
+    if (!isObject(entry)) return;
+    try {
+      const root = entry.root === null ? null : validateTree(entry.root).value;
+      entries.push({ label: typeof entry.label === 'string' ? entry.label : '未知操作', root });
+    } catch {
+      // 损坏的历史记录直接丢弃
+    }
+  });
+  if (entries.length < raw.length) issues.push(`丢弃了 ${raw.length - entries.length} 条损坏的历史记录。`);
+  return entries;
+};
+
+// 损坏的消息与对话直接丢弃；保存时中断的流式回复保留已收到的部分
+const validateThreads = (raw: unknown, issues: string[]): ChatThread[] => {
+  if (!Array.isArray(raw)) return [];
+  const threads: ChatThread[] = [];
+  let dropped = 0;
+  raw.forEach(thread => {
+    if (!isObject(thread) || typeof thread.id !== 'string' || !Array.isArray(thread.messages)) {
+      dropped++;
+      return;
+    }
+    const messages: ChatMessage[] = [];
+    thread.messages.forEach((m: unknown) => {
+      if (!isObject(m) || typeof m.id !== 'string' || (m.role !== 'user' && m.role !== 'ai') || typeof m.text !== 'string') {
+        dropped++;
+        return;
+      }
+      const message: ChatMessage = { id: m.id, role: m.role, text: m.text };
+      if (m.status === 'error') message.status = 'error';
+      if (m.applied === true) message.applied = true;
+      messages.push(message);
+    });
+    const now = Date.now();
+    threads.push({
+      id: thread.id,
+      title: typeof thread.title === 'string' && thread.title ? thread.title : '未命名对话',
+      messages,
+      createdAt: typeof thread.createdAt === 'number' ? thread.createdAt : now,
+      updatedAt: typeof thread.updatedAt === 'number' ? thread.updatedAt : now,
+    });
+  });
+  if (dropped > 0) issues.push(`丢弃了 ${dropped} 条损坏的 AI 对话记录。`);
+  return threads;
+};
+
+// 段落不完整的原文直接丢弃；节点上指向它的 sources 保留，界面显示为原文已删除
+const validateSources = (raw: unknown, issues: string[]): SourceDocument[] => {
+  if (!Array.isArray(raw)) return [];
+  const sources: SourceDocument[] = [];
+  raw.forEach(source => {
+    if (!isObject(source) || typeof source.id !== 'string' || !Array.isArray(source.passages)) return;
+    const passages = source.passages.filter((p: unknown): p is SourcePassage => isObject(p) && typeof p.id === 'string' && typeof p.text === 'string');
+    if (passages.length < source.passages.length) return;
+    sources.push({
+      id: source.id,
+      name: typeof source.name === 'string' && source.name ? source.name : '未命名原文',
+      passages: passages.map(p => ({ id: p.id, text: p.text })),
+      importedAt: typeof source.importedAt === 'number' ? source.importedAt : Date.now(),
+    });
+  });
+  if (sources.length < raw.length) issues.push(`丢弃了 ${raw.length - sources.length} 份损坏的原文。`);
+  return sources;
+};
+
+// CRDT 状态无法局部修复，任何一个寄存器格式不对就整体丢弃，重新加入协作时从房间同步
+const validateCollab = (raw: unknown, issues: string[]): CrdtState | null => {
+  if (raw === null || raw === undefined) return null;
+  const valid = isObject(raw) && Object.values(raw).every(node =>
+    isObject(node) && Object.values(node).every(reg => isObject(reg) && 'v' in reg && typeof reg.t === 'string')
+  );
+  if (valid) return raw as CrdtState;
+  issues.push('协作同步状态已损坏，重新连接后将从协作服务器同步。');
+  return {};
+};
+
+// 信封缺失或不是对象时原样返回，由 upgradeDocument 报告损坏
+const withFields = (doc: unknown, fields: Record<string, unknown>) => (isObject(doc) ? { ...doc, ...fields } : doc);
+
+// 迁移链：MIGRATIONS[n] 把版本 n 的数据升级到 n + 1
+const MIGRATIONS: Record<number, (raw: unknown) => unknown> = {
+  [LEGACY_SCHEMA_VERSION]: tree => {
+    const now = Date.now();
+    return {
+      schemaVersion: 5,
+      id: `doc-${now.toString(36)}`,
+      title: isObject(tree) && typeof tree.message === 'string' ? tree.message : '未命名导图',
+      createdAt: now,
+      updatedAt: now,
+      root: tree,
+      layout: DEFAULT_LAYOUT,
+      past: [],
+      future: [],
+    };
+  },
+  5: doc => withFields(doc, { schemaVersion: 6, threads: [] }),
+  6: doc => withFields(doc, { schemaVersion: 7, sources: [] }),
+  7: doc => withFields(doc, { schemaVersion: 8, collab: null }),
+};
+
+const detectVersion = (raw: unknown): number => {
+  if (isObject(raw) && typeof raw.schemaVersion === 'number') return raw.schemaVersion;
+  // 没有版本号且不像信封，视为旧版裸 Card 树
+  if (isObject(raw) && !('root' in raw)) return LEGACY_SCHEMA_VERSION;
+  // 早期 IndexedDB 文档没有 schemaVersion，但结构与 v5 相同
+  return 5;
+};
+
+// 把任意版本的存储数据升级为当前版本的文档，并校验修复其中的树
+export const upgradeDocument = (raw: unknown): ValidationResult<MindMapDocument> => {
+  let version = detectVersion(raw);
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new DocumentSchemaError(`文档版本 v${version} 高于当前应用支持的 v${CURRENT_SCHEMA_VERSION}，请升级应用。`);
+  }
+
+  let data = raw;
+  const issues: string[] = [];
+  while (version < CURRENT_SCHEMA_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new DocumentSchemaError(`无法从 v${version} 迁移文档。`);
+    data = migrate(data);
+    version++;
+    issues.push(`文档已从 v${version - 1} 升级到 v${version}。`);
+  }
+
+  if (!isObject(data)) throw new DocumentSchemaError('文档数据已损坏。');
+
+  let root: Card | null = null;
+  if (data.root !== null) {
+    const tree = validateTree(data.root);
+    root = tree.value;
+    issues.push(...tree.issues);
+  }
+
+  let layout = DEFAULT_LAYOUT;
+  if (typeof data.layout === 'string' && data.layout in LAYOUT_ENGINES) layout = data.layout as LayoutDirection;
+  else if (data.layout !== undefined) issues.push(`未知布局 "${String(data.layout)}"，已改用默认布局。`);
+
+  const now = Date.now();
+  const value: MindMapDocument = {
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    id: typeof data.id === 'string' && data.id ? data.id : `doc-${now.toString(36)}`,
+    title: typeof data.title === 'string' && data.title ? data.title : '未命名导图',
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : now,
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : now,
+    root,
+    layout,
+    past: validateHistory(data.past, issues),
+    future: validateHistory(data.future, issues),
+    threads: validateThreads(data.threads, issues),
+    sources: validateSources(data.sources, issues),
+    collab: validateCollab(data.collab, issues),
+  };
+  return { value, issues };
+};
@@ -0,0 +1,15 @@
+// 触发浏览器下载，content 可以是文本或已生成的 Blob
+export const downloadFile = (filename: string, content: string | Blob, mime = 'text/plain') => {
+  const blob = typeof content === 'string' ? new Blob([content], { type: `${mime};charset=utf-8` }) : content;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// 文件名中去掉操作系统不允许的字符
+export const safeFilename = (name: string) => name.replace(/[\\/:*?"<>|\n\r]+/g, '_').trim() || 'mindmap';
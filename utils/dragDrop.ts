@@ -0,0 +1,53 @@
+import { CARD_W, RenderNode, flattenNodes } from './layout';
+
+// 拖放目标：落在卡片中部成为其子节点，落在卡片两端则插入到该卡片之前/之后
+export interface DropTarget {
+  kind: 'child' | 'before' | 'after';
+  node: RenderNode;
+  parentId: string;
+  index: number; // 在 parentId 子节点中的插入位置，Infinity 表示追加到末尾
+  axis: 'x' | 'y'; // 兄弟节点的排列方向，决定插入指示线的朝向
+}
+
+// 卡片两端各 1/4 区域用于排序
+const EDGE_ZONE = 0.25;
+
+// 根据兄弟节点的实际位置判断排列方向，各布局引擎无需额外声明
+const getSiblingAxis = (parent: RenderNode): 'x' | 'y' => {
+  const xs = parent.children.map(c => c.x);
+  const ys = parent.children.map(c => c.y);
+  if (parent.children.length > 1) {
+    return Math.max(...xs) - Math.min(...xs) > Math.max(...ys) - Math.min(...ys) ? 'x' : 'y';
+  }
+  const child = parent.children[0];
+  return Math.abs(child.x - parent.x) > Math.abs(child.y - parent.y) ? 'y' : 'x';
+};
+
+export const getParentMap = (nodes: RenderNode[]) => {
+  const parents = new Map<string, RenderNode>();
+  nodes.forEach(n => n.children.forEach(c => parents.set(c.id, n)));
+  return parents;
+};
+
+// nodes 可以只是指针附近的候选卡片（按绘制顺序），此时需传入完整布局的 parents
+export const getDropTarget = (nodes: RenderNode[], dragged: RenderNode, x: number, y: number, parents = getParentMap(nodes)): DropTarget | null => {
+  // 不能放到自身或自身的子树中
+  const excluded = new Set(flattenNodes(dragged).map(n => n.id));
+
+  for (let i = nodes.length - 1; i >= 0; i--) {
+    const node = nodes[i];
+    if (excluded.has(node.id)) continue;
+    if (x < node.x || x > node.x + CARD_W || y < node.y || y > node.y + node.height) continue;
+
+    const parent = parents.get(node.id);
+    if (parent) {
+      const axis = getSiblingAxis(parent);
+      const t = axis === 'y' ? (y - node.y) / node.height : (x - node.x) / CARD_W;
+      const index = parent.children.indexOf(node);
+      if (t < EDGE_ZONE) return { kind: 'before', node, parentId: parent.id, index, axis };
+      if (t > 1 - EDGE_ZONE) return { kind: 'after', node, parentId: parent.id, index: index + 1, axis };
+    }
+    return { kind: 'child', node, parentId: node.id, index: Infinity, axis: 'y' };
+  }
+  return null;
+};
@@ -0,0 +1,234 @@
+import { Card } from '../types';
+import { DocumentSchemaError, validateTree } from './documentSchema';
+
+export type MapFormat = 'json' | 'markdown' | 'opml' | 'freemind';
+
+export const FORMAT_INFO: Record<MapFormat, { label: string; extension: string; mime: string }> = {
+  json: { label: 'JSON（完整字段）', extension: 'json', mime: 'application/json' },
+  markdown: { label: 'Markdown 大纲', extension: 'md', mime: 'text/markdown' },
+  opml: { label: 'OPML', extension: 'opml', mime: 'text/x-opml' },
+  freemind: { label: 'FreeMind (.mm)', extension: 'mm', mime: 'application/x-freemind' },
+};
+
+const makeId = () => Math.random().toString(36).substr(2, 9);
+
+// ---------- JSON：与存储一致的 Card 树，保留全部富信息字段 ----------
+
+export const toJson = (root: Card): string => JSON.stringify(root, null, 2) + '\n';
+
+export const fromJson = (text: string): Card => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new DocumentSchemaError('JSON 格式无效。');
+  }
+};
+
+// ---------- Markdown：根节点为一级标题，其余为缩进两格的无序列表 ----------
+
+// 节点文本可能含换行，用 <br> 保持单行
+const encodeLine = (text: string) => text.replace(/\r?\n/g, '<br>');
+const decodeLine = (text: string) => text.replace(/<br\s*\/?>/gi, '\n');
+
+// 不带标题的列表大纲，用于复制多个子树
+export const toMarkdownOutline = (nodes: Card[]): string => {
+  const lines: string[] = [];
+  const walk = (list: Card[], depth: number) => {
+    list.forEach(node => {
+      lines.push(`${'  '.repeat(depth)}- ${encodeLine(node.message)}`);
+      walk(node.children, depth + 1);
+    });
+  };
+  walk(nodes, 0);
+  return lines.join('\n') + '\n';
+};
+
+export const toMarkdown = (root: Card): string =>
+  `# ${encodeLine(root.message)}\n\n${root.children.length ? toMarkdownOutline(root.children) : ''}`;
+
+const parseOutline = (text: string) => {
+  let root: Card | null = null;
+  const topLevel: Card[] = [];
+  const stack: { indent: number; node: Card }[] = [];
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/\t/g, '    ');
+    if (!line.trim()) return;
+
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    if (heading && !root && stack.length === 0) {
+      root = { id: makeId(), message: decodeLine(heading[1].trim()), children: [] };
+      return;
+    }
+
+    const bullet = line.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (!bullet) return;
+    const indent = bullet[1].length;
+    const node: Card = { id: makeId(), message: decodeLine(bullet[2].trim()), children: [] };
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    if (stack.length > 0) stack[stack.length - 1].node.children.push(node);
+    else topLevel.push(node);
+    stack.push({ indent, node });
+  });
+
+  return { root: root as Card | null, topLevel };
+};
+
+export const fromMarkdown = (text: string): Card => {
+  const { root, topLevel } = parseOutline(text);
+  if (root) {
+    root.children.push(...topLevel);
+    return root;
+  }
+  if (topLevel.length === 1) return topLevel[0];
+  if (topLevel.length === 0) throw new DocumentSchemaError('Markdown 中没有找到标题或列表项。');
+  return { id: makeId(), message: '导入的导图', children: topLevel };
+};
+
+// 解析为若干棵子树：有标题时标题为唯一的顶层节点，否则返回所有顶层列表项
+export const fromMarkdownOutline = (text: string): Card[] => {
+  const { root, topLevel } = parseOutline(text);
+  if (!root) return topLevel;
+  root.children.push(...topLevel);
+  return [root];
+};
+
+// ---------- XML 公共工具 ----------
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+const parseXml = (xml: string): Document => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new DocumentSchemaError('XML 格式无效。');
+  return doc;
+};
+
+const childElements = (el: Element, tag: string) => Array.from(el.children).filter(c => c.tagName.toLowerCase() === tag);
+
+// ---------- OPML ----------
+
+export const toOpml = (root: Card, title: string = root.message): string => {
+  const walk = (node: Card, depth: number): string => {
+    const pad = '  '.repeat(depth);
+    // _note 是 OPML 编辑器通用的备注属性
+    const attrs = `text="${escapeXml(node.message)}"${node.notes ? ` _note="${escapeXml(node.notes)}"` : ''}${node.url ? ` type="link" url="${escapeXml(node.url)}"` : ''}`;
+    if (node.children.length === 0) return `${pad}<outline ${attrs}/>`;
+    return [
+      `${pad}<outline ${attrs}>`,
+      ...node.children.map(c => walk(c, depth + 1)),
+      `${pad}</outline>`,
+    ].join('\n');
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    `  <head><title>${escapeXml(title)}</title></head>`,
+    '  <body>',
+    walk(root, 2),
+    '  </body>',
+    '</opml>',
+  ].join('\n') + '\n';
+};
+
+export const fromOpml = (xml: string): Card => {
+  const doc = parseXml(xml);
+  const body = doc.getElementsByTagName('body')[0];
+  if (!body) throw new DocumentSchemaError('OPML 缺少 <body>。');
+
+  const walk = (el: Element): Card => {
+    const card: Card = {
+      id: makeId(),
+      message: el.getAttribute('text') ?? el.getAttribute('title') ?? '',
+      children: childElements(el, 'outline').map(walk),
+    };
+    const note = el.getAttribute('_note');
+    const url = el.getAttribute('url') ?? el.getAttribute('htmlUrl');
+    if (note) card.notes = note;
+    if (url) card.url = url;
+    return card;
+  };
+  const outlines = childElements(body, 'outline').map(walk);
+  if (outlines.length === 1) return outlines[0];
+  if (outlines.length === 0) throw new DocumentSchemaError('OPML 中没有 outline 节点。');
+  const title = doc.getElementsByTagName('title')[0]?.textContent?.trim();
+  return { id: makeId(), message: title || '导入的导图', children: outlines };
+};
+
+// ---------- FreeMind / XMind 兼容的 .mm ----------
+
+export const toFreeMind = (root: Card): string => {
+  const walk = (node: Card, depth: number): string => {
+    const pad = '  '.repeat(depth);
+    const attrs = `ID="${escapeXml(node.id)}" TEXT="${escapeXml(node.message)}"${node.collapsed ? ' FOLDED="true"' : ''}${node.url ? ` LINK="${escapeXml(node.url)}"` : ''}${node.color ? ` BACKGROUND_COLOR="${node.color}"` : ''}`;
+    const note = node.notes
+      ? [`${pad}  <richcontent TYPE="NOTE"><html><body><pre>${escapeXml(node.notes)}</pre></body></html></richcontent>`]
+      : [];
+    const inner = [...note, ...node.children.map(c => walk(c, depth + 1))];
+    if (inner.length === 0) return `${pad}<node ${attrs}/>`;
+    return [`${pad}<node ${attrs}>`, ...inner, `${pad}</node>`].join('\n');
+  };
+  return `<map version="1.0.1">\n${walk(root, 1)}\n</map>\n`;
+};
+
+export const fromFreeMind = (xml: string): Card => {
+  const doc = parseXml(xml);
+  const map = doc.documentElement;
+  const rootEl = map && map.tagName.toLowerCase() === 'map' ? childElements(map, 'node')[0] : undefined;
+  if (!rootEl) throw new DocumentSchemaError('.mm 文件缺少根 <node>。');
+
+  const walk = (el: Element): Card => {
+    // 富文本节点的内容放在 <richcontent> 中
+    const rich = childElements(el, 'richcontent').find(r => (r.getAttribute('TYPE') || 'NODE') === 'NODE');
+    const card: Card = {
+      id: el.getAttribute('ID') || makeId(),
+      message: el.getAttribute('TEXT') ?? rich?.textContent?.trim() ?? '',
+      children: childElements(el, 'node').map(walk),
+    };
+    if (el.getAttribute('FOLDED') === 'true') card.collapsed = true;
+    const note = childElements(el, 'richcontent').find(r => r.getAttribute('TYPE') === 'NOTE')?.textContent?.trim();
+    if (note) card.notes = note;
+    const link = el.getAttribute('LINK');
+    if (link) card.url = link;
+    const color = el.getAttribute('BACKGROUND_COLOR');
+    if (color && /^#[0-9a-f]{6}$/i.test(color)) card.color = color;
+    return card;
+  };
+  return walk(rootEl);
+};
+
+// ---------- 统一入口 ----------
+
+export const detectFormat = (content: string, filename?: string): MapFormat => {
+  const ext = filename?.split('.').pop()?.toLowerCase();
+  if (ext === 'json') return 'json';
+  if (ext === 'opml') return 'opml';
+  if (ext === 'mm') return 'freemind';
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') return 'markdown';
+  const head = content.trimStart().slice(0, 300).toLowerCase();
+  if (head.startsWith('{')) return 'json';
+  if (head.includes('<opml')) return 'opml';
+  if (head.includes('<map')) return 'freemind';
+  return 'markdown';
+};
+
+export const exportMap = (root: Card, format: MapFormat, title?: string): string => {
+  switch (format) {
+    case 'json': return toJson(root);
+    case 'markdown': return toMarkdown(root);
+    case 'opml': return toOpml(root, title);
+    case 'freemind': return toFreeMind(root);
+  }
+};
+
+// 解析结果经过 validateTree，重复 id 等问题会被修复并列出
+export const importMap = (content: string, format: MapFormat) => {
+  const parsers: Record<MapFormat, (text: string) => Card> = {
+    json: fromJson,
+    markdown: fromMarkdown,
+    opml: fromOpml,
+    freemind: fromFreeMind,
+  };
+  return validateTree(parsers[format](content));
+};
@@ -0,0 +1,42 @@
+import { Card, MindMapState } from '../types';
+import { TreeChange, applyTreeChanges } from './treeDiff';
+
+export const HISTORY_LIMIT = 50;
+
+type HistorySlice = Pick<MindMapState, 'root' | 'past' | 'future'>;
+
+// 记录一次变更：当前 root 入栈，清空重做栈
+export const recordHistory = (prev: HistorySlice, label: string): Pick<MindMapState, 'past' | 'future'> => ({
+  past: [...prev.past, { label, root: prev.root }].slice(-HISTORY_LIMIT),
+  future: [],
+});
+
+export const undoHistory = <T extends HistorySlice>(prev: T): T => {
+  if (prev.past.length === 0) return prev;
+  const entry = prev.past[prev.past.length - 1];
+  return {
+    ...prev,
+    root: entry.root,
+    past: prev.past.slice(0, -1),
+    future: [...prev.future, { label: entry.label, root: prev.root }],
+  };
+};
+
+export const redoHistory = <T extends HistorySlice>(prev: T): T => {
+  if (prev.future.length === 0) return prev;
+  const entry = prev.future[prev.future.length - 1];
+  return {
+    ...prev,
+    root: entry.root,
+    past: [...prev.past, { label: entry.label, root: prev.root }],
+    future: prev.future.slice(0, -1),
+  };
+};
+
+// 套用不是本地编辑产生的修改（协作者的修改、流式生成的节点）：撤销、重做栈中的快照一并更新，撤销因此只回退本地的修改
+export const rebaseHistory = <T extends HistorySlice>(prev: T, root: Card | null, changes: TreeChange[]): T => ({
+  ...prev,
+  root,
+  past: prev.past.map(entry => ({ ...entry, root: applyTreeChanges(entry.root, changes) })),
+  future: prev.future.map(entry => ({ ...entry, root: applyTreeChanges(entry.root, changes) })),
+});
@@ -0,0 +1,341 @@
+import { Card, LayoutDirection } from '../types';
+import { countDescendants, getVisibleChildren } from './tree';
+import { measureCard } from './textLayout';
+
+export const CARD_W = 160;
+export const CARD_H = 46; // 单行卡片的高度，多行文字时卡片向下增高
+const L1_H_GAP = 50;
+const VERTICAL_STEP = 32;
+const CHILD_V_GAP = 12;
+const TREE_H_GAP = 60; // 树形布局的层间距
+const TREE_V_GAP = 16; // 树形布局的兄弟间距
+const ORG_H_GAP = 24;
+const ORG_V_GAP = 70;
+
+// 布局结果统一平移到该原点，保证不同布局切换后初始视口一致
+const ORIGIN_X = 100;
+const ORIGIN_Y = 80;
+
+export interface RenderNode extends Card {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  depth: number;
+  side: 'left' | 'right';
+  hiddenCount: number; // 折叠后隐藏的后代数量
+  lines: string[]; // 换行后的卡片文字（含图标）
+  children: RenderNode[];
+}
+
+// CanvasRenderingContext2D 与 SVG 路径构造器都满足该接口
+export type ConnectorPath = Pick<CanvasRenderingContext2D, 'moveTo' | 'lineTo' | 'bezierCurveTo'>;
+
+export interface LayoutEngine {
+  id: LayoutDirection;
+  label: string;
+  description: string;
+  layout: (root: Card) => RenderNode;
+  drawConnector: (path: ConnectorPath, parent: RenderNode, child: RenderNode) => void;
+}
+
+const cardHeight = (node: Card, depth: number) => measureCard(node, depth, CARD_W, CARD_H).height;
+
+// 子树尺寸只取决于 Card 内容与所在层级。Card 不可变且修改时结构共享，
+// 按对象缓存后每个节点只计算一次，未改动的分支在下次布局时直接复用。
+const branchHeightCache = new WeakMap<Card, Map<number, number>>();
+const branchWidthCache = new WeakMap<Card, number>();
+
+const memoByDepth = (node: Card, depth: number, compute: () => number): number => {
+  let byDepth = branchHeightCache.get(node);
+  if (!byDepth) {
+    byDepth = new Map();
+    branchHeightCache.set(node, byDepth);
+  }
+  let value = byDepth.get(depth);
+  if (value === undefined) {
+    value = compute();
+    byDepth.set(depth, value);
+  }
+  return value;
+};
+
+const makeNode = (node: Card, depth: number, x: number, y: number, side: 'left' | 'right' = 'right'): RenderNode => {
+  const { lines, height } = measureCard(node, depth, CARD_W, CARD_H);
+  return {
+    ...node,
+    depth,
+    x,
+    y,
+    width: CARD_W,
+    height,
+    side,
+    hiddenCount: node.collapsed ? countDescendants(node) : 0,
+    lines,
+    children: [],
+  };
+};
+
+export const flattenNodes = (node: RenderNode, list: RenderNode[] = []): RenderNode[] => {
+  list.push(node);
+  node.children.forEach(c => flattenNodes(c, list));
+  return list;
+};
+
+const translate = (node: RenderNode, dx: number, dy: number) => {
+  node.x += dx;
+  node.y += dy;
+  node.children.forEach(c => translate(c, dx, dy));
+};
+
+const normalize = (root: RenderNode): RenderNode => {
+  // 大图上展开参数会超出调用栈限制，这里逐个比较
+  let minX = Infinity;
+  let minY = Infinity;
+  flattenNodes(root).forEach(n => {
+    minX = Math.min(minX, n.x);
+    minY = Math.min(minY, n.y);
+  });
+  translate(root, ORIGIN_X - minX, ORIGIN_Y - minY);
+  return root;
+};
+
+// ---------- 混合布局：L1横向，L2+右下阶梯 ----------
+
+// 阶梯分支的总高度在布局子节点时顺带记录，避免逐层重复递归
+const staircaseHeights = new WeakMap<RenderNode, number>();
+const getStaircaseHeight = (node: RenderNode): number => staircaseHeights.get(node) ?? node.height;
+
+const layoutMixed = (node: Card, depth: number, xOffset: number, yOffset: number): RenderNode => {
+  const rNode = makeNode(node, depth, xOffset, yOffset);
+  const children = getVisibleChildren(node);
+  if (children.length === 0) return rNode;
+
+  if (depth === 0) {
+    // Root -> Level 1 (横向)
+    let currentX = xOffset;
+    rNode.children = children.map((child) => {
+      const childNode = layoutMixed(child, depth + 1, currentX, yOffset + rNode.height + 94);
+      currentX += CARD_W + L1_H_GAP;
+      return childNode;
+    });
+    // 根节点居中于其子节点
+    const firstChild = rNode.children[0];
+    const lastChild = rNode.children[rNode.children.length - 1];
+    rNode.x = (firstChild.x + lastChild.x) / 2;
+  } else {
+    // Level 1+ -> Level 2+ (阶梯纵向)
+    let currentY = yOffset + rNode.height + CHILD_V_GAP;
+    rNode.children = children.map((child) => {
+      const childNode = layoutMixed(child, depth + 1, xOffset + VERTICAL_STEP, currentY);
+      currentY += getStaircaseHeight(childNode) + CHILD_V_GAP;
+      return childNode;
+    });
+    staircaseHeights.set(rNode, currentY - yOffset);
+  }
+  return rNode;
+};
+
+const mixedLayout: LayoutEngine = {
+  id: 'MIXED',
+  label: '混合布局',
+  description: 'L1: 横向 · L2+: 阶梯',
+  layout: (root) => normalize(layoutMixed(root, 0, ORIGIN_X, ORIGIN_Y)),
+  drawConnector: (path, node, child) => {
+    if (node.depth === 0) {
+      // L1 曲线
+      path.moveTo(node.x + CARD_W / 2, node.y + node.height);
+      path.bezierCurveTo(
+        node.x + CARD_W / 2, node.y + node.height + 54,
+        child.x + CARD_W / 2, child.y - 40,
+        child.x + CARD_W / 2, child.y
+      );
+    } else {
+      // L2+ 阶梯线
+      const startX = node.x + 20;
+      const startY = node.y + node.height;
+      const endX = child.x;
+      const endY = child.y + child.height / 2;
+      path.moveTo(startX, startY);
+      path.lineTo(startX, endY);
+      path.lineTo(endX, endY);
+    }
+  },
+};
+
+// ---------- 经典树形：从左到右 ----------
+
+// 子树在纵向上占用的高度
+const getBranchHeight = (node: Card, depth: number): number => memoByDepth(node, depth, () => {
+  const ownH = cardHeight(node, depth);
+  const children = getVisibleChildren(node);
+  if (children.length === 0) return ownH;
+  const childrenH = children.reduce((sum, c) => sum + getBranchHeight(c, depth + 1), 0)
+    + TREE_V_GAP * (children.length - 1);
+  return Math.max(ownH, childrenH);
+});
+
+// dir = 1 向右展开，dir = -1 向左展开（用于平衡布局的左半边）
+const layoutHorizontal = (node: Card, depth: number, x: number, top: number, dir: 1 | -1): RenderNode => {
+  const branchH = getBranchHeight(node, depth);
+  const rNode = makeNode(node, depth, x, 0, dir === 1 ? 'right' : 'left');
+  rNode.y = top + (branchH - rNode.height) / 2;
+  const children = getVisibleChildren(node);
+  if (children.length === 0) return rNode;
+
+  const childrenH = children.reduce((sum, c) => sum + getBranchHeight(c, depth + 1), 0)
+    + TREE_V_GAP * (children.length - 1);
+  let currentY = top + (branchH - childrenH) / 2;
+  rNode.children = children.map(child => {
+    const childNode = layoutHorizontal(child, depth + 1, x + dir * (CARD_W + TREE_H_GAP), currentY, dir);
+    currentY += getBranchHeight(child, depth + 1) + TREE_V_GAP;
+    return childNode;
+  });
+  return rNode;
+};
+
+const drawHorizontalCurve = (path: ConnectorPath, node: RenderNode, child: RenderNode) => {
+  const toLeft = child.x < node.x;
+  const startX = toLeft ? node.x : node.x + CARD_W;
+  const endX = toLeft ? child.x + CARD_W : child.x;
+  const startY = node.y + node.height / 2;
+  const endY = child.y + child.height / 2;
+  const midX = (startX + endX) / 2;
+  path.moveTo(startX, startY);
+  path.bezierCurveTo(midX, startY, midX, endY, endX, endY);
+};
+
+const treeLayout: LayoutEngine = {
+  id: 'LR',
+  label: '树形布局',
+  description: '从左到右逐级展开',
+  layout: (root) => normalize(layoutHorizontal(root, 0, 0, 0, 1)),
+  drawConnector: drawHorizontalCurve,
+};
+
+// ---------- 组织结构图：从上到下 ----------
+
+const getBranchWidth = (node: Card): number => {
+  const cached = branchWidthCache.get(node);
+  if (cached !== undefined) return cached;
+  const children = getVisibleChildren(node);
+  const childrenW = children.reduce((sum, c) => sum + getBranchWidth(c), 0)
+    + ORG_H_GAP * (children.length - 1);
+  const width = children.length === 0 ? CARD_W : Math.max(CARD_W, childrenW);
+  branchWidthCache.set(node, width);
+  return width;
+};
+
+// 每一层取该层最高的卡片作为行高，保证同层卡片顶端对齐
+const getRowHeights = (node: Card, depth = 0, rows: number[] = []): number[] => {
+  rows[depth] = Math.max(rows[depth] || 0, cardHeight(node, depth));
+  getVisibleChildren(node).forEach(c => getRowHeights(c, depth + 1, rows));
+  return rows;
+};
+
+const layoutVertical = (node: Card, depth: number, left: number, y: number, rows: number[]): RenderNode => {
+  const branchW = getBranchWidth(node);
+  const rNode = makeNode(node, depth, left + (branchW - CARD_W) / 2, y);
+  const children = getVisibleChildren(node);
+  if (children.length === 0) return rNode;
+
+  const childrenW = children.reduce((sum, c) => sum + getBranchWidth(c), 0)
+    + ORG_H_GAP * (children.length - 1);
+  let currentX = left + (branchW - childrenW) / 2;
+  rNode.children = children.map(child => {
+    const childNode = layoutVertical(child, depth + 1, currentX, y + rows[depth] + ORG_V_GAP, rows);
+    currentX += getBranchWidth(child) + ORG_H_GAP;
+    return childNode;
+  });
+  return rNode;
+};
+
+const orgLayout: LayoutEngine = {
+  id: 'TB',
+  label: '组织结构图',
+  description: '从上到下逐级展开',
+  layout: (root) => normalize(layoutVertical(root, 0, 0, 0, getRowHeights(root))),
+  drawConnector: (path, node, child) => {
+    // 直角折线：父节点底部 -> 中线 -> 子节点顶部
+    const startX = node.x + CARD_W / 2;
+    const startY = node.y + node.height;
+    const endX = child.x + CARD_W / 2;
+    const midY = child.y - ORG_V_GAP / 2;
+    path.moveTo(startX, startY);
+    path.lineTo(startX, midY);
+    path.lineTo(endX, midY);
+    path.lineTo(endX, child.y);
+  },
+};
+
+// ---------- 平衡布局：分支分布在根节点两侧 ----------
+
+const layoutBalanced = (root: Card): RenderNode => {
+  const rNode = makeNode(root, 0, 0, 0);
+  const children = getVisibleChildren(root);
+  if (children.length === 0) return rNode;
+
+  // 按子树高度贪心分配到左右两侧，保持原有顺序
+  const right: Card[] = [];
+  const left: Card[] = [];
+  let rightH = 0;
+  let leftH = 0;
+  children.forEach(child => {
+    const h = getBranchHeight(child, 1) + TREE_V_GAP;
+    if (rightH <= leftH) {
+      right.push(child);
+      rightH += h;
+    } else {
+      left.push(child);
+      leftH += h;
+    }
+  });
+
+  const placeSide = (group: Card[], dir: 1 | -1, total: number): RenderNode[] => {
+    let currentY = -(total - TREE_V_GAP) / 2;
+    return group.map(child => {
+      const childNode = layoutHorizontal(child, 1, dir * (CARD_W + TREE_H_GAP), currentY, dir);
+      currentY += getBranchHeight(child, 1) + TREE_V_GAP;
+      return childNode;
+    });
+  };
+
+  const placed = new Map<string, RenderNode>();
+  [...placeSide(right, 1, rightH), ...placeSide(left, -1, leftH)].forEach(n => placed.set(n.id, n));
+  rNode.children = children.map(c => placed.get(c.id)!).filter(Boolean);
+  rNode.y = -rNode.height / 2;
+  return rNode;
+};
+
+const balancedLayout: LayoutEngine = {
+  id: 'BALANCED',
+  label: '平衡导图',
+  description: '分支分布于根节点两侧',
+  layout: (root) => normalize(layoutBalanced(root)),
+  drawConnector: drawHorizontalCurve,
+};
+
+export const LAYOUT_ENGINES: Record<LayoutDirection, LayoutEngine> = {
+  MIXED: mixedLayout,
+  LR: treeLayout,
+  TB: orgLayout,
+  BALANCED: balancedLayout,
+};
+
+export const DEFAULT_LAYOUT: LayoutDirection = 'MIXED';
+
+export const getLayoutEngine = (id: LayoutDirection | undefined | null): LayoutEngine =>
+  (id && LAYOUT_ENGINES[id]) || LAYOUT_ENGINES[DEFAULT_LAYOUT];
+
+// 节点上 "+" 与 "AI" 按钮位于卡片外侧边缘，折叠开关位于底部中央；绘制与点击检测共用
+export const getNodeButtons = (node: RenderNode) => {
+  const edgeX = node.side === 'left' ? node.x : node.x + CARD_W;
+  return {
+    add: { x: edgeX, y: node.y + 12 },
+    ai: { x: edgeX, y: node.y + node.height - 12 },
+    toggle: { x: node.x + CARD_W / 2, y: node.y + node.height },
+  };
+};
+
+// 有子节点（含已折叠）的节点才显示折叠开关
+export const hasToggle = (node: RenderNode) => node.children.length > 0 || node.hiddenCount > 0;
@@ -0,0 +1,157 @@
+import { Card, MapAction, MapChange } from '../types';
+import { moveNodes, removeNodes } from './selection';
+import { findNode, revealNode, setCollapsed, updateNode } from './tree';
+
+// AI 助手在回复末尾用 ```map-actions 代码块给出结构化修改，格式见 services/providers/prompts.ts
+
+export const ACTIONS_FENCE = 'map-actions';
+
+const FENCE_START = new RegExp('```' + ACTIONS_FENCE + '[^\\n]*\\n?');
+
+const asString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+
+// 逐条校验模型输出，字段缺失或类型不对的条目直接丢弃；兼容 op/type、text/message、parent/parentId 两种写法
+export const parseActions = (raw: unknown): MapAction[] => {
+  if (!Array.isArray(raw)) return [];
+  const actions: MapAction[] = [];
+  raw.forEach(item => {
+    if (!item || typeof item !== 'object') return;
+    const op = asString(item.op ?? item.type);
+    const id = asString(item.id);
+    const parentId = asString(item.parent ?? item.parentId);
+    const message = asString(item.text ?? item.message);
+    if (op === 'add' && parentId && message) actions.push({ type: 'add', parentId, message, ...(asString(item.ref) ? { ref: asString(item.ref)! } : {}) });
+    else if (op === 'rename' && id && message) actions.push({ type: 'rename', id, message });
+    else if (op === 'move' && id && parentId) actions.push({ type: 'move', id, parentId });
+    else if (op === 'delete' && id) actions.push({ type: 'delete', id });
+  });
+  return actions;
+};
+
+export interface AssistantReply {
+  text: string; // 去掉修改建议代码块后的 Markdown 正文
+  actions: MapAction[];
+  pending: boolean; // 代码块尚未接收完整（流式输出中）
+}
+
+export const splitReply = (source: string): AssistantReply => {
+  const start = source.match(FENCE_START);
+  if (!start || start.index === undefined) return { text: source, actions: [], pending: false };
+  const bodyStart = start.index + start[0].length;
+  const end = source.indexOf('```', bodyStart);
+  const text = (source.slice(0, start.index) + (end >= 0 ? source.slice(end + 3) : '')).trim();
+  if (end < 0) return { text, actions: [], pending: true };
+  try {
+    return { text, actions: parseActions(JSON.parse(source.slice(bodyStart, end))), pending: false };
+  } catch {
+    return { text, actions: [], pending: false };
+  }
+};
+
+export interface ActionResult {
+  root: Card;
+  changes: Map<string, MapChange>;
+  skipped: number; // 目标不存在或无效而跳过的条目
+}
+
+interface ApplyOptions {
+  // 预览时删除的节点保留在树中，只标记为 deleted，并展开所有改动所在的分支
+  preview?: boolean;
+  newId: (index: number) => string;
+}
+
+// 按顺序执行修改。后续条目看到的是前面条目执行后的树，
+// 因此可以先新增节点（带 ref）再往它下面添加或移动节点
+export const applyActions = (root: Card, actions: MapAction[], { preview = false, newId }: ApplyOptions): ActionResult => {
+  const changes = new Map<string, MapChange>();
+  const refs = new Map<string, string>();
+  const deleted = new Set<string>();
+  let next = root;
+  let skipped = 0;
+  const changed: string[] = []; // 预览时需要展开到的节点，删除的子树只展开到其根
+
+  const resolve = (id: string) => refs.get(id) ?? id;
+  const exists = (id: string) => !deleted.has(id) && !!findNode(next, id);
+  const mark = (id: string, change: MapChange) => {
+    if (changes.get(id) !== 'added') changes.set(id, change);
+  };
+
+  actions.forEach((action, i) => {
+    switch (action.type) {
+      case 'add': {
+        const parentId = resolve(action.parentId);
+        if (!exists(parentId)) break;
+        const id = newId(i);
+        if (action.ref) refs.set(action.ref, id);
+        next = updateNode(next, parentId, p => ({ ...setCollapsed(p, false), children: [...p.children, { id, message: action.message, children: [] }] }));
+        changes.set(id, 'added');
+        changed.push(id);
+        return;
+      }
+      case 'rename': {
+        const id = resolve(action.id);
+        if (!exists(id) || findNode(next, id)!.message === action.message) break;
+        next = updateNode(next, id, n => ({ ...n, message: action.message }));
+        mark(id, 'renamed');
+        changed.push(id);
+        return;
+      }
+      case 'move': {
+        const id = resolve(action.id);
+        const parentId = resolve(action.parentId);
+        if (!exists(id) || !exists(parentId)) break;
+        const moved = moveNodes(next, [id], parentId);
+        if (moved === next) break;
+        next = moved;
+        mark(id, 'moved');
+        changed.push(id);
+        return;
+      }
+      case 'note': {
+        const id = resolve(action.id);
+        if (!exists(id) || (findNode(next, id)!.notes ?? '') === action.notes) break;
+        next = updateNode(next, id, n => ({ ...n, notes: action.notes || undefined }));
+        mark(id, 'noted');
+        changed.push(id);
+        return;
+      }
+      case 'delete': {
+        const id = resolve(action.id);
+        if (id === root.id || !exists(id)) break;
+        if (preview) {
+          const visit = (node: Card) => {
+            deleted.add(node.id);
+            changes.set(node.id, 'deleted');
+            node.children.forEach(visit);
+          };
+          visit(findNode(next, id)!);
+          changed.push(id);
+        } else {
+          next = removeNodes(next, new Set([id]));
+          changes.set(id, 'deleted');
+        }
+        return;
+      }
+    }
+    skipped++;
+  });
+
+  if (preview) next = changed.reduce(revealNode, next);
+  return { root: next, changes, skipped };
+};
+
+// 聊天面板中列出的单条修改说明
+export const describeAction = (action: MapAction, root: Card, actions: MapAction[]): string => {
+  const name = (id: string) => {
+    const added = actions.find(a => a.type === 'add' && a.ref === id);
+    const label = added && added.type === 'add' ? added.message : findNode(root, id)?.message;
+    return label ? `「${label}」` : `（未知节点 ${id}）`;
+  };
+  switch (action.type) {
+    case 'add': return `在${name(action.parentId)}下添加「${action.message}」`;
+    case 'rename': return `把${name(action.id)}改为「${action.message}」`;
+    case 'move': return `把${name(action.id)}移到${name(action.parentId)}下`;
+    case 'delete': return `删除${name(action.id)}`;
+    case 'note': return `更新${name(action.id)}的备注`;
+  }
+};
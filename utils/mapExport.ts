@@ -0,0 +1,154 @@
+import { Card, LayoutDirection } from '../types';
+import { CARD_W, ConnectorPath, RenderNode, flattenNodes, getLayoutEngine, getNodeButtons } from './layout';
+import {
+  MAP_BACKGROUND, CONNECTOR_COLOR, CONNECTOR_WIDTH, CARD_RADIUS, BADGE_COLOR, CARD_FONT_FAMILY, CARD_FONT_SIZE,
+  TAG_FONT_SIZE, MapBounds, drawCard, drawConnectors, getBadgeLabel, getCardDecorations, getMapBounds
+} from './mapRenderer';
+import { buildPdf, PdfPage } from './pdf';
+import { isSafeUrl } from './nodeFields';
+
+const EXPORT_PADDING = 40;
+// 浏览器对单个 canvas 的尺寸限制（取各主流浏览器的保守值）
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 4;
+// A4 横向，单位 pt
+const PDF_PAGE_W = 842;
+const PDF_PAGE_H = 595;
+
+interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// 在离屏环境中重新运行布局，与画布当前视口无关
+const layoutMap = (root: Card, layout: LayoutDirection) => {
+  const engine = getLayoutEngine(layout);
+  const nodes = flattenNodes(engine.layout(root));
+  const b: MapBounds = getMapBounds(nodes);
+  const region: Region = {
+    x: b.minX - EXPORT_PADDING,
+    y: b.minY - EXPORT_PADDING,
+    width: b.maxX - b.minX + EXPORT_PADDING * 2,
+    height: b.maxY - b.minY + EXPORT_PADDING * 2,
+  };
+  return { engine, nodes, region };
+};
+
+type MapLayout = ReturnType<typeof layoutMap>;
+
+const renderRegion = ({ engine, nodes }: MapLayout, region: Region, scale: number): HTMLCanvasElement => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(region.width * scale);
+  canvas.height = Math.ceil(region.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('无法创建离屏画布。');
+
+  ctx.fillStyle = MAP_BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.scale(scale, scale);
+  ctx.translate(-region.x, -region.y);
+  drawConnectors(ctx, nodes, engine);
+  nodes.forEach(node => drawCard(ctx, node, false));
+  return canvas;
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('图片编码失败。'))), type, quality);
+  });
+
+// 超出浏览器 canvas 上限时自动降低倍率，返回实际使用的倍率
+const clampScale = ({ region }: MapLayout, scale: number) => {
+  const bySide = MAX_CANVAS_SIDE / Math.max(region.width, region.height);
+  const byArea = Math.sqrt(MAX_CANVAS_AREA / (region.width * region.height));
+  return Math.min(scale, bySide, byArea);
+};
+
+export const exportPng = async (root: Card, layout: LayoutDirection, scale: number) => {
+  const map = layoutMap(root, layout);
+  const actualScale = clampScale(map, scale);
+  const blob = await canvasToBlob(renderRegion(map, map.region, actualScale), 'image/png');
+  return { blob, scale: actualScale };
+};
+
+// 按 1 布局单位 = 1pt 分页，scale 决定每页图片的像素密度
+export const exportPdf = async (root: Card, layout: LayoutDirection, scale: number): Promise<Blob> => {
+  const map = layoutMap(root, layout);
+  const { region } = map;
+  const cols = Math.max(1, Math.ceil(region.width / PDF_PAGE_W));
+  const rows = Math.max(1, Math.ceil(region.height / PDF_PAGE_H));
+  const pages: PdfPage[] = [];
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const tile: Region = { x: region.x + col * PDF_PAGE_W, y: region.y + row * PDF_PAGE_H, width: PDF_PAGE_W, height: PDF_PAGE_H };
+      const canvas = renderRegion(map, tile, scale);
+      const jpeg = new Uint8Array(await (await canvasToBlob(canvas, 'image/jpeg', 0.92)).arrayBuffer());
+      pages.push({ jpeg, width: canvas.width, height: canvas.height });
+    }
+  }
+  return buildPdf(pages, PDF_PAGE_W, PDF_PAGE_H);
+};
+
+// ---------- SVG：矢量连线与真实文字 ----------
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const createSvgPath = () => {
+  const parts: string[] = [];
+  const path: ConnectorPath & { toString: () => string } = {
+    moveTo: (x, y) => { parts.push(`M${x} ${y}`); },
+    lineTo: (x, y) => { parts.push(`L${x} ${y}`); },
+    bezierCurveTo: (c1x, c1y, c2x, c2y, x, y) => { parts.push(`C${c1x} ${c1y} ${c2x} ${c2y} ${x} ${y}`); },
+    toString: () => parts.join(' '),
+  };
+  return path;
+};
+
+const svgCard = (node: RenderNode, measure: CanvasRenderingContext2D | null): string => {
+  const { x, y, message } = node;
+  const { style, lines, tagLine, tagY, indicators } = getCardDecorations(node);
+  const link = node.url && isSafeUrl(node.url) ? node.url : null;
+  const parts = [
+    link ? `<a href="${escapeXml(link)}">` : `<g>`,
+    `<rect x="${x}" y="${y}" width="${CARD_W}" height="${node.height}" rx="${CARD_RADIUS}" fill="${style.fill}"${style.border ? ` stroke="${style.border}"` : ''} filter="url(#card-shadow)"/>`,
+    `<title>${escapeXml(node.notes ? `${message}\n\n${node.notes}` : message)}</title>`,
+    ...lines.map(line => `<text x="${x + CARD_W / 2}" y="${line.y}" fill="${style.text}" font-size="${CARD_FONT_SIZE}" font-weight="${style.fontWeight}" text-anchor="middle" dominant-baseline="central">${escapeXml(line.text)}</text>`),
+  ];
+  if (tagLine) {
+    parts.push(`<text x="${x + CARD_W / 2}" y="${tagY}" fill="${style.text}" fill-opacity="0.75" font-size="${TAG_FONT_SIZE}" font-weight="500" text-anchor="middle" dominant-baseline="central">${escapeXml(tagLine)}</text>`);
+  }
+  indicators.forEach(ind => {
+    if (ind.filled) parts.push(`<circle cx="${ind.x}" cy="${ind.y}" r="6" fill="${ind.color}"/>`);
+    parts.push(`<text x="${ind.x}" y="${ind.y + 1}" fill="${ind.filled ? '#ffffff' : ind.color}" font-family="Arial" font-size="9" font-weight="bold" text-anchor="middle" dominant-baseline="central">${escapeXml(ind.glyph)}</text>`);
+  });
+  if (node.hiddenCount > 0) {
+    const { x: tx, y: ty } = getNodeButtons(node).toggle;
+    const label = getBadgeLabel(node);
+    if (measure) measure.font = 'bold 10px Arial';
+    const w = Math.max(20, (measure ? measure.measureText(label).width : label.length * 6) + 12);
+    parts.push(`<rect x="${tx - w / 2}" y="${ty - 9}" width="${w}" height="18" rx="9" fill="${BADGE_COLOR}"/>`);
+    parts.push(`<text x="${tx}" y="${ty + 1}" fill="#ffffff" font-family="Arial" font-size="10" font-weight="bold" text-anchor="middle" dominant-baseline="central">${label}</text>`);
+  }
+  parts.push(link ? '</a>' : '</g>');
+  return parts.join('');
+};
+
+export const exportSvg = (root: Card, layout: LayoutDirection): string => {
+  const { engine, nodes, region } = layoutMap(root, layout);
+  const path = createSvgPath();
+  nodes.forEach(node => node.children.forEach(child => engine.drawConnector(path, node, child)));
+  // 徽标宽度与画布一致地用 measureText 计算
+  const measure = document.createElement('canvas').getContext('2d');
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${region.width}" height="${region.height}" viewBox="${region.x} ${region.y} ${region.width} ${region.height}" font-family='${CARD_FONT_FAMILY}'>`,
+    `<defs><filter id="card-shadow" x="-20%" y="-20%" width="140%" height="160%"><feDropShadow dx="0" dy="4" stdDeviation="5" flood-color="#000000" flood-opacity="0.06"/></filter></defs>`,
+    `<rect x="${region.x}" y="${region.y}" width="${region.width}" height="${region.height}" fill="${MAP_BACKGROUND}"/>`,
+    `<path d="${path}" fill="none" stroke="${CONNECTOR_COLOR}" stroke-width="${CONNECTOR_WIDTH}"/>`,
+    ...nodes.map(node => svgCard(node, measure)),
+    '</svg>',
+  ].join('\n');
+};
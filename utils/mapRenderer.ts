@@ -0,0 +1,426 @@
+import { CARD_W, RenderNode, LayoutEngine, getNodeButtons, hasToggle } from './layout';
+import { NODE_STATUS_INFO, PRIORITY_INFO, getContrastText } from './nodeFields';
+import { DropTarget } from './dragDrop';
+import { ExpansionStatus, MapChange } from '../types';
+import { CARD_FONT_FAMILY, CARD_FONT_SIZE, LINE_HEIGHT, TAG_LINE_HEIGHT } from './textLayout';
+
+export { CARD_FONT_FAMILY, CARD_FONT_SIZE };
+
+// 画布、PNG/PDF 与 SVG 导出共用的样式与绘制逻辑
+
+export const MAP_BACKGROUND = '#f8fafc';
+export const CONNECTOR_COLOR = '#94a3b8';
+export const CONNECTOR_WIDTH = 1.2;
+export const CARD_RADIUS = 10;
+export const BADGE_COLOR = '#f97316';
+export const DIMMED_ALPHA = 0.2;
+
+export interface CardStyle {
+  fill: string;
+  border: string | null;
+  text: string;
+  fontWeight: number;
+}
+
+export const getCardStyle = (depth: number, color?: string): CardStyle => {
+  if (color) return { fill: color, border: null, text: getContrastText(color), fontWeight: depth === 0 ? 700 : 500 };
+  if (depth === 0) return { fill: '#1e293b', border: null, text: '#ffffff', fontWeight: 700 };
+  if (depth === 1) return { fill: '#4f46e5', border: null, text: '#ffffff', fontWeight: 500 };
+  return { fill: '#ffffff', border: '#e2e8f0', text: '#334155', fontWeight: 500 };
+};
+
+export const truncateMessage = (message: string, max = 20) => (message.length > max ? message.slice(0, max - 2) + '...' : message);
+
+// ---------- 富信息装饰：图标、标签、优先级、状态、备注与链接标记 ----------
+
+const INDICATOR_INSET = 18; // 避开卡片边缘的 + / AI 按钮
+export const INDICATOR_FONT = 'bold 9px Arial';
+export const TAG_FONT_SIZE = 9;
+
+export interface Indicator {
+  x: number;
+  y: number;
+  glyph: string;
+  color: string;
+  filled: boolean; // 实心圆底 + 白字，否则只绘制字形
+}
+
+export interface CardDecorations {
+  style: CardStyle;
+  lines: { text: string; y: number }[]; // 每行文字的中线位置
+  tagLine: string | null;
+  tagY: number;
+  indicators: Indicator[];
+}
+
+export const getCardDecorations = (node: RenderNode): CardDecorations => {
+  const { x, y } = node;
+  const style = getCardStyle(node.depth, node.color);
+  const tags = node.tags || [];
+  const tagLine = tags.length ? truncateMessage(tags.map(t => `#${t}`).join(' '), 24) : null;
+  // 文字块（各行 + 标签行）在卡片内垂直居中
+  const blockTop = y + (node.height - node.lines.length * LINE_HEIGHT - (tagLine ? TAG_LINE_HEIGHT : 0)) / 2;
+  const top = y + 11;
+  const bottom = y + node.height - 11;
+  const indicators: Indicator[] = [];
+  if (node.priority) indicators.push({ x: x + INDICATOR_INSET, y: top, glyph: String(node.priority), color: PRIORITY_INFO[node.priority].color, filled: true });
+  if (node.status) {
+    const info = NODE_STATUS_INFO[node.status];
+    indicators.push({ x: x + INDICATOR_INSET, y: bottom, glyph: info.glyph, color: node.color ? style.text : info.color, filled: false });
+  }
+  if (node.notes) indicators.push({ x: x + CARD_W - INDICATOR_INSET, y: top, glyph: '≡', color: node.color ? style.text : '#f59e0b', filled: false });
+  if (node.url) indicators.push({ x: x + CARD_W - INDICATOR_INSET, y: bottom, glyph: '↗', color: node.color ? style.text : '#3b82f6', filled: false });
+  return {
+    style,
+    lines: node.lines.map((text, i) => ({ text, y: blockTop + LINE_HEIGHT * (i + 0.5) })),
+    tagLine,
+    tagY: blockTop + node.lines.length * LINE_HEIGHT + TAG_LINE_HEIGHT / 2,
+    indicators,
+  };
+};
+
+export const getBadgeLabel = (node: RenderNode) => `+${node.hiddenCount}`;
+
+export interface MapBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+// 包含卡片外侧按钮与底部徽标的留白
+export const getMapBounds = (nodes: RenderNode[]): MapBounds => {
+  const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+  nodes.forEach(n => {
+    bounds.minX = Math.min(bounds.minX, n.x);
+    bounds.minY = Math.min(bounds.minY, n.y);
+    bounds.maxX = Math.max(bounds.maxX, n.x + CARD_W);
+    bounds.maxY = Math.max(bounds.maxY, n.y + n.height);
+  });
+  return { minX: bounds.minX - 12, minY: bounds.minY - 12, maxX: bounds.maxX + 12, maxY: bounds.maxY + 12 };
+};
+
+// ---------- 细节层级：缩小时逐级省略阴影、按钮与文字 ----------
+
+export type DetailLevel = 'full' | 'reduced' | 'block';
+
+export const LOD_REDUCED_SCALE = 0.6; // 低于该比例不绘制阴影与按钮
+export const LOD_BLOCK_SCALE = 0.35; // 低于该比例卡片只绘制色块
+
+export const getDetailLevel = (scale: number): DetailLevel =>
+  scale < LOD_BLOCK_SCALE ? 'block' : scale < LOD_REDUCED_SCALE ? 'reduced' : 'full';
+
+// 连线落在父子两张卡片的外接矩形内（曲线控制点也不超出），每帧对所有连线调用，不分配对象
+const isEdgeVisible = (parent: RenderNode, child: RenderNode, view: MapBounds) =>
+  Math.min(parent.x, child.x) <= view.maxX
+  && Math.max(parent.x, child.x) + CARD_W >= view.minX
+  && Math.min(parent.y, child.y) <= view.maxY
+  && Math.max(parent.y + parent.height, child.y + child.height) >= view.minY;
+
+// dimmed 中的节点（搜索淡化）与其父节点之间的连线单独以低透明度绘制；
+// 传入 view 时跳过包围盒在视口外的连线
+export const drawConnectors = (ctx: CanvasRenderingContext2D, nodes: RenderNode[], engine: LayoutEngine, dimmed?: Set<string>, view?: MapBounds) => {
+  const stroke = (isDimmed: boolean) => {
+    ctx.beginPath();
+    nodes.forEach(node => {
+      node.children.forEach(child => {
+        if (!!dimmed?.has(child.id) !== isDimmed) return;
+        if (view && !isEdgeVisible(node, child, view)) return;
+        engine.drawConnector(ctx, node, child);
+      });
+    });
+    ctx.stroke();
+  };
+  ctx.save();
+  ctx.strokeStyle = CONNECTOR_COLOR;
+  ctx.lineWidth = CONNECTOR_WIDTH;
+  stroke(false);
+  if (dimmed?.size) {
+    ctx.globalAlpha = DIMMED_ALPHA;
+    stroke(true);
+  }
+  ctx.restore();
+};
+
+// withControls 为 false 时（导出、缩小后）不绘制 "+"、"AI" 与展开状态下的折叠开关；shadow 为 false 时省略阴影。
+// expansion 为该节点 AI 扩展的状态：进行中的 AI 按钮为橙色，排队中为灰色
+export const drawCard = (ctx: CanvasRenderingContext2D, node: RenderNode, withControls: boolean, shadow = true, expansion?: ExpansionStatus) => {
+  const { x, y } = node;
+  const { style, lines, tagLine, tagY, indicators } = getCardDecorations(node);
+  const buttons = getNodeButtons(node);
+
+  ctx.save();
+
+  // 卡片阴影
+  if (shadow) {
+    ctx.shadowColor = 'rgba(0,0,0,0.06)';
+    ctx.shadowBlur = 10;
+    ctx.shadowOffsetY = 4;
+  }
+
+  // 卡片圆角矩形
+  ctx.beginPath();
+  ctx.roundRect(x, y, CARD_W, node.height, CARD_RADIUS);
+  ctx.fillStyle = style.fill;
+  ctx.fill();
+
+  ctx.shadowBlur = 0;
+  ctx.shadowOffsetY = 0;
+  ctx.strokeStyle = style.border ?? 'transparent';
+  ctx.lineWidth = 1;
+  ctx.stroke();
+
+  // 精确文字渲染
+  ctx.fillStyle = style.text;
+  ctx.font = `${style.fontWeight} ${CARD_FONT_SIZE}px ${CARD_FONT_FAMILY}`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  lines.forEach(line => ctx.fillText(line.text, x + CARD_W / 2, line.y));
+
+  if (tagLine) {
+    ctx.globalAlpha = 0.75;
+    ctx.font = `500 ${TAG_FONT_SIZE}px ${CARD_FONT_FAMILY}`;
+    ctx.fillText(tagLine, x + CARD_W / 2, tagY);
+    ctx.globalAlpha = 1;
+  }
+
+  indicators.forEach(ind => {
+    ctx.font = INDICATOR_FONT;
+    if (ind.filled) {
+      ctx.beginPath();
+      ctx.arc(ind.x, ind.y, 6, 0, Math.PI * 2);
+      ctx.fillStyle = ind.color;
+      ctx.fill();
+      ctx.fillStyle = 'white';
+    } else {
+      ctx.fillStyle = ind.color;
+    }
+    ctx.fillText(ind.glyph, ind.x, ind.y + 1);
+  });
+
+  if (withControls) {
+    // 操作按钮 (+)
+    ctx.fillStyle = '#10b981';
+    ctx.beginPath();
+    ctx.arc(buttons.add.x, buttons.add.y, 10, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    ctx.font = 'bold 12px Arial';
+    ctx.fillText('+', buttons.add.x, buttons.add.y + 1);
+
+    // AI 按钮
+    ctx.fillStyle = expansion === 'running' ? '#f59e0b' : expansion === 'queued' ? '#94a3b8' : '#6366f1';
+    ctx.beginPath();
+    ctx.arc(buttons.ai.x, buttons.ai.y, 10, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = 'white';
+    if (expansion) {
+      ctx.font = '8px Arial';
+      ctx.fillText('...', buttons.ai.x, buttons.ai.y);
+    } else {
+      ctx.font = '9px Arial';
+      ctx.fillText('AI', buttons.ai.x, buttons.ai.y + 1);
+    }
+  }
+
+  // 折叠开关：展开时显示 "−"，折叠时显示隐藏的后代数量
+  if (hasToggle(node)) {
+    const { x: tx, y: ty } = buttons.toggle;
+    ctx.beginPath();
+    if (node.hiddenCount > 0) {
+      const label = getBadgeLabel(node);
+      ctx.font = 'bold 10px Arial';
+      const w = Math.max(20, ctx.measureText(label).width + 12);
+      ctx.roundRect(tx - w / 2, ty - 9, w, 18, 9);
+      ctx.fillStyle = BADGE_COLOR;
+      ctx.fill();
+      ctx.fillStyle = 'white';
+      ctx.fillText(label, tx, ty + 1);
+    } else if (withControls) {
+      ctx.arc(tx, ty, 8, 0, Math.PI * 2);
+      ctx.fillStyle = '#ffffff';
+      ctx.fill();
+      ctx.strokeStyle = CONNECTOR_COLOR;
+      ctx.stroke();
+      ctx.fillStyle = '#64748b';
+      ctx.font = 'bold 12px Arial';
+      ctx.fillText('−', tx, ty + 1);
+    }
+  }
+
+  ctx.restore();
+};
+
+// 色块模式：同色同透明度的卡片合并为一条路径填充，大图缩小时每帧只有少量绘制调用
+export const drawCardBlocks = (ctx: CanvasRenderingContext2D, nodes: RenderNode[], alphaOf: (node: RenderNode) => number = () => 1) => {
+  const groups = new Map<string, { fill: string; alpha: number; nodes: RenderNode[] }>();
+  nodes.forEach(node => {
+    const { fill, border } = getCardStyle(node.depth, node.color);
+    const color = border && !node.color ? '#cbd5e1' : fill;
+    const alpha = alphaOf(node);
+    const key = `${color}|${alpha}`;
+    const group = groups.get(key) ?? { fill: color, alpha, nodes: [] };
+    group.nodes.push(node);
+    groups.set(key, group);
+  });
+  ctx.save();
+  groups.forEach(group => {
+    ctx.globalAlpha = group.alpha;
+    ctx.fillStyle = group.fill;
+    ctx.beginPath();
+    group.nodes.forEach(node => ctx.rect(node.x, node.y, CARD_W, node.height));
+    ctx.fill();
+  });
+  ctx.restore();
+};
+
+export interface SceneOptions {
+  engine: LayoutEngine;
+  nodes: RenderNode[]; // 全部节点，用于连线
+  visible: RenderNode[]; // 视口内的卡片，按绘制顺序
+  view: MapBounds;
+  scale: number;
+  dimmed?: Set<string>;
+  alphaOf?: (node: RenderNode) => number;
+  expansions?: Map<string, ExpansionStatus>;
+}
+
+// 画布的一帧：只绘制视口内的连线与卡片，并按缩放比例选择细节层级。画布与性能基准共用。
+export const drawScene = (ctx: CanvasRenderingContext2D, { engine, nodes, visible, view, scale, dimmed, alphaOf = () => 1, expansions }: SceneOptions) => {
+  drawConnectors(ctx, nodes, engine, dimmed, view);
+  const level = getDetailLevel(scale);
+  if (level === 'block') {
+    drawCardBlocks(ctx, visible, alphaOf);
+    return;
+  }
+  visible.forEach(node => {
+    ctx.globalAlpha = alphaOf(node);
+    drawCard(ctx, node, level === 'full', level === 'full', expansions?.get(node.id));
+  });
+  ctx.globalAlpha = 1;
+};
+
+export const SELECTION_COLOR = '#6366f1';
+
+export const drawSelection = (ctx: CanvasRenderingContext2D, node: RenderNode) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(node.x - 3, node.y - 3, CARD_W + 6, node.height + 6, CARD_RADIUS + 3);
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = 2.5;
+  ctx.stroke();
+  ctx.restore();
+};
+
+// 框选矩形，a、b 为拖动起点与当前点（地图坐标）
+export const drawMarquee = (ctx: CanvasRenderingContext2D, a: { x: number; y: number }, b: { x: number; y: number }) => {
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  const w = Math.abs(b.x - a.x);
+  const h = Math.abs(b.y - a.y);
+  const px = 1 / ctx.getTransform().a; // 线宽与虚线间隔不随缩放变化
+  ctx.save();
+  ctx.fillStyle = 'rgba(99, 102, 241, 0.08)';
+  ctx.fillRect(x, y, w, h);
+  ctx.strokeStyle = SELECTION_COLOR;
+  ctx.lineWidth = px;
+  ctx.setLineDash([4 * px, 3 * px]);
+  ctx.strokeRect(x, y, w, h);
+  ctx.restore();
+};
+
+export const DROP_CHILD_COLOR = '#10b981';
+
+export const drawDropIndicator = (ctx: CanvasRenderingContext2D, target: DropTarget) => {
+  const { node, kind, axis } = target;
+  ctx.save();
+  if (kind === 'child') {
+    ctx.beginPath();
+    ctx.roundRect(node.x - 4, node.y - 4, CARD_W + 8, node.height + 8, CARD_RADIUS + 4);
+    ctx.setLineDash([6, 4]);
+    ctx.strokeStyle = DROP_CHILD_COLOR;
+    ctx.lineWidth = 2.5;
+    ctx.stroke();
+  } else {
+    // 插入指示线画在卡片与相邻兄弟之间
+    const gap = 7;
+    const [x1, y1, x2, y2] = axis === 'y'
+      ? [node.x, kind === 'before' ? node.y - gap : node.y + node.height + gap, node.x + CARD_W, kind === 'before' ? node.y - gap : node.y + node.height + gap]
+      : [kind === 'before' ? node.x - gap : node.x + CARD_W + gap, node.y, kind === 'before' ? node.x - gap : node.x + CARD_W + gap, node.y + node.height];
+    ctx.strokeStyle = SELECTION_COLOR;
+    ctx.fillStyle = SELECTION_COLOR;
+    ctx.lineWidth = 3;
+    ctx.beginPath();
+    ctx.moveTo(x1, y1);
+    ctx.lineTo(x2, y2);
+    ctx.stroke();
+    [[x1, y1], [x2, y2]].forEach(([cx, cy]) => {
+      ctx.beginPath();
+      ctx.arc(cx, cy, 4, 0, Math.PI * 2);
+      ctx.fill();
+    });
+  }
+  ctx.restore();
+};
+
+export const SEARCH_MATCH_COLOR = '#facc15';
+export const SEARCH_ACTIVE_COLOR = '#f97316';
+
+// AI 助手修改预览：新增、改名、移动与删除的节点用不同颜色的虚线框标出
+export const CHANGE_COLORS: Record<MapChange, string> = {
+  added: '#10b981',
+  renamed: '#f59e0b',
+  moved: '#3b82f6',
+  deleted: '#f43f5e',
+  noted: '#8b5cf6',
+};
+
+export const drawChangeMarker = (ctx: CanvasRenderingContext2D, node: RenderNode, change: MapChange) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(node.x - 5, node.y - 5, CARD_W + 10, node.height + 10, CARD_RADIUS + 5);
+  ctx.strokeStyle = CHANGE_COLORS[change];
+  ctx.lineWidth = 2.5;
+  ctx.setLineDash([6, 4]);
+  ctx.stroke();
+  if (change === 'deleted') {
+    ctx.setLineDash([]);
+    ctx.beginPath();
+    ctx.moveTo(node.x + 12, node.y + node.height / 2);
+    ctx.lineTo(node.x + CARD_W - 12, node.y + node.height / 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+};
+
+// 搜索结果外框：当前结果用橙色加粗，其余匹配用黄色
+export const drawSearchHighlight = (ctx: CanvasRenderingContext2D, node: RenderNode, active: boolean) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(node.x - 6, node.y - 6, CARD_W + 12, node.height + 12, CARD_RADIUS + 6);
+  ctx.strokeStyle = active ? SEARCH_ACTIVE_COLOR : SEARCH_MATCH_COLOR;
+  ctx.lineWidth = active ? 4 : 3;
+  ctx.stroke();
+  ctx.restore();
+};
+
+// 其他协作者选中的节点：对方颜色的外框，左上角标出名字
+export const drawPeerSelection = (ctx: CanvasRenderingContext2D, node: RenderNode, color: string, name: string) => {
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(node.x - 4, node.y - 4, CARD_W + 8, node.height + 8, CARD_RADIUS + 4);
+  ctx.strokeStyle = color;
+  ctx.lineWidth = 2;
+  ctx.stroke();
+  ctx.font = INDICATOR_FONT;
+  const label = truncateMessage(name, 12);
+  const width = ctx.measureText(label).width + 8;
+  ctx.fillStyle = color;
+  ctx.beginPath();
+  ctx.roundRect(node.x - 4, node.y - 17, width, 13, 3);
+  ctx.fill();
+  ctx.fillStyle = getContrastText(color);
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, node.x, node.y - 10.5);
+  ctx.restore();
+};
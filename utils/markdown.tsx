@@ -0,0 +1,78 @@
+import React from 'react';
+import { isSafeUrl } from './nodeFields';
+
+// 备注用的轻量 Markdown 渲染：标题、列表、引用、代码块、粗体、斜体、行内代码与链接。
+// 直接生成 React 元素，不使用 innerHTML。
+// 传入 onNodeLink 时，[文本](node:id) 形式的链接渲染为跳转到导图节点的按钮。
+
+const INLINE = /(\*\*[^*]+\*\*|\*[^*]+\*|`[^`]+`|\[[^\]]+\]\([^)\s]+\))/g;
+
+export interface MarkdownOptions {
+  onNodeLink?: (id: string) => void;
+}
+
+const renderInline = (text: string, keyPrefix: string, options: MarkdownOptions): React.ReactNode[] =>
+  text.split(INLINE).filter(Boolean).map((part, i) => {
+    const key = `${keyPrefix}-${i}`;
+    if (part.startsWith('**') && part.endsWith('**')) return <strong key={key}>{part.slice(2, -2)}</strong>;
+    if (part.startsWith('`') && part.endsWith('`')) return <code key={key} className="px-1 bg-slate-100 rounded text-[0.9em]">{part.slice(1, -1)}</code>;
+    const link = part.match(/^\[([^\]]+)\]\(([^)\s]+)\)$/);
+    if (link && link[2].startsWith('node:') && options.onNodeLink) {
+      const id = link[2].slice('node:'.length);
+      return <button key={key} type="button" onClick={() => options.onNodeLink!(id)} title="在导图中定位" className="px-1 rounded bg-indigo-50 text-indigo-700 font-semibold hover:bg-indigo-100">{link[1]}</button>;
+    }
+    if (link) {
+      return isSafeUrl(link[2])
+        ? <a key={key} href={link[2]} target="_blank" rel="noreferrer" className="text-indigo-600 underline">{link[1]}</a>
+        : <span key={key}>{link[1]}</span>;
+    }
+    if (part.startsWith('*') && part.endsWith('*') && part.length > 2) return <em key={key}>{part.slice(1, -1)}</em>;
+    return <React.Fragment key={key}>{part}</React.Fragment>;
+  });
+
+export const renderMarkdown = (source: string, options: MarkdownOptions = {}): React.ReactNode[] => {
+  const blocks: React.ReactNode[] = [];
+  const lines = source.split(/\r?\n/);
+  let list: { ordered: boolean; items: string[] } | null = null;
+
+  const flushList = () => {
+    if (!list) return;
+    const items = list.items.map((item, i) => <li key={i}>{renderInline(item, `li${blocks.length}-${i}`, options)}</li>);
+    blocks.push(list.ordered
+      ? <ol key={blocks.length} className="list-decimal ml-5 space-y-0.5">{items}</ol>
+      : <ul key={blocks.length} className="list-disc ml-5 space-y-0.5">{items}</ul>);
+    list = null;
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.trim().startsWith('```')) {
+      flushList();
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith('```')) code.push(lines[i]);
+      blocks.push(<pre key={blocks.length} className="bg-slate-900 text-slate-100 rounded-lg p-3 overflow-x-auto text-[11px]">{code.join('\n')}</pre>);
+      continue;
+    }
+    const bullet = line.match(/^\s*(?:([-*+])|(\d+)[.)])\s+(.*)$/);
+    if (bullet) {
+      const ordered = !!bullet[2];
+      if (list && list.ordered !== ordered) flushList();
+      if (!list) list = { ordered, items: [] };
+      list.items.push(bullet[3]);
+      continue;
+    }
+    flushList();
+    if (!line.trim()) continue;
+    const heading = line.match(/^(#{1,6})\s+(.*)$/);
+    if (heading) {
+      const size = heading[1].length <= 2 ? 'text-sm' : 'text-xs';
+      blocks.push(<p key={blocks.length} className={`${size} font-black text-slate-800`}>{renderInline(heading[2], `h${i}`, options)}</p>);
+    } else if (line.startsWith('>')) {
+      blocks.push(<blockquote key={blocks.length} className="border-l-2 border-slate-300 pl-3 text-slate-500">{renderInline(line.replace(/^>\s?/, ''), `q${i}`, options)}</blockquote>);
+    } else {
+      blocks.push(<p key={blocks.length}>{renderInline(line, `p${i}`, options)}</p>);
+    }
+  }
+  flushList();
+  return blocks;
+};
@@ -0,0 +1,110 @@
+import { Card, MapAction, NodeActionKind } from '../types';
+import { appendNote } from './chatThreads';
+import { findNode, findParent } from './tree';
+
+// 节点 AI 操作：模型按 services/providers/prompts.ts 中的格式返回 JSON，
+// 这里把它校验并转换为 MapAction，复用 AI 助手的预览与应用流程
+
+export const NODE_ACTIONS: Record<NodeActionKind, { label: string; description: string; empty: string }> = {
+  rephrase: { label: '改写', description: '让节点文字更清晰具体', empty: 'AI 认为当前文字已经合适，没有改写。' },
+  split: { label: '拆分', description: '把笼统的节点拆成几个具体的同级节点', empty: 'AI 没有给出拆分方案。' },
+  merge: { label: '合并重复', description: '合并意思重复的子节点', empty: '没有找到需要合并的重复子节点。' },
+  summarize: { label: '总结为备注', description: '把整个分支总结写入备注', empty: 'AI 没有给出总结。' },
+  regroup: { label: '重新分组', description: '把平铺的子节点归入几个分组', empty: 'AI 没有给出分组方案。' },
+};
+
+export const NODE_ACTION_ORDER: NodeActionKind[] = ['rephrase', 'split', 'merge', 'summarize', 'regroup'];
+
+// 根节点不能拆分；合并与分组至少需要若干子节点
+export const canRunNodeAction = (root: Card, nodeId: string, kind: NodeActionKind): boolean => {
+  const node = findNode(root, nodeId);
+  if (!node) return false;
+  switch (kind) {
+    case 'rephrase': return true;
+    case 'split': return node.id !== root.id;
+    case 'merge': return node.children.length >= 2;
+    case 'summarize': return node.children.length >= 1;
+    case 'regroup': return node.children.length >= 3;
+  }
+};
+
+const asText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : null);
+const asRecord = (value: unknown) => (value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : null);
+const asArray = (value: unknown) => (Array.isArray(value) ? value : null);
+
+// 子节点整体移到 targetId 下
+const moveChildren = (node: Card, targetId: string): MapAction[] =>
+  node.children.map(child => ({ type: 'move', id: child.id, parentId: targetId }));
+
+// 返回 null 表示模型输出的结构不可用；空数组表示模型认为无需修改
+export const toNodeActions = (kind: NodeActionKind, raw: unknown, root: Card, nodeId: string): MapAction[] | null => {
+  const node = findNode(root, nodeId);
+  const data = asRecord(raw);
+  if (!node || !data) return null;
+  const childIds = new Set(node.children.map(c => c.id));
+
+  switch (kind) {
+    case 'rephrase': {
+      const message = asText(data.message);
+      if (!message) return null;
+      return message === node.message ? [] : [{ type: 'rename', id: nodeId, message }];
+    }
+    case 'split': {
+      const parent = findParent(root, nodeId);
+      const parts = (asArray(data.children) ?? [])
+        .map(item => asText(item) ?? asText(asRecord(item)?.message))
+        .filter((message): message is string => message !== null);
+      if (!parent || parts.length < 2) return null;
+      // 原节点的子节点归入第一个新节点，然后删除原节点
+      return [
+        ...parts.map((message, i): MapAction => ({ type: 'add', parentId: parent.id, message, ref: `split-${i}` })),
+        ...moveChildren(node, 'split-0'),
+        { type: 'delete', id: nodeId },
+      ];
+    }
+    case 'merge': {
+      const groups = asArray(data.groups);
+      if (!groups) return null;
+      const used = new Set<string>();
+      const actions: MapAction[] = [];
+      groups.forEach(item => {
+        const group = asRecord(item);
+        const keep = asText(group?.keep);
+        if (!group || !keep || !childIds.has(keep) || used.has(keep)) return;
+        const merged = (asArray(group.merge) ?? [])
+          .map(asText)
+          .filter((id): id is string => !!id && id !== keep && childIds.has(id) && !used.has(id));
+        if (merged.length === 0) return;
+        [keep, ...merged].forEach(id => used.add(id));
+        const message = asText(group.message);
+        if (message && message !== findNode(node, keep)!.message) actions.push({ type: 'rename', id: keep, message });
+        merged.forEach(id => {
+          actions.push(...moveChildren(findNode(node, id)!, keep), { type: 'delete', id });
+        });
+      });
+      return actions;
+    }
+    case 'summarize': {
+      const summary = asText(data.summary);
+      return summary ? [{ type: 'note', id: nodeId, notes: appendNote(node.notes, summary) }] : null;
+    }
+    case 'regroup': {
+      const groups = asArray(data.groups);
+      if (!groups) return null;
+      const used = new Set<string>();
+      const actions: MapAction[] = [];
+      groups.forEach((item, i) => {
+        const group = asRecord(item);
+        const message = asText(group?.message);
+        const members = (asArray(group?.children) ?? [])
+          .map(asText)
+          .filter((id): id is string => !!id && childIds.has(id) && !used.has(id));
+        if (!message || members.length === 0) return;
+        members.forEach(id => used.add(id));
+        const ref = `group-${i}`;
+        actions.push({ type: 'add', parentId: nodeId, message, ref }, ...members.map((id): MapAction => ({ type: 'move', id, parentId: ref })));
+      });
+      return actions.length ? actions : null;
+    }
+  }
+};
@@ -0,0 +1,49 @@
+import { Card, NodePriority, NodeStatus } from '../types';
+
+// 节点富信息字段的取值范围与显示方式，供检查器、画布绘制与校验共用
+
+export type NodeFields = Pick<Card, 'notes' | 'tags' | 'color' | 'icon' | 'url' | 'priority' | 'status' | 'sources'>;
+
+export const NODE_FIELD_KEYS: (keyof NodeFields)[] = ['notes', 'tags', 'color', 'icon', 'url', 'priority', 'status', 'sources'];
+
+export const NODE_STATUS_INFO: Record<NodeStatus, { label: string; glyph: string; color: string }> = {
+  todo: { label: '待办', glyph: '○', color: '#64748b' },
+  doing: { label: '进行中', glyph: '◐', color: '#0ea5e9' },
+  done: { label: '已完成', glyph: '✓', color: '#10b981' },
+  blocked: { label: '受阻', glyph: '✕', color: '#ef4444' },
+};
+
+export const PRIORITY_INFO: Record<NodePriority, { label: string; color: string }> = {
+  1: { label: 'P1 高', color: '#ef4444' },
+  2: { label: 'P2 中', color: '#f59e0b' },
+  3: { label: 'P3 低', color: '#3b82f6' },
+};
+
+export const NODE_COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#14b8a6', '#3b82f6', '#8b5cf6', '#ec4899', '#64748b'];
+
+export const isNodeStatus = (v: unknown): v is NodeStatus => typeof v === 'string' && v in NODE_STATUS_INFO;
+export const isNodePriority = (v: unknown): v is NodePriority => v === 1 || v === 2 || v === 3;
+export const isHexColor = (v: unknown): v is string => typeof v === 'string' && /^#[0-9a-f]{6}$/i.test(v);
+// 只有这些协议的链接可以点击，导入的文件中可能带有 javascript: 等链接
+export const isSafeUrl = (url: string) => /^(https?:|mailto:)/i.test(url);
+
+// 标签去空白、去重，保持原有顺序
+export const normalizeTags = (tags: string[]): string[] =>
+  Array.from(new Set(tags.map(t => t.trim().replace(/^#/, '')).filter(Boolean)));
+
+// 合并字段修改；空字符串、空数组与 undefined 视为清除该字段
+export const applyNodeFields = (node: Card, patch: Partial<NodeFields>): Card => {
+  const next: Card = { ...node, ...patch };
+  NODE_FIELD_KEYS.forEach(key => {
+    const value = next[key];
+    if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) delete next[key];
+  });
+  return next;
+};
+
+// 根据底色选择可读的文字颜色
+export const getContrastText = (hex: string) => {
+  const n = parseInt(hex.slice(1), 16);
+  const luminance = (0.299 * ((n >> 16) & 255) + 0.587 * ((n >> 8) & 255) + 0.114 * (n & 255)) / 255;
+  return luminance > 0.6 ? '#1e293b' : '#ffffff';
+};
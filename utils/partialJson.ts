@@ -0,0 +1,77 @@
+// 容错解析流式到达的 JSON：回退到最后一个完整的值，再补齐尚未闭合的括号。
+// 尚未收完的字符串不会出现在结果中，因此节点文本总是完整的。
+
+interface Frame {
+  type: '{' | '[';
+  expectKey: boolean; // 对象内当前是否等待 key
+}
+
+export const parsePartialJson = (input: string): unknown => {
+  // 跳过 ```json 之类的前缀
+  const start = input.search(/[{[]/);
+  if (start < 0) return undefined;
+  const text = input.slice(start);
+
+  const stack: Frame[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let escape = false;
+  let safeIndex = -1;
+  let safeStack: Frame[] = [];
+
+  const markSafe = (index: number) => {
+    safeIndex = index;
+    safeStack = stack.map(f => ({ ...f }));
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escape) escape = false;
+      else if (ch === '\\') escape = true;
+      else if (ch === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    const top = stack[stack.length - 1];
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringIsKey = !!top && top.type === '{' && top.expectKey;
+        break;
+      case '{':
+      case '[':
+        stack.push({ type: ch, expectKey: ch === '{' });
+        // 空容器本身也是合法的值
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        markSafe(i + 1);
+        if (stack.length === 0) return JSON.parse(text.slice(0, i + 1));
+        break;
+      case ':':
+        if (top) top.expectKey = false;
+        break;
+      case ',':
+        if (top && top.type === '{') top.expectKey = true;
+        // 逗号前的数字、布尔等字面量已完整
+        markSafe(i);
+        break;
+    }
+  }
+
+  if (safeIndex < 0) return undefined;
+  // 安全点只落在完整的值之后（或逗号之前），截断后补齐括号即可
+  let repaired = text.slice(0, safeIndex);
+  for (let i = safeStack.length - 1; i >= 0; i--) repaired += safeStack[i].type === '{' ? '}' : ']';
+  try {
+    return JSON.parse(repaired);
+  } catch {
+    return undefined;
+  }
+};
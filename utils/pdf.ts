@@ -0,0 +1,62 @@
+// 极简 PDF 生成器：每页嵌入一张铺满页面的 JPEG 图片
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  width: number; // 图片像素尺寸
+  height: number;
+}
+
+export const buildPdf = (pages: PdfPage[], pageWidth: number, pageHeight: number): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let offset = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    offset += bytes.length;
+  };
+  const beginObject = (n: number) => {
+    offsets[n] = offset;
+    push(`${n} 0 obj\n`);
+  };
+
+  // 对象编号：1 Catalog，2 Pages，之后每页占用 Page / Contents / Image 三个对象
+  const pageObj = (i: number) => 3 + i * 3;
+  const objectCount = 3 + pages.length * 3;
+
+  push('%PDF-1.4\n');
+  push(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, i) => `${pageObj(i)} 0 R`).join(' ');
+  push(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const n = pageObj(i);
+    beginObject(n);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] /Contents ${n + 1} 0 R /Resources << /XObject << /Im0 ${n + 2} 0 R >> >> >>\nendobj\n`);
+
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+    beginObject(n + 1);
+    push(`<< /Length ${encoder.encode(content).length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+    beginObject(n + 2);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    push(page.jpeg);
+    push('\nendstream\nendobj\n');
+  });
+
+  const xrefOffset = offset;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let n = 1; n < objectCount; n++) {
+    push(`${offsets[n].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
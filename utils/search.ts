@@ -0,0 +1,54 @@
+import { Card } from '../types';
+
+// 搜索匹配节点文本、备注与标签。多个关键词以空格分隔，需全部命中，不区分大小写。
+// 折叠分支中的节点同样参与搜索，跳转到该结果时再展开祖先。
+
+export type SearchMode = 'highlight' | 'dim' | 'hide';
+
+export const SEARCH_MODES: Record<SearchMode, { label: string; description: string }> = {
+  highlight: { label: '高亮', description: '只标出匹配节点' },
+  dim: { label: '淡化', description: '淡化与结果无关的分支' },
+  hide: { label: '筛选', description: '只显示匹配节点及其祖先' },
+};
+
+export interface SearchResult {
+  matches: string[]; // 按深度优先顺序排列，与键盘导航的顺序一致
+  matchSet: Set<string>;
+  ancestors: Set<string>; // 匹配节点的祖先，筛选时保留以维持层级
+}
+
+export const EMPTY_SEARCH: SearchResult = { matches: [], matchSet: new Set(), ancestors: new Set() };
+
+export const parseQuery = (query: string) => query.trim().toLowerCase().split(/\s+/).filter(Boolean);
+
+const getSearchText = (card: Card) => [card.message, card.notes, ...(card.tags || [])].filter(Boolean).join('\n').toLowerCase();
+
+export const searchTree = (root: Card, query: string): SearchResult => {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return EMPTY_SEARCH;
+
+  const matches: string[] = [];
+  const ancestors = new Set<string>();
+  const path: string[] = [];
+  const visit = (node: Card) => {
+    const text = getSearchText(node);
+    if (terms.every(term => text.includes(term))) {
+      matches.push(node.id);
+      path.forEach(id => ancestors.add(id));
+    }
+    path.push(node.id);
+    (node.children || []).forEach(visit);
+    path.pop();
+  };
+  visit(root);
+  return { matches, matchSet: new Set(matches), ancestors };
+};
+
+// 筛选模式下的视图树：只保留 keep 中的节点，根节点始终保留
+export const filterTree = (root: Card, keep: Set<string>): Card => {
+  const prune = (node: Card): Card => {
+    const children = (node.children || []).filter(c => keep.has(c.id));
+    return { ...node, children: children.map(prune) };
+  };
+  return prune(root);
+};
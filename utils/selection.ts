@@ -0,0 +1,85 @@
+import { Card } from '../types';
+import { validateTree } from './documentSchema';
+import { fromMarkdownOutline, toMarkdownOutline } from './formats';
+import { findNode, setCollapsed, updateNode } from './tree';
+
+// 多选与批量操作。批量操作只作用于"最上层"的选中节点：祖先已被选中的节点随祖先一起处理。
+
+export const getTopLevelSelection = (root: Card, ids: Iterable<string>): Card[] => {
+  const selected = new Set(ids);
+  const result: Card[] = [];
+  const walk = (node: Card) => {
+    if (selected.has(node.id)) {
+      result.push(node);
+      return;
+    }
+    node.children.forEach(walk);
+  };
+  walk(root);
+  return result;
+};
+
+// 移除 ids 中的节点（根节点除外），未改动的分支保持原引用
+export const removeNodes = (node: Card, ids: Set<string>): Card => {
+  let changed = false;
+  const children: Card[] = [];
+  node.children.forEach(child => {
+    if (ids.has(child.id)) {
+      changed = true;
+      return;
+    }
+    const next = removeNodes(child, ids);
+    if (next !== child) changed = true;
+    children.push(next);
+  });
+  return changed ? { ...node, children } : node;
+};
+
+// 把选中的子树依次追加到 parentId 下；目标位于被移动的子树内时原样返回
+export const moveNodes = (root: Card, ids: string[], parentId: string): Card => {
+  const moving = getTopLevelSelection(root, ids).filter(n => n.id !== root.id);
+  if (moving.length === 0 || !findNode(root, parentId) || moving.some(n => findNode(n, parentId))) return root;
+  const removed = removeNodes(root, new Set(moving.map(n => n.id)));
+  return updateNode(removed, parentId, p => ({ ...setCollapsed(p, false), children: [...p.children, ...moving] }));
+};
+
+export const updateNodes = (root: Card, ids: string[], modifier: (node: Card) => Card): Card =>
+  ids.reduce((next, id) => updateNode(next, id, modifier), root);
+
+// ---------- 剪贴板：JSON 保留全部字段，Markdown 大纲便于粘贴到其他应用 ----------
+
+export const CLIPBOARD_TYPE = 'gemini-mind-map/nodes';
+
+export const nodesToJson = (nodes: Card[]): string =>
+  JSON.stringify({ type: CLIPBOARD_TYPE, nodes }, null, 2);
+
+export const nodesToMarkdown = (nodes: Card[]): string => toMarkdownOutline(nodes);
+
+// 依次尝试：本应用的 JSON、单个或一组 Card JSON、Markdown 大纲，最后按每行一个节点处理
+export const parseClipboardNodes = (text: string): Card[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  if (/^[[{]/.test(trimmed)) {
+    try {
+      const data = JSON.parse(trimmed);
+      const raw = data?.type === CLIPBOARD_TYPE ? data.nodes : Array.isArray(data) ? data : [data];
+      if (Array.isArray(raw)) return raw.map(n => validateTree(n).value);
+    } catch {
+      // 不是 JSON，按文本处理
+    }
+  }
+  const outline = fromMarkdownOutline(trimmed);
+  if (outline.length > 0) return outline;
+  return trimmed.split(/\r?\n/).map(line => line.trim()).filter(Boolean)
+    .map((message, i) => ({ id: `line-${i}`, message, children: [] }));
+};
+
+// 粘贴时整棵子树换成新 id，避免与现有节点冲突
+export const cloneWithNewIds = (node: Card): Card => ({
+  ...node,
+  id: `m-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`,
+  children: node.children.map(cloneWithNewIds),
+});
+
+export const pasteNodes = (root: Card, parentId: string, nodes: Card[]): Card =>
+  updateNode(root, parentId, p => ({ ...setCollapsed(p, false), children: [...p.children, ...nodes.map(cloneWithNewIds)] }));
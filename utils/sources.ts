@@ -0,0 +1,158 @@
+import { Card, SourceDocument, SourcePassage } from '../types';
+import { countDescendants } from './tree';
+
+// 从长文本生成导图：原文切成段落后按长度分批发送给 AI，节点的 sources 记录它依据的段落；
+// 同一文档更新后重新生成的结果按节点文字合并进已有导图，而不是替换
+
+// 过短的段落并入下一段，过长的段落按句子切开
+const MIN_PASSAGE = 80;
+const MAX_PASSAGE = 1200;
+// 每次请求发送的原文字符数上限
+export const CHUNK_CHARS = 8000;
+
+const HEADING = /^#{1,6}\s/;
+
+const hashText = (text: string) => {
+  let h = 5381;
+  for (let i = 0; i < text.length; i++) h = ((h << 5) + h + text.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+};
+
+const splitLong = (text: string): string[] => {
+  if (text.length <= MAX_PASSAGE) return [text];
+  const pieces: string[] = [];
+  let current = '';
+  text.split(/(?<=[。！？；!?;.])\s*/).forEach(sentence => {
+    if (current && current.length + sentence.length > MAX_PASSAGE) {
+      pieces.push(current.trim());
+      current = '';
+    }
+    // 没有标点的超长句子直接截断
+    for (; sentence.length > MAX_PASSAGE; sentence = sentence.slice(MAX_PASSAGE)) pieces.push(sentence.slice(0, MAX_PASSAGE));
+    current += sentence;
+  });
+  if (current.trim()) pieces.push(current.trim());
+  return pieces;
+};
+
+// 空行分段，Markdown 标题总是另起一段并与其后的正文合并
+export const splitPassages = (text: string): SourcePassage[] => {
+  const blocks: string[] = [];
+  let lines: string[] = [];
+  const flush = () => {
+    const block = lines.join('\n').trim();
+    if (block) blocks.push(block);
+    lines = [];
+  };
+  text.replace(/\r\n?/g, '\n').split('\n').forEach(line => {
+    if (!line.trim()) return flush();
+    if (HEADING.test(line)) flush();
+    lines.push(line.trimEnd());
+  });
+  flush();
+
+  const merged: string[] = [];
+  blocks.forEach(block => {
+    const last = merged.length - 1;
+    if (last >= 0 && merged[last].length < MIN_PASSAGE && !HEADING.test(block)) merged[last] = `${merged[last]}\n\n${block}`;
+    else merged.push(block);
+  });
+
+  // 内容相同的段落加序号区分
+  const seen = new Map<string, number>();
+  return merged.flatMap(splitLong).map(passage => {
+    const base = `p-${hashText(passage)}`;
+    const count = seen.get(base) ?? 0;
+    seen.set(base, count + 1);
+    return { id: count ? `${base}-${count}` : base, text: passage };
+  });
+};
+
+export const chunkPassages = (passages: SourcePassage[], limit = CHUNK_CHARS): SourcePassage[][] => {
+  const chunks: SourcePassage[][] = [];
+  let current: SourcePassage[] = [];
+  let size = 0;
+  passages.forEach(passage => {
+    if (current.length && size + passage.text.length > limit) {
+      chunks.push(current);
+      current = [];
+      size = 0;
+    }
+    current.push(passage);
+    size += passage.text.length;
+  });
+  if (current.length) chunks.push(current);
+  return chunks;
+};
+
+export const findPassage = (sources: SourceDocument[], id: string): { source: SourceDocument; passage: SourcePassage } | null => {
+  for (const source of sources) {
+    const passage = source.passages.find(p => p.id === id);
+    if (passage) return { source, passage };
+  }
+  return null;
+};
+
+// 同名原文再次导入时沿用原来的 id
+export const upsertSource = (sources: SourceDocument[], source: SourceDocument): SourceDocument[] =>
+  sources.some(s => s.id === source.id) ? sources.map(s => (s.id === source.id ? source : s)) : [...sources, source];
+
+const labelKey = (text: string) => text.toLowerCase().replace(/[\s\p{P}]/gu, '');
+
+// 把 incoming 并入 base：同一父节点下文字相同（忽略大小写、空白与标点）的节点视为同一个，
+// 递归合并并补充原文链接，其余节点追加在末尾。base 中已有的节点与用户的修改都保留；
+// 没有任何新内容时原样返回 base
+export const mergeTrees = (base: Card, incoming: Card): { root: Card; added: number } => {
+  let added = 0;
+  const merge = (target: Card, from: Card): Card => {
+    let changed = false;
+    const children = [...target.children];
+    from.children.forEach(child => {
+      const index = children.findIndex(c => labelKey(c.message) === labelKey(child.message));
+      if (index < 0) {
+        children.push(child);
+        added += countDescendants(child) + 1;
+        changed = true;
+        return;
+      }
+      const merged = merge(children[index], child);
+      if (merged === children[index]) return;
+      children[index] = merged;
+      changed = true;
+    });
+    const known = target.sources ?? [];
+    const extra = (from.sources ?? []).filter(id => !known.includes(id));
+    if (!changed && extra.length === 0) return target;
+    return { ...target, children, ...(known.length + extra.length ? { sources: [...known, ...extra] } : {}) };
+  };
+  return { root: merge(base, incoming), added };
+};
+
+// 读取网页正文。多数网站不允许跨域读取，失败时提示用户复制正文粘贴
+export const fetchSourceText = async (url: string): Promise<{ title: string; text: string }> => {
+  let res: Response;
+  try {
+    res = await fetch(url);
+  } catch {
+    throw new Error('无法读取该网址，可能被网站的跨域限制阻止。请在浏览器中打开网页，复制正文后粘贴。');
+  }
+  if (!res.ok) throw new Error(`读取网址失败（HTTP ${res.status}）。`);
+  const body = await res.text();
+  if (!/html/i.test(res.headers.get('Content-Type') ?? '')) return { title: url, text: body };
+
+  const doc = new DOMParser().parseFromString(body, 'text/html');
+  doc.querySelectorAll('script, style, noscript, nav, header, footer, aside, form').forEach(el => el.remove());
+  const main = doc.querySelector('article, main') ?? doc.body;
+  const BLOCKS = 'h1, h2, h3, h4, p, li, pre, blockquote';
+  // 标题转成 Markdown 标题，供 splitPassages 分段；嵌套的块只取最外层
+  const text = Array.from(main.querySelectorAll(BLOCKS))
+    .filter(el => !el.parentElement?.closest(BLOCKS))
+    .map(el => {
+      const content = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+      const level = /^H(\d)$/.exec(el.tagName)?.[1];
+      return content && level ? `${'#'.repeat(Number(level))} ${content}` : content;
+    })
+    .filter(Boolean)
+    .join('\n\n');
+  return { title: doc.title.trim() || url, text: text || (main.textContent ?? '').trim() };
+};
@@ -0,0 +1,54 @@
+import * as d3 from 'd3';
+import { CARD_W, RenderNode } from './layout';
+import { MapBounds } from './mapRenderer';
+
+// 卡片的空间索引，用于点击检测与视口裁剪。
+// 四叉树按卡片中心建立；卡片高度不一，查询时按最高的卡片外扩范围，再用卡片矩形精确过滤。
+
+interface IndexedNode {
+  node: RenderNode;
+  order: number; // 在绘制顺序中的位置，后绘制的卡片在上层
+  cx: number;
+  cy: number;
+}
+
+export interface SpatialIndex {
+  // 与 bounds（外扩 margin）相交的卡片，按绘制顺序排列
+  query: (bounds: MapBounds, margin?: number) => RenderNode[];
+  // 包含该点的最上层卡片
+  hit: (x: number, y: number) => RenderNode | null;
+}
+
+export const createSpatialIndex = (nodes: RenderNode[]): SpatialIndex => {
+  const items: IndexedNode[] = nodes.map((node, order) => ({ node, order, cx: node.x + CARD_W / 2, cy: node.y + node.height / 2 }));
+  const tree = d3.quadtree<IndexedNode>().x(d => d.cx).y(d => d.cy).addAll(items);
+  const halfW = CARD_W / 2;
+  const halfH = items.reduce((max, item) => Math.max(max, item.node.height / 2), 0);
+
+  const query = (bounds: MapBounds, margin = 0): RenderNode[] => {
+    const found: IndexedNode[] = [];
+    const minX = bounds.minX - margin;
+    const minY = bounds.minY - margin;
+    const maxX = bounds.maxX + margin;
+    const maxY = bounds.maxY + margin;
+    tree.visit((quad, x0, y0, x1, y1) => {
+      if (!quad.length) {
+        let leaf: d3.QuadtreeLeaf<IndexedNode> | undefined = quad as d3.QuadtreeLeaf<IndexedNode>;
+        do {
+          const { node } = leaf.data;
+          if (node.x <= maxX && node.x + CARD_W >= minX && node.y <= maxY && node.y + node.height >= minY) found.push(leaf.data);
+        } while ((leaf = leaf.next));
+      }
+      // 返回 true 时跳过该象限
+      return x0 > maxX + halfW || x1 < minX - halfW || y0 > maxY + halfH || y1 < minY - halfH;
+    });
+    return found.sort((a, b) => a.order - b.order).map(item => item.node);
+  };
+
+  const hit = (x: number, y: number) => {
+    const candidates = query({ minX: x, minY: y, maxX: x, maxY: y });
+    return candidates[candidates.length - 1] ?? null;
+  };
+
+  return { query, hit };
+};
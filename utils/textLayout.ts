@@ -0,0 +1,109 @@
+import { Card } from '../types';
+
+// 卡片文字的换行与高度计算。布局、画布绘制与导出共用，保证三者的行数一致。
+
+export const CARD_FONT_FAMILY = '"Inter", -apple-system, sans-serif';
+export const CARD_FONT_SIZE = 13;
+export const LINE_HEIGHT = 17;
+export const TAG_LINE_HEIGHT = 12;
+export const CARD_PAD_Y = 14;
+const MAX_LINES = 12;
+const CACHE_LIMIT = 4000;
+
+export const getCardFont = (depth: number) => `${depth === 0 ? 700 : 500} ${CARD_FONT_SIZE}px ${CARD_FONT_FAMILY}`;
+
+let measureCtx: CanvasRenderingContext2D | null | undefined;
+
+const measureText = (text: string, font: string) => {
+  if (measureCtx === undefined) measureCtx = typeof document !== 'undefined' ? document.createElement('canvas').getContext('2d') : null;
+  // 没有 DOM 时按字号粗略估算
+  if (!measureCtx) return Array.from(text).reduce((w, ch) => w + (ch.charCodeAt(0) > 0x2e80 ? 1 : 0.6) * CARD_FONT_SIZE, 0);
+  measureCtx.font = font;
+  return measureCtx.measureText(text).width;
+};
+
+// 中日韩字符可在任意位置断行，其余文字按单词断行
+const TOKEN = /[\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]|[^\s\u2e80-\u9fff\uf900-\ufaff\uff00-\uffef]+|\s+/g;
+
+const wrapParagraph = (paragraph: string, maxWidth: number, font: string): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  const push = () => {
+    lines.push(line.trimEnd());
+    line = '';
+  };
+  (paragraph.match(TOKEN) || ['']).forEach(token => {
+    if (measureText(line + token, font) <= maxWidth) {
+      line += token;
+      return;
+    }
+    if (/^\s+$/.test(token)) {
+      push();
+      return;
+    }
+    if (line) push();
+    // 单个超长单词按字符拆开
+    if (measureText(token, font) > maxWidth) {
+      Array.from(token).forEach(ch => {
+        if (line && measureText(line + ch, font) > maxWidth) push();
+        line += ch;
+      });
+    } else {
+      line = token;
+    }
+  });
+  push();
+  return lines;
+};
+
+const cache = new Map<string, string[]>();
+
+export const wrapText = (text: string, maxWidth: number, font: string): string[] => {
+  const key = `${font}|${maxWidth}|${text}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  let lines = text.split(/\r?\n/).flatMap(p => wrapParagraph(p, maxWidth, font));
+  if (lines.length > MAX_LINES) {
+    lines = lines.slice(0, MAX_LINES);
+    let last = lines[MAX_LINES - 1];
+    while (last && measureText(last + '...', font) > maxWidth) last = Array.from(last).slice(0, -1).join('');
+    lines[MAX_LINES - 1] = last + '...';
+  }
+
+  if (cache.size > CACHE_LIMIT) cache.clear();
+  cache.set(key, lines);
+  return lines;
+};
+
+// 四角有优先级、状态、备注或链接标记时收窄文字区域
+export const hasCornerMarkers = (card: Card) => !!(card.priority || card.status || card.notes || card.url);
+
+export const getCardLabel = (card: Card) => (card.icon ? `${card.icon} ${card.message}` : card.message);
+
+export interface CardMeasure {
+  lines: string[];
+  height: number;
+}
+
+// Card 不可变，按对象缓存测量结果，大图重新布局时未修改的卡片无需再次换行
+const cardCache = new WeakMap<Card, Map<string, CardMeasure>>();
+
+export const measureCard = (card: Card, depth: number, cardWidth: number, minHeight: number): CardMeasure => {
+  const font = getCardFont(depth);
+  const key = `${font}|${cardWidth}|${minHeight}`;
+  let byKey = cardCache.get(card);
+  const cached = byKey?.get(key);
+  if (cached) return cached;
+
+  const maxWidth = cardWidth - (hasCornerMarkers(card) ? 56 : 24);
+  const lines = wrapText(getCardLabel(card), maxWidth, font);
+  const textHeight = lines.length * LINE_HEIGHT + (card.tags?.length ? TAG_LINE_HEIGHT : 0);
+  const result = { lines, height: Math.max(minHeight, Math.ceil(textHeight + CARD_PAD_Y * 2)) };
+  if (!byKey) {
+    byKey = new Map();
+    cardCache.set(card, byKey);
+  }
+  byKey.set(key, result);
+  return result;
+};
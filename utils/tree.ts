@@ -0,0 +1,92 @@
+import { Card } from '../types';
+
+export const countDescendants = (node: Card): number =>
+  (node.children || []).reduce((sum, c) => sum + 1 + countDescendants(c), 0);
+
+// 折叠节点在布局与绘制时视为叶子
+export const getVisibleChildren = (node: Card): Card[] => (node.collapsed ? [] : node.children || []);
+
+const withCollapsed = (node: Card, collapsed: boolean): Card => {
+  const { collapsed: _, ...rest } = node;
+  return collapsed ? { ...rest, collapsed: true } : rest;
+};
+
+// 折叠到第 level 层：根节点为第 1 层，第 level 层及更深且有子节点的节点被折叠
+export const collapseToLevel = (node: Card, level: number, depth = 0): Card => {
+  const children = (node.children || []).map(c => collapseToLevel(c, level, depth + 1));
+  return withCollapsed({ ...node, children }, children.length > 0 && depth + 1 >= level);
+};
+
+export const expandAll = (node: Card): Card =>
+  withCollapsed({ ...node, children: (node.children || []).map(expandAll) }, false);
+
+export const setCollapsed = (node: Card, collapsed: boolean): Card => withCollapsed(node, collapsed);
+
+// 按 id 替换单个节点，未命中时原样返回同一引用
+export const updateNode = (node: Card, id: string, modifier: (node: Card) => Card): Card => {
+  if (node.id === id) return modifier(node);
+  let changed = false;
+  const children = (node.children || []).map(child => {
+    const next = updateNode(child, id, modifier);
+    if (next !== child) changed = true;
+    return next;
+  });
+  return changed ? { ...node, children } : node;
+};
+
+export const findNode = (node: Card, id: string): Card | null => {
+  if (node.id === id) return node;
+  for (const child of node.children || []) {
+    const found = findNode(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+export const findParent = (node: Card, id: string): Card | null => {
+  for (const child of node.children || []) {
+    if (child.id === id) return node;
+    const found = findParent(child, id);
+    if (found) return found;
+  }
+  return null;
+};
+
+// 把节点移动为 parentId 的第 index 个子节点（index 按移动前的兄弟顺序计算，Infinity 表示末尾）。
+// 移到自身或自身子树下、或位置没有变化时原样返回 root。
+export const moveNode = (root: Card, id: string, parentId: string, index: number): Card => {
+  const node = findNode(root, id);
+  const source = findParent(root, id);
+  if (!node || !source || findNode(node, parentId)) return root;
+
+  let target = index;
+  if (source.id === parentId) {
+    const oldIndex = source.children.findIndex(c => c.id === id);
+    target = Math.min(target, source.children.length);
+    if (oldIndex < target) target--;
+    if (oldIndex === target) return root;
+  }
+
+  const removed = updateNode(root, source.id, p => ({ ...p, children: p.children.filter(c => c.id !== id) }));
+  return updateNode(removed, parentId, p => {
+    const children = [...p.children];
+    children.splice(Math.max(0, Math.min(target, children.length)), 0, node);
+    return { ...setCollapsed(p, false), children };
+  });
+};
+
+// 从根到 id 父节点的祖先链，未找到时为空数组
+export const getAncestors = (root: Card, id: string): Card[] => {
+  if (root.id === id) return [];
+  for (const child of root.children || []) {
+    const path = child.id === id ? [] : getAncestors(child, id);
+    if (child.id === id || path.length > 0) return [root, ...path];
+  }
+  return [];
+};
+
+// 展开 id 的所有已折叠祖先，使节点出现在布局中；无需展开时原样返回 root
+export const revealNode = (root: Card, id: string): Card =>
+  getAncestors(root, id)
+    .filter(node => node.collapsed)
+    .reduce((next, node) => updateNode(next, node.id, n => setCollapsed(n, false)), root);
@@ -0,0 +1,200 @@
+import { Card } from '../types';
+import { NODE_FIELD_KEYS, NodeFields } from './nodeFields';
+
+// 两棵树之间按节点与字段计算的差异。协作时本地的每次修改都先转成差异再写入 CRDT，
+// 收到的远端修改也以差异的形式套用到撤销历史上，撤销因此只回退自己的修改
+
+export type SyncedKey = 'message' | 'collapsed' | keyof NodeFields;
+
+export const SYNCED_KEYS: SyncedKey[] = ['message', 'collapsed', ...NODE_FIELD_KEYS];
+
+export type TreeChange =
+  | { type: 'set'; id: string; key: SyncedKey; value: unknown } // value 为 undefined 表示清除该字段
+  // 放到 parentId 下 afterId 之后（null 表示第一个）；node 为新建节点本身，不含子节点
+  | { type: 'place'; id: string; parentId: string | null; afterId: string | null; node?: Card }
+  | { type: 'delete'; id: string }; // 后代随之移除，除非另有 place 把它们移走
+
+// collapsed 只在为 true 时写入，空数组与空字符串视为未设置
+const normalize = (key: SyncedKey, value: unknown) =>
+  value === undefined || value === null || value === '' || (key === 'collapsed' && value === false) || (Array.isArray(value) && value.length === 0)
+    ? undefined
+    : value;
+
+export const sameValue = (key: SyncedKey, a: unknown, b: unknown) =>
+  JSON.stringify(normalize(key, a) ?? null) === JSON.stringify(normalize(key, b) ?? null);
+
+export const setNodeValue = (node: Card, key: SyncedKey, value: unknown): Card => {
+  const next = { ...node } as Record<string, unknown>;
+  const normalized = normalize(key, value);
+  if (normalized === undefined && key !== 'message') delete next[key];
+  else next[key] = normalized ?? '';
+  return next as unknown as Card;
+};
+
+interface Placement {
+  node: Card;
+  parentId: string | null;
+  index: number;
+}
+
+const indexTree = (root: Card | null) => {
+  const map = new Map<string, Placement>();
+  const visit = (node: Card, parentId: string | null, index: number) => {
+    map.set(node.id, { node, parentId, index });
+    node.children.forEach((child, i) => visit(child, node.id, i));
+  };
+  if (root) visit(root, null, 0);
+  return map;
+};
+
+// 返回最长递增子序列所在的下标
+const longestIncreasing = (values: number[]): Set<number> => {
+  const tails: number[] = [];
+  const prev: number[] = [];
+  values.forEach((value, i) => {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (values[tails[mid]] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    prev[i] = lo > 0 ? tails[lo - 1] : -1;
+    tails[lo] = i;
+  });
+  const result = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i >= 0; i = prev[i]) result.add(i);
+  return result;
+};
+
+const shallow = (node: Card): Card => ({ ...node, children: [] });
+
+// 未改动的子树与修改前是同一个对象，整棵跳过；同一父节点下的重新排序只移动最少的节点
+export const diffTrees = (a: Card | null, b: Card | null): TreeChange[] => {
+  if (a === b) return [];
+  const before = indexTree(a);
+  const after = indexTree(b);
+  const changes: TreeChange[] = [];
+
+  const diffFields = (prev: Card, next: Card) => {
+    SYNCED_KEYS.forEach(key => {
+      if (!sameValue(key, prev[key], next[key])) changes.push({ type: 'set', id: next.id, key, value: normalize(key, next[key]) });
+    });
+  };
+
+  const visitChildren = (parent: Card) => {
+    const staying = parent.children.filter(child => before.get(child.id)?.parentId === parent.id);
+    const kept = longestIncreasing(staying.map(child => before.get(child.id)!.index));
+    const keptIds = new Set(staying.filter((_, i) => kept.has(i)).map(child => child.id));
+    parent.children.forEach((child, i) => {
+      const afterId = i > 0 ? parent.children[i - 1].id : null;
+      const old = before.get(child.id);
+      if (!old) changes.push({ type: 'place', id: child.id, parentId: parent.id, afterId, node: shallow(child) });
+      else {
+        if (!keptIds.has(child.id)) changes.push({ type: 'place', id: child.id, parentId: parent.id, afterId });
+        if (old.node !== child) diffFields(old.node, child);
+      }
+      if (!old || old.node !== child) visitChildren(child);
+    });
+  };
+
+  if (b) {
+    const old = before.get(b.id);
+    if (!old) changes.push({ type: 'place', id: b.id, parentId: null, afterId: null, node: shallow(b) });
+    else {
+      if (old.parentId !== null) changes.push({ type: 'place', id: b.id, parentId: null, afterId: null });
+      if (old.node !== b) diffFields(old.node, b);
+    }
+    if (!old || old.node !== b) visitChildren(b);
+  }
+
+  // 只删除被移除的最上层节点
+  before.forEach((placement, id) => {
+    if (!after.has(id) && (placement.parentId === null || after.has(placement.parentId))) changes.push({ type: 'delete', id });
+  });
+  return changes;
+};
+
+interface Slot {
+  node: Card; // children 以 slot.children 为准
+  parentId: string | null;
+  children: string[];
+}
+
+// 把差异套用到另一棵树上（例如撤销历史中的快照）：父节点或锚点不存在时尽量放到合理的位置，
+// 会形成环的移动被忽略。未受影响的子树保持原对象
+export const applyTreeChanges = (root: Card | null, changes: TreeChange[]): Card | null => {
+  if (changes.length === 0) return root;
+  const slots = new Map<string, Slot>();
+  const visit = (node: Card, parentId: string | null) => {
+    slots.set(node.id, { node, parentId, children: node.children.map(child => child.id) });
+    node.children.forEach(child => visit(child, node.id));
+  };
+  if (root) visit(root, null);
+  let rootId = root?.id ?? null;
+  const dirty = new Set<string>();
+
+  const detach = (id: string) => {
+    const slot = slots.get(id)!;
+    const parent = slot.parentId !== null ? slots.get(slot.parentId) : undefined;
+    if (parent) {
+      parent.children = parent.children.filter(child => child !== id);
+      dirty.add(slot.parentId!);
+    }
+    if (rootId === id) rootId = null;
+    slot.parentId = null;
+  };
+
+  const isInside = (id: string, ancestorId: string) => {
+    for (let cur: string | null = id; cur !== null; cur = slots.get(cur)?.parentId ?? null) {
+      if (cur === ancestorId) return true;
+    }
+    return false;
+  };
+
+  changes.forEach(change => {
+    if (change.type === 'set') {
+      const slot = slots.get(change.id);
+      if (!slot) return;
+      slot.node = setNodeValue(slot.node, change.key, change.value);
+      dirty.add(change.id);
+      return;
+    }
+    if (change.type === 'delete') {
+      if (slots.has(change.id)) detach(change.id);
+      return;
+    }
+    let slot = slots.get(change.id);
+    if (!slot) {
+      if (!change.node) return;
+      slot = { node: change.node, parentId: null, children: [] };
+      slots.set(change.id, slot);
+    }
+    if (change.parentId === null) {
+      detach(change.id);
+      rootId = change.id;
+      dirty.add(change.id);
+      return;
+    }
+    const parent = slots.get(change.parentId);
+    if (!parent || isInside(change.parentId, change.id)) return;
+    detach(change.id);
+    const anchor = change.afterId === null ? -1 : parent.children.indexOf(change.afterId);
+    const index = change.afterId === null ? 0 : anchor < 0 ? parent.children.length : anchor + 1;
+    parent.children.splice(index, 0, change.id);
+    slot.parentId = change.parentId;
+    dirty.add(change.parentId);
+    dirty.add(change.id);
+  });
+
+  // 改动过的节点连同祖先重新构建
+  Array.from(dirty).forEach(id => {
+    for (let cur = slots.get(id)?.parentId ?? null; cur !== null && !dirty.has(cur); cur = slots.get(cur)?.parentId ?? null) dirty.add(cur);
+  });
+  const build = (id: string): Card => {
+    const slot = slots.get(id)!;
+    if (!dirty.has(id)) return slot.node;
+    return { ...slot.node, children: slot.children.filter(child => slots.get(child)?.parentId === id).map(build) };
+  };
+  return rootId === null ? null : build(rootId);
+};
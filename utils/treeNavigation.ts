@@ -0,0 +1,59 @@
+import { Card } from '../types';
+import { findNode, findParent, getVisibleChildren } from './tree';
+
+// 键盘导航遵循 WAI-ARIA treeview 约定，与布局方向无关：
+// ↑/↓ 按可见顺序移动，→ 展开或进入第一个子节点，← 折叠或回到父节点，Home/End 跳到首尾。
+
+export type NavigationKey = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight' | 'Home' | 'End';
+
+export interface NavigationResult {
+  focus?: string;
+  toggle?: boolean; // 需要切换当前节点的折叠状态
+}
+
+export const isNavigationKey = (key: string): key is NavigationKey =>
+  ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End'].includes(key);
+
+// 深度优先的可见节点顺序，与辅助功能树的朗读顺序一致
+export const getVisibleOrder = (root: Card, list: Card[] = []): Card[] => {
+  list.push(root);
+  getVisibleChildren(root).forEach(c => getVisibleOrder(c, list));
+  return list;
+};
+
+export const navigate = (root: Card, id: string, key: NavigationKey): NavigationResult => {
+  const node = findNode(root, id);
+  if (!node) return { focus: root.id };
+
+  switch (key) {
+    case 'ArrowUp':
+    case 'ArrowDown': {
+      const order = getVisibleOrder(root);
+      const index = order.findIndex(n => n.id === id);
+      const next = order[index + (key === 'ArrowUp' ? -1 : 1)];
+      return next ? { focus: next.id } : {};
+    }
+    case 'ArrowRight':
+      if (node.children.length === 0) return {};
+      return node.collapsed ? { toggle: true } : { focus: node.children[0].id };
+    case 'ArrowLeft': {
+      if (node.children.length > 0 && !node.collapsed) return { toggle: true };
+      const parent = findParent(root, id);
+      return parent ? { focus: parent.id } : {};
+    }
+    case 'Home':
+      return { focus: root.id };
+    case 'End': {
+      const order = getVisibleOrder(root);
+      return { focus: order[order.length - 1].id };
+    }
+  }
+};
+
+// 删除节点后焦点移到前一个同级节点，没有则回到父节点
+export const getFocusAfterDelete = (root: Card, id: string): string | null => {
+  const parent = findParent(root, id);
+  if (!parent) return null;
+  const index = parent.children.findIndex(c => c.id === id);
+  return (parent.children[index - 1] ?? parent.children[index + 1] ?? parent).id;
+};
@@ -0,0 +1,41 @@
+import { MapBounds } from './mapRenderer';
+
+// 视口变换的纯计算，画布与小地图共用。x / y 为平移量（屏幕像素），k 为缩放比例。
+
+export const SCALE_EXTENT: [number, number] = [0.1, 4];
+export const ZOOM_STEP = 1.25;
+// 适应窗口时不再继续放大，避免小导图被放得过大
+const FIT_MAX_SCALE = 1.5;
+const FIT_PADDING = 48;
+
+export interface ViewTransform {
+  x: number;
+  y: number;
+  k: number;
+}
+
+export const clampScale = (k: number) => Math.min(SCALE_EXTENT[1], Math.max(SCALE_EXTENT[0], k));
+
+// 把地图坐标 (cx, cy) 放到视口中心
+export const centerTransform = (cx: number, cy: number, k: number, width: number, height: number): ViewTransform => ({
+  x: width / 2 - cx * k,
+  y: height / 2 - cy * k,
+  k,
+});
+
+export const fitTransform = (bounds: MapBounds, width: number, height: number): ViewTransform => {
+  const k = clampScale(Math.min(
+    (width - FIT_PADDING * 2) / Math.max(1, bounds.maxX - bounds.minX),
+    (height - FIT_PADDING * 2) / Math.max(1, bounds.maxY - bounds.minY),
+    FIT_MAX_SCALE,
+  ));
+  return centerTransform((bounds.minX + bounds.maxX) / 2, (bounds.minY + bounds.maxY) / 2, k, width, height);
+};
+
+// 当前视口在地图坐标系中覆盖的范围
+export const getViewportBounds = (t: ViewTransform, width: number, height: number): MapBounds => ({
+  minX: -t.x / t.k,
+  minY: -t.y / t.k,
+  maxX: (width - t.x) / t.k,
+  maxY: (height - t.y) / t.k,
+});